@@ -50,9 +50,9 @@ async function backfill(options: BackfillOptions) {
       siteId,
       from: fromDate.toISOString(),
       to: toDate.toISOString(),
-    }, 'Pulling data from simulator...');
+    }, 'Pulling data from the site\'s pull source...');
 
-    const processedCount = await pullIngester.pullFromSim(siteId, fromDate, toDate);
+    const { processedCount } = await pullIngester.pullSite(siteId, fromDate, toDate);
     
     logger.info({
       siteId,
@@ -0,0 +1,74 @@
+import { PrismaClient } from '@prisma/client';
+import { ModbusPoller } from '../src/ingest/modbus.js';
+import { ModbusSiteConfigSchema } from '../src/ingest/modbusRegisters.js';
+import { logger } from '../src/util/logger.js';
+
+const prisma = new PrismaClient();
+
+// Poll a site's Modbus devices once, e.g. against a local Modbus simulator
+// while writing its register map. With --dry-run the rows are printed
+// instead of ingested.
+async function modbusPoll(siteId: string, dryRun: boolean) {
+  try {
+    const site = await prisma.site.findUnique({
+      where: { id: siteId },
+      select: { id: true, modbus: true },
+    });
+
+    if (!site) {
+      throw new Error(`Site ${siteId} not found`);
+    }
+
+    const parsed = ModbusSiteConfigSchema.safeParse(site.modbus);
+    if (!parsed.success) {
+      throw new Error(`Site ${siteId} has no valid Modbus configuration: ${parsed.error.errors.map(err => err.message).join(', ')}`);
+    }
+
+    const poller = new ModbusPoller(logger);
+
+    if (dryRun) {
+      const rows = await poller.readSite(siteId, parsed.data);
+      console.log(JSON.stringify(rows, null, 2));
+      return;
+    }
+
+    const processedCount = await poller.pollSite(siteId, parsed.data);
+
+    logger.info({
+      siteId,
+      devices: parsed.data.devices.length,
+      processedCount,
+    }, 'Modbus poll completed');
+
+  } catch (error) {
+    logger.error({
+      siteId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 'Modbus poll failed');
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// CLI interface
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const [siteId] = args.filter(arg => arg !== '--dry-run');
+
+  if (!siteId) {
+    console.log('Usage: npm run modbus:poll <siteId> [--dry-run]');
+    console.log('Example: npm run modbus:poll PRJ001 --dry-run');
+    process.exit(1);
+  }
+
+  await modbusPoll(siteId, dryRun);
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
+
+export { modbusPoll };
@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { getAllSiteConfigs } from '../src/config/sites.js';
 import { logger } from '../src/util/logger.js';
 
@@ -20,6 +20,9 @@ async function seed() {
           country: config.country,
           timezone: config.timezone,
           baselineKgPerKWh: config.baselineKgPerKWh,
+          digestDayBoundary: config.digestDayBoundary ?? 'utc',
+          mqttTopic: config.mqttTopic ?? null,
+          pullSource: config.pullEnabled ? { type: 'sim' } : Prisma.DbNull,
         },
         create: {
           id: config.id,
@@ -27,6 +30,9 @@ async function seed() {
           country: config.country,
           timezone: config.timezone,
           baselineKgPerKWh: config.baselineKgPerKWh,
+          digestDayBoundary: config.digestDayBoundary ?? 'utc',
+          mqttTopic: config.mqttTopic ?? null,
+          pullSource: config.pullEnabled ? { type: 'sim' } : Prisma.DbNull,
         },
       });
 
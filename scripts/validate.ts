@@ -1,6 +1,11 @@
 import { PrismaClient } from '@prisma/client';
 import { AggregationService } from '../src/aggregate/index.js';
-import { generateMerkleRoot, verifyMerkleProof } from '../src/model/merkle.js';
+import { generateMerkleRoot, generateMerkleProof, verifyMerkleProof, isMerkleVersion, encodeMerkleLeaf } from '../src/model/merkle.js';
+import { generateRowHash, isRowHashVersion, storedRowHashInput } from '../src/model/telemetry.js';
+import { replayEmissionFactors, AppliedEmissionFactor } from '../src/aggregate/emissionFactors.js';
+import { getMethodology } from '../src/aggregate/methodology.js';
+import { combineDeviceRows, parseDeviceRoles } from '../src/aggregate/devices.js';
+import { verifyRowSignature, isSignatureAlgorithm } from '../src/model/signature.js';
 import { logger } from '../src/util/logger.js';
 
 const prisma = new PrismaClient();
@@ -21,7 +26,6 @@ async function validate(options: ValidationOptions) {
 
     // Parse date
     const dayUtc = new Date(day + 'T00:00:00.000Z');
-    const dayEnd = new Date(dayUtc.getTime() + 24 * 60 * 60 * 1000);
 
     // Get the digest
     const digest = await prisma.dailyDigest.findUnique({
@@ -44,18 +48,23 @@ async function validate(options: ValidationOptions) {
       currentMerkleRoot: digest.merkleRoot,
     }, 'Found existing digest');
 
+    // The digest covers its recorded period; older digests cover the UTC day
+    const periodStart = digest.periodStart ?? dayUtc;
+    const periodEnd = digest.periodEnd ?? new Date(dayUtc.getTime() + 24 * 60 * 60 * 1000);
+
     // Get all raw telemetry records for the day
     const telemetryRecords = await prisma.rawTelemetry.findMany({
       where: {
         siteId,
         tsUtc: {
-          gte: dayUtc,
-          lt: dayEnd,
+          gte: periodStart,
+          lt: periodEnd,
         },
       },
-      orderBy: {
-        tsUtc: 'asc',
-      },
+      orderBy: [
+        { tsUtc: 'asc' },
+        { deviceId: 'asc' },
+      ],
     });
 
     logger.info({
@@ -68,20 +77,104 @@ async function validate(options: ValidationOptions) {
       throw new Error(`No telemetry records found for site ${siteId} on ${day}`);
     }
 
-    // Recalculate Merkle root
-    const rowHashes = telemetryRecords.map(r => r.rowHash);
-    const recalculatedMerkleRoot = generateMerkleRoot(rowHashes);
+    // Recalculate each row hash with the spec version it was stored under
+    const mismatchedRows = telemetryRecords.filter(r => {
+      const hashVersion = isRowHashVersion(r.hashVersion) ? r.hashVersion : 1;
+      const recalculated = generateRowHash(storedRowHashInput(r), hashVersion);
+      return recalculated !== r.rowHash;
+    });
+    const rowHashesMatch = mismatchedRows.length === 0;
+
+    logger.info({
+      siteId,
+      day,
+      rowHashesMatch,
+      mismatchedRows: mismatchedRows.map(r => r.tsUtc.toISOString()),
+    }, 'Row hash validation');
+
+    // Check device signatures against the keys recorded on the digest
+    const signingKeys = new Map(parseDeviceRoles(digest.devices).map(d => [d.deviceId, d]));
+    const invalidSignatures = telemetryRecords.filter(r => {
+      if (!r.signature) return false;
+      const device = signingKeys.get(r.deviceId);
+      return !device?.publicKey || !isSignatureAlgorithm(device.keyAlgorithm) ||
+        !verifyRowSignature(storedRowHashInput(r), r.signature, device.publicKey, device.keyAlgorithm);
+    });
+    const signaturesValid = invalidSignatures.length === 0;
+
+    logger.info({
+      siteId,
+      day,
+      signedRows: telemetryRecords.filter(r => r.signature).length,
+      signaturesValid,
+      invalidSignatures: invalidSignatures.map(r => `${r.deviceId}@${r.tsUtc.toISOString()}`),
+    }, 'Device signature validation');
+
+    // Recalculate Merkle root using the tree format the digest was built with
+    const merkleVersion = isMerkleVersion(digest.merkleVersion) ? digest.merkleVersion : 'v1';
+    const leaves = telemetryRecords.map(r => encodeMerkleLeaf(merkleVersion, r.rowHash, r.tsUtc.toISOString(), r));
+    const recalculatedMerkleRoot = generateMerkleRoot(leaves, merkleVersion);
 
     logger.info({
       siteId,
       day,
       originalMerkleRoot: digest.merkleRoot,
       recalculatedMerkleRoot,
+      merkleVersion,
       match: digest.merkleRoot === recalculatedMerkleRoot,
     }, 'Merkle root validation');
 
-    // Recalculate energy and avoided tCO2e
-    const energyValues = telemetryRecords
+    // Check the persisted leaves used to serve proofs against the digest
+    const persistedLeaves = await prisma.digestLeaf.findMany({
+      where: { digestId: digest.id },
+      orderBy: { position: 'asc' },
+    });
+    const persistedLeavesMatch = persistedLeaves.length === 0 ||
+      generateMerkleRoot(
+        persistedLeaves.map(l => encodeMerkleLeaf(merkleVersion, l.rowHash, l.tsUtc.toISOString(), l)),
+        merkleVersion
+      ) === digest.merkleRoot;
+
+    logger.info({
+      siteId,
+      day,
+      persistedLeaves: persistedLeaves.length,
+      persistedLeavesMatch,
+    }, 'Persisted leaf validation');
+
+    // Gap-fill estimates are committed separately under estimatedRoot
+    const estimatedRecords = await prisma.estimatedTelemetry.findMany({
+      where: {
+        siteId,
+        tsUtc: {
+          gte: periodStart,
+          lt: periodEnd,
+        },
+      },
+      orderBy: {
+        tsUtc: 'asc',
+      },
+    });
+
+    const recalculatedEstimatedRoot = estimatedRecords.length > 0
+      ? generateMerkleRoot(
+        estimatedRecords.map(e => encodeMerkleLeaf(merkleVersion, e.rowHash, e.tsUtc.toISOString(), { deviceId: 'site' })),
+        merkleVersion
+      )
+      : null;
+    const estimatedRootMatch = recalculatedEstimatedRoot === (digest.estimatedRoot ?? null);
+
+    logger.info({
+      siteId,
+      day,
+      estimatedRows: estimatedRecords.length,
+      estimatedRootMatch,
+    }, 'Estimated row validation');
+
+    // Recalculate energy and avoided tCO2e from device rows combined with
+    // the device roles recorded on the digest
+    const intervals = combineDeviceRows(telemetryRecords, parseDeviceRoles(digest.devices));
+    const energyValues = intervals
       .map(r => r.acEnergyKWh)
       .filter((v): v is number => v !== null && v !== undefined);
     
@@ -95,7 +188,17 @@ async function validate(options: ValidationOptions) {
       throw new Error(`Site ${siteId} not found`);
     }
 
-    const recalculatedAvoidedTco2e = (recalculatedEnergyKWh * site.baselineKgPerKWh) / 1000;
+    // Replay the methodology and emission factors recorded on the digest;
+    // digests without factors were computed from the site baseline
+    const appliedFactors = digest.emissionFactors as AppliedEmissionFactor[] | null;
+    const replayed = Array.isArray(appliedFactors)
+      ? replayEmissionFactors(appliedFactors)
+      : { factors: [], baselineKgPerKWh: site.baselineKgPerKWh };
+    const methodology = getMethodology(digest.methodologyId);
+    const recalculatedAvoidedTco2e = methodology.calculate(
+      { records: intervals, ...replayed },
+      methodology.parseParams(digest.methodologyParams ?? {})
+    ).avoidedTco2e;
 
     logger.info({
       siteId,
@@ -110,8 +213,9 @@ async function validate(options: ValidationOptions) {
 
     // Test Merkle proof for a random record
     const randomRecord = telemetryRecords[Math.floor(Math.random() * telemetryRecords.length)];
-    const proof = generateMerkleRoot(rowHashes);
-    const isValidProof = verifyMerkleProof(randomRecord.rowHash, [], recalculatedMerkleRoot);
+    const randomLeaf = encodeMerkleLeaf(merkleVersion, randomRecord.rowHash, randomRecord.tsUtc.toISOString(), randomRecord);
+    const proof = generateMerkleProof(leaves, randomLeaf, merkleVersion);
+    const isValidProof = verifyMerkleProof(randomLeaf, proof, digest.merkleRoot, merkleVersion, leaves.length);
 
     logger.info({
       siteId,
@@ -123,7 +227,11 @@ async function validate(options: ValidationOptions) {
 
     // Summary
     const isValid = 
+      rowHashesMatch &&
+      signaturesValid &&
       digest.merkleRoot === recalculatedMerkleRoot &&
+      persistedLeavesMatch &&
+      estimatedRootMatch &&
       Math.abs(digest.energyKWh - recalculatedEnergyKWh) < 0.001 &&
       Math.abs(digest.avoidedTco2e - recalculatedAvoidedTco2e) < 0.001;
 
@@ -0,0 +1,105 @@
+import { readFileSync } from 'fs';
+import {
+  verifyMerkleProof,
+  verifyMerkleMultiProof,
+  verifyNonInclusionProof,
+  encodeMerkleLeaf,
+  isMerkleVersion,
+  KeyedLeaf,
+  LeafDevice,
+  ProofStep,
+} from '../src/model/merkle.js';
+
+// Offline verifier for proofs returned by GET /v1/sites/:id/proof and
+// GET /v1/sites/:id/proof/range. Needs no database or network access, only
+// the proof JSON and the root that was anchored on-chain. v4 proofs commit
+// the device signature; checking it against the row takes the device's
+// public key and the row values (see src/model/signature.ts).
+
+interface ProofFile {
+  included?: boolean;
+  version: string;
+  root: string;
+  leafCount?: number;
+  tsUtc?: string;
+  // Inclusion proofs
+  deviceId?: string;
+  leafHash?: string;
+  signature?: string;
+  branch?: ProofStep[];
+  // Non-inclusion proofs
+  neighbours?: KeyedLeaf[];
+  // Range proofs
+  leaves?: { index: number; tsUtc: string; deviceId?: string; leafHash: string; signature?: string }[];
+  proof?: string[];
+}
+
+// Device fields of a v4 leaf; older versions do not commit them
+function leafDevice(leaf: { deviceId?: string; signature?: string }): LeafDevice {
+  return { deviceId: leaf.deviceId ?? '', signature: leaf.signature };
+}
+
+function verifyProofFile(path: string, anchoredRoot?: string): boolean {
+  const proof = JSON.parse(readFileSync(path, 'utf8')) as ProofFile;
+  const version = proof.version;
+
+  if (!isMerkleVersion(version)) {
+    throw new Error(`Unsupported Merkle version: ${version}`);
+  }
+
+  const root = anchoredRoot ?? proof.root;
+  if (anchoredRoot && anchoredRoot !== proof.root) {
+    console.log(`Warning: proof root ${proof.root} differs from anchored root ${anchoredRoot}`);
+  }
+
+  if (proof.leaves && proof.proof && proof.leafCount !== undefined) {
+    const leaves = proof.leaves.map(leaf => ({
+      index: leaf.index,
+      leaf: encodeMerkleLeaf(version, leaf.leafHash, leaf.tsUtc, leafDevice(leaf)),
+    }));
+    return verifyMerkleMultiProof(leaves, proof.proof, proof.leafCount, root, version);
+  }
+
+  if (proof.included === false) {
+    if (!proof.tsUtc || !proof.neighbours || !proof.proof || proof.leafCount === undefined) {
+      throw new Error('Proof file does not contain a non-inclusion proof');
+    }
+    return verifyNonInclusionProof(proof.tsUtc, proof.neighbours, proof.proof, proof.leafCount, root, version);
+  }
+
+  if (!proof.leafHash || !proof.branch || !proof.tsUtc) {
+    throw new Error('Proof file does not contain an inclusion proof');
+  }
+
+  const leaf = encodeMerkleLeaf(version, proof.leafHash, proof.tsUtc, leafDevice(proof));
+  return verifyMerkleProof(leaf, proof.branch, root, version, proof.leafCount);
+}
+
+// CLI interface
+function main() {
+  const args = process.argv.slice(2);
+
+  if (args.length < 1) {
+    console.log('Usage: npm run proof:verify <proof.json> [anchoredRoot]');
+    console.log('Example: npm run proof:verify proof.json 3f1c...');
+    process.exit(1);
+  }
+
+  const [path, anchoredRoot] = args;
+
+  try {
+    const valid = verifyProofFile(path as string, anchoredRoot);
+    console.log(valid ? 'Proof valid' : 'Proof INVALID');
+    process.exit(valid ? 0 : 2);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : 'Unknown error');
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
+
+export { verifyProofFile };
@@ -0,0 +1,97 @@
+// Data completeness of a period against the site's expected interval grid.
+// Expected intervals are start, start + interval, ... up to (excluding) end,
+// matching the [start, end) row selection used by aggregation. Rows are
+// assigned to the nearest grid slot.
+
+export interface CompletenessGap {
+  from: string; // first missing interval (tsUtc)
+  to: string;   // last missing interval (tsUtc)
+  intervals: number;
+}
+
+export interface CompletenessReport {
+  intervalMinutes: number;
+  expected: number;   // intervals in the period
+  received: number;   // rows
+  covered: number;    // expected intervals with at least one row
+  missing: number;    // expected - covered
+  duplicates: number; // extra rows in an already covered interval
+  offGrid: number;    // rows not exactly on an interval boundary
+  outOfOrder: number; // rows ingested after a row with a later tsUtc
+  score: number;      // covered / expected, 0..1
+  gaps: CompletenessGap[];
+}
+
+export const analyzeCompleteness = (
+  records: { tsUtc: Date; createdAt?: Date }[],
+  start: Date,
+  end: Date,
+  intervalMinutes: number
+): CompletenessReport => {
+  const intervalMs = intervalMinutes * 60 * 1000;
+  const expected = Math.max(0, Math.round((end.getTime() - start.getTime()) / intervalMs));
+  const slots = new Array<number>(expected).fill(0);
+
+  let offGrid = 0;
+  let received = 0;
+
+  for (const record of records) {
+    const offset = record.tsUtc.getTime() - start.getTime();
+    const slot = Math.round(offset / intervalMs);
+    if (slot < 0 || slot >= expected) continue;
+
+    received++;
+    slots[slot] = (slots[slot] ?? 0) + 1;
+    if (offset !== slot * intervalMs) {
+      offGrid++;
+    }
+  }
+
+  // Out-of-order: ingested before some row that precedes it in time
+  let outOfOrder = 0;
+  let latestCreatedAt = -Infinity;
+  const byTs = records
+    .filter(r => r.createdAt && r.tsUtc >= start && r.tsUtc < end)
+    .sort((a, b) => a.tsUtc.getTime() - b.tsUtc.getTime());
+
+  for (const record of byTs) {
+    const createdAt = (record.createdAt as Date).getTime();
+    if (createdAt < latestCreatedAt) {
+      outOfOrder++;
+    }
+    latestCreatedAt = Math.max(latestCreatedAt, createdAt);
+  }
+
+  const gaps: CompletenessGap[] = [];
+  let covered = 0;
+  let gapStart = -1;
+
+  for (let slot = 0; slot <= expected; slot++) {
+    const count = slot < expected ? slots[slot] ?? 0 : 1;
+    if (slot < expected && count > 0) covered++;
+
+    if (count === 0 && gapStart < 0) {
+      gapStart = slot;
+    } else if (count > 0 && gapStart >= 0) {
+      gaps.push({
+        from: new Date(start.getTime() + gapStart * intervalMs).toISOString(),
+        to: new Date(start.getTime() + (slot - 1) * intervalMs).toISOString(),
+        intervals: slot - gapStart,
+      });
+      gapStart = -1;
+    }
+  }
+
+  return {
+    intervalMinutes,
+    expected,
+    received,
+    covered,
+    missing: expected - covered,
+    duplicates: received - covered,
+    offGrid,
+    outOfOrder,
+    score: expected > 0 ? covered / expected : 0,
+    gaps,
+  };
+};
@@ -0,0 +1,138 @@
+import { SITE_DEVICE_ID } from '../model/telemetry.js';
+
+// Multi-device sites report one row per device and interval. Aggregation
+// first combines them into one site-level interval:
+//
+// - energy and power: summed over the revenue meters if the site registers
+//   one, otherwise over site-level rows and inverters
+// - irradiance and temperature: averaged over weather stations, falling back
+//   to the other rows when no station reported
+//
+// Merkle leaves stay per device row; only the aggregates use this series.
+// Completeness and gap filling look at intervals with energy rows only.
+
+export type DeviceKind = 'inverter' | 'meter' | 'weather-station';
+
+export const DEVICE_KINDS: readonly DeviceKind[] = ['inverter', 'meter', 'weather-station'];
+
+// Role of a device in aggregation, recorded on digests for replays along
+// with the key its rows were signed with
+export interface DeviceRole {
+  deviceId: string;
+  kind: string;
+  revenueMeter: boolean;
+  publicKey?: string | null | undefined;
+  keyAlgorithm?: string | null | undefined;
+}
+
+export interface DeviceRow {
+  tsUtc: Date;
+  deviceId: string;
+  acEnergyKWh: number | null;
+  acPowerKw: number | null;
+  poaIrrWm2: number | null;
+  tempC: number | null;
+  status: string | null;
+  createdAt?: Date;
+}
+
+// Site-level interval combined from the device rows sharing a tsUtc
+export interface SiteInterval {
+  tsUtc: Date;
+  acEnergyKWh: number | null;
+  acPowerKw: number | null;
+  poaIrrWm2: number | null;
+  tempC: number | null;
+  status: string | null;
+  energyRows: number; // rows of energy devices; 0 when only weather data arrived
+  createdAt?: Date; // earliest ingestion of the interval's rows
+}
+
+export const isDeviceKind = (value: string): value is DeviceKind => {
+  return (DEVICE_KINDS as readonly string[]).includes(value);
+};
+
+const sumOrNull = (values: (number | null)[]): number | null => {
+  const present = values.filter((v): v is number => v !== null && v !== undefined);
+  return present.length > 0 ? present.reduce((acc, v) => acc + v, 0) : null;
+};
+
+const averageOrNull = (values: (number | null)[]): number | null => {
+  const present = values.filter((v): v is number => v !== null && v !== undefined);
+  return present.length > 0 ? present.reduce((acc, v) => acc + v, 0) / present.length : null;
+};
+
+// OUTAGE only when every energy device is out, CURTAILED if any is
+const combineStatus = (rows: DeviceRow[]): string | null => {
+  const statuses = rows.map(r => r.status).filter((s): s is string => s !== null && s !== undefined);
+  if (statuses.length === 0) return null;
+  if (statuses.every(s => s === 'OUTAGE')) return 'OUTAGE';
+  if (statuses.includes('CURTAILED')) return 'CURTAILED';
+  return statuses.find(s => s !== 'OUTAGE') ?? null;
+};
+
+// Device ids whose rows carry the site's energy
+export const selectEnergyDevices = (devices: DeviceRole[]): (deviceId: string) => boolean => {
+  const revenueMeters = new Set(devices.filter(d => d.revenueMeter).map(d => d.deviceId));
+  if (revenueMeters.size > 0) {
+    return deviceId => revenueMeters.has(deviceId);
+  }
+
+  const inverters = new Set(devices.filter(d => d.kind === 'inverter').map(d => d.deviceId));
+  return deviceId => deviceId === SITE_DEVICE_ID || inverters.has(deviceId);
+};
+
+// Combine device rows into site intervals in ascending tsUtc order. Rows
+// of unregistered devices other than "site" only contribute weather data.
+export const combineDeviceRows = (rows: DeviceRow[], devices: DeviceRole[]): SiteInterval[] => {
+  const isEnergyDevice = selectEnergyDevices(devices);
+  const weatherStations = new Set(devices.filter(d => d.kind === 'weather-station').map(d => d.deviceId));
+
+  const byTs = new Map<number, DeviceRow[]>();
+  for (const row of rows) {
+    const key = row.tsUtc.getTime();
+    const group = byTs.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      byTs.set(key, [row]);
+    }
+  }
+
+  return [...byTs.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([ts, group]) => {
+      const energyRows = group.filter(r => isEnergyDevice(r.deviceId));
+      const stationRows = group.filter(r => weatherStations.has(r.deviceId));
+      const weatherRows = stationRows.length > 0 ? stationRows : group;
+      const createdAt = group
+        .map(r => r.createdAt)
+        .filter((d): d is Date => d !== undefined)
+        .sort((a, b) => a.getTime() - b.getTime())[0];
+
+      return {
+        tsUtc: new Date(ts),
+        acEnergyKWh: sumOrNull(energyRows.map(r => r.acEnergyKWh)),
+        acPowerKw: sumOrNull(energyRows.map(r => r.acPowerKw)),
+        poaIrrWm2: averageOrNull(weatherRows.map(r => r.poaIrrWm2)),
+        tempC: averageOrNull(weatherRows.map(r => r.tempC)),
+        status: combineStatus(energyRows),
+        energyRows: energyRows.length,
+        ...(createdAt ? { createdAt } : {}),
+      };
+    });
+};
+
+// Device roles recorded on a digest; digests built before devices have none
+export const parseDeviceRoles = (value: unknown): DeviceRole[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((d): d is DeviceRole =>
+    d !== null && typeof d === 'object' && typeof d.deviceId === 'string'
+  ).map(d => ({
+    deviceId: d.deviceId,
+    kind: String(d.kind),
+    revenueMeter: d.revenueMeter === true,
+    ...(typeof d.publicKey === 'string' ? { publicKey: d.publicKey } : {}),
+    ...(typeof d.keyAlgorithm === 'string' ? { keyAlgorithm: d.keyAlgorithm } : {}),
+  }));
+};
@@ -0,0 +1,150 @@
+// Grid emission factor resolution. Factors form an append-only history per
+// site; each covers [effectiveFrom, effectiveTo) and may carry a 24-value
+// hourly profile (marginal factors) indexed by the UTC hour of the interval.
+// Intervals not covered by any factor fall back to Site.baselineKgPerKWh.
+
+export interface EmissionFactorRecord {
+  id: string;
+  version: number;
+  effectiveFrom: Date;
+  effectiveTo: Date | null; // exclusive, null = open-ended
+  kgPerKWh: number;
+  hourlyKgPerKWh: number[]; // empty, or 24 values by UTC hour
+  source: string;
+}
+
+// Factor as applied to a digest or hourly summary, stored with it so the
+// calculation can be replayed without the factor table
+export interface AppliedEmissionFactor {
+  id: string | null; // null = site baseline fallback
+  version: number;   // 0 for the site baseline
+  effectiveFrom: string | null;
+  effectiveTo: string | null;
+  kgPerKWh: number;
+  hourlyKgPerKWh: number[];
+  source: string;
+  rows: number; // intervals the factor was applied to
+}
+
+export interface AvoidedEmissionsResult {
+  avoidedTco2e: number;
+  factors: AppliedEmissionFactor[];
+}
+
+export const SITE_BASELINE_SOURCE = 'Site.baselineKgPerKWh';
+
+export const HOURS_PER_DAY = 24;
+
+// Factor in effect at tsUtc, or null if the history does not cover it
+export const resolveEmissionFactor = (
+  factors: EmissionFactorRecord[],
+  tsUtc: Date
+): EmissionFactorRecord | null => {
+  const time = tsUtc.getTime();
+  let match: EmissionFactorRecord | null = null;
+
+  for (const factor of factors) {
+    if (factor.effectiveFrom.getTime() > time) continue;
+    if (factor.effectiveTo && factor.effectiveTo.getTime() <= time) continue;
+    // Prefer the latest version if ranges overlap
+    if (!match || factor.version > match.version) {
+      match = factor;
+    }
+  }
+
+  return match;
+};
+
+// kg CO2e per kWh a factor assigns to the interval ending at tsUtc
+export const factorKgPerKWh = (
+  factor: { kgPerKWh: number; hourlyKgPerKWh: number[] },
+  tsUtc: Date
+): number => {
+  if (factor.hourlyKgPerKWh.length === HOURS_PER_DAY) {
+    return factor.hourlyKgPerKWh[tsUtc.getUTCHours()] ?? factor.kgPerKWh;
+  }
+  return factor.kgPerKWh;
+};
+
+// Avoided tCO2e over telemetry rows, applying the factor in effect for each
+// interval rather than one factor for the whole period. `margin` maps the grid
+// factor to the baseline factor a methodology uses (identity by default).
+export const calculateAvoidedEmissions = (
+  records: { tsUtc: Date; acEnergyKWh: number | null }[],
+  factors: EmissionFactorRecord[],
+  baselineKgPerKWh: number,
+  margin: (gridKgPerKWh: number) => number = kgPerKWh => kgPerKWh
+): AvoidedEmissionsResult => {
+  const applied = new Map<string, AppliedEmissionFactor>();
+  let avoidedKg = 0;
+
+  for (const record of records) {
+    if (record.acEnergyKWh === null || record.acEnergyKWh === undefined) continue;
+
+    const factor = resolveEmissionFactor(factors, record.tsUtc);
+    const key = factor ? factor.id : SITE_BASELINE_SOURCE;
+
+    let entry = applied.get(key);
+    if (!entry) {
+      entry = factor ? {
+        id: factor.id,
+        version: factor.version,
+        effectiveFrom: factor.effectiveFrom.toISOString(),
+        effectiveTo: factor.effectiveTo ? factor.effectiveTo.toISOString() : null,
+        kgPerKWh: factor.kgPerKWh,
+        hourlyKgPerKWh: factor.hourlyKgPerKWh,
+        source: factor.source,
+        rows: 0,
+      } : {
+        id: null,
+        version: 0,
+        effectiveFrom: null,
+        effectiveTo: null,
+        kgPerKWh: baselineKgPerKWh,
+        hourlyKgPerKWh: [],
+        source: SITE_BASELINE_SOURCE,
+        rows: 0,
+      };
+      applied.set(key, entry);
+    }
+
+    entry.rows++;
+    avoidedKg += record.acEnergyKWh * margin(factorKgPerKWh(entry, record.tsUtc));
+  }
+
+  return {
+    avoidedTco2e: avoidedKg / 1000,
+    factors: Array.from(applied.values()).sort((a, b) => a.version - b.version),
+  };
+};
+
+// Factor history and baseline reconstructed from the factors recorded on a
+// digest, for recalculating it without the factor table
+export const replayEmissionFactors = (
+  applied: AppliedEmissionFactor[]
+): { factors: EmissionFactorRecord[]; baselineKgPerKWh: number } => {
+  const baseline = applied.find(factor => factor.id === null);
+  const factors: EmissionFactorRecord[] = applied
+    .filter((factor): factor is AppliedEmissionFactor & { id: string; effectiveFrom: string } =>
+      factor.id !== null && factor.effectiveFrom !== null)
+    .map(factor => ({
+      id: factor.id,
+      version: factor.version,
+      effectiveFrom: new Date(factor.effectiveFrom),
+      effectiveTo: factor.effectiveTo ? new Date(factor.effectiveTo) : null,
+      kgPerKWh: factor.kgPerKWh,
+      hourlyKgPerKWh: factor.hourlyKgPerKWh,
+      source: factor.source,
+    }));
+
+  return { factors, baselineKgPerKWh: baseline ? baseline.kgPerKWh : 0 };
+};
+
+// Recalculate avoided tCO2e from the factors recorded on a digest
+export const replayAvoidedEmissions = (
+  records: { tsUtc: Date; acEnergyKWh: number | null }[],
+  applied: AppliedEmissionFactor[]
+): AvoidedEmissionsResult => {
+  const { factors, baselineKgPerKWh } = replayEmissionFactors(applied);
+  return calculateAvoidedEmissions(records, factors, baselineKgPerKWh);
+};
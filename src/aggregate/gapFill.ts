@@ -0,0 +1,136 @@
+// Gap filling for missing intervals. Estimates are synthesized during daily
+// aggregation and kept apart from measured telemetry: they are stored in
+// EstimatedTelemetry, committed under their own Merkle root and reported as
+// estimated kWh next to the measured total.
+
+export type GapFillStrategy = 'none' | 'linear' | 'irradiance-regression';
+
+export type EstimationMethod = 'zero-fill' | 'linear' | 'irradiance-regression';
+
+export const GAP_FILL_STRATEGIES: readonly GapFillStrategy[] = ['none', 'linear', 'irradiance-regression'];
+
+export interface GapFillOptions {
+  strategy: GapFillStrategy;
+  intervalMinutes: number;
+  maxGapIntervals: number; // longer gaps stay unfilled, except outages
+}
+
+export interface MeasuredRow {
+  tsUtc: Date;
+  acEnergyKWh: number | null;
+  acPowerKw: number | null;
+  poaIrrWm2: number | null;
+  status: string | null;
+}
+
+export interface EstimatedRow {
+  tsUtc: Date;
+  acEnergyKWh: number;
+  acPowerKw: number | null;
+  poaIrrWm2: number | null;
+  method: EstimationMethod;
+}
+
+// Fewest rows with energy and irradiance needed to fit the regression
+export const MIN_REGRESSION_POINTS = 4;
+
+export const isGapFillStrategy = (value: string): value is GapFillStrategy => {
+  return (GAP_FILL_STRATEGIES as readonly string[]).includes(value);
+};
+
+const interpolate = (from: number | null, to: number | null, fraction: number): number | null => {
+  if (from === null || to === null) return null;
+  return from + (to - from) * fraction;
+};
+
+// Interval kWh per W/m² POA irradiance, least squares through the origin
+export const fitIrradianceRegression = (rows: MeasuredRow[]): number | null => {
+  const points = rows.filter(r => r.acEnergyKWh !== null && r.poaIrrWm2 !== null && r.poaIrrWm2 > 0);
+  if (points.length < MIN_REGRESSION_POINTS) return null;
+
+  const sxy = points.reduce((acc, r) => acc + (r.acEnergyKWh as number) * (r.poaIrrWm2 as number), 0);
+  const sxx = points.reduce((acc, r) => acc + (r.poaIrrWm2 as number) ** 2, 0);
+  return sxx > 0 ? sxy / sxx : null;
+};
+
+// Estimate rows for the missing intervals of [start, end). Gaps next to an
+// OUTAGE row are zero-filled; other gaps are filled by the strategy when both
+// neighbouring rows exist and the gap is not longer than maxGapIntervals.
+export const fillGaps = (
+  rows: MeasuredRow[],
+  start: Date,
+  end: Date,
+  options: GapFillOptions
+): EstimatedRow[] => {
+  if (options.strategy === 'none') return [];
+
+  const intervalMs = options.intervalMinutes * 60 * 1000;
+  const intervalHours = options.intervalMinutes / 60;
+  const expected = Math.max(0, Math.round((end.getTime() - start.getTime()) / intervalMs));
+
+  // Measured row per grid slot (first one wins)
+  const slots = new Array<MeasuredRow | undefined>(expected);
+  for (const row of rows) {
+    const slot = Math.round((row.tsUtc.getTime() - start.getTime()) / intervalMs);
+    if (slot >= 0 && slot < expected && !slots[slot]) {
+      slots[slot] = row;
+    }
+  }
+
+  const coefficient = options.strategy === 'irradiance-regression' ? fitIrradianceRegression(rows) : null;
+  const estimates: EstimatedRow[] = [];
+  let slot = 0;
+
+  while (slot < expected) {
+    if (slots[slot]) {
+      slot++;
+      continue;
+    }
+
+    let gapEnd = slot;
+    while (gapEnd < expected && !slots[gapEnd]) gapEnd++;
+
+    const before = slot > 0 ? slots[slot - 1] : undefined;
+    const after = gapEnd < expected ? slots[gapEnd] : undefined;
+    const length = gapEnd - slot;
+    const outage = before?.status === 'OUTAGE' || after?.status === 'OUTAGE';
+
+    for (let i = 0; i < length; i++) {
+      const tsUtc = new Date(start.getTime() + (slot + i) * intervalMs);
+
+      if (outage) {
+        estimates.push({ tsUtc, acEnergyKWh: 0, acPowerKw: 0, poaIrrWm2: null, method: 'zero-fill' });
+        continue;
+      }
+
+      if (!before || !after || length > options.maxGapIntervals) continue;
+
+      const fraction = (i + 1) / (length + 1);
+      const acPowerKw = interpolate(before.acPowerKw, after.acPowerKw, fraction);
+      const poaIrrWm2 = interpolate(before.poaIrrWm2, after.poaIrrWm2, fraction);
+
+      if (options.strategy === 'irradiance-regression') {
+        // Irradiance is interpolated from the neighbouring rows
+        if (coefficient === null || poaIrrWm2 === null) continue;
+        estimates.push({
+          tsUtc,
+          acEnergyKWh: coefficient * poaIrrWm2,
+          acPowerKw,
+          poaIrrWm2,
+          method: 'irradiance-regression',
+        });
+        continue;
+      }
+
+      const acEnergyKWh = interpolate(before.acEnergyKWh, after.acEnergyKWh, fraction)
+        ?? (acPowerKw !== null ? acPowerKw * intervalHours : null);
+      if (acEnergyKWh === null) continue;
+
+      estimates.push({ tsUtc, acEnergyKWh, acPowerKw, poaIrrWm2, method: 'linear' });
+    }
+
+    slot = gapEnd;
+  }
+
+  return estimates;
+};
@@ -1,7 +1,13 @@
 import { prisma } from '../db.js';
-import { getDayStart, getDayEnd, getHourStart, sum, average, max } from '../util/index.js';
-import { generateMerkleRoot } from '../model/merkle.js';
+import { formatDate, parseDate, getSiteDayBounds, getHourStart, sum, average, max, createError } from '../util/index.js';
+import { buildMerkleTree, generateMerkleRoot, encodeMerkleLeaf, CURRENT_MERKLE_VERSION, MerkleVersion } from '../model/merkle.js';
+import { generateRowHash, CURRENT_ROW_HASH_VERSION, SITE_DEVICE_ID } from '../model/telemetry.js';
 import { defaults } from '../config/index.js';
+import { AppliedEmissionFactor, EmissionFactorRecord } from './emissionFactors.js';
+import { analyzeCompleteness, CompletenessReport } from './completeness.js';
+import { fillGaps, isGapFillStrategy, GapFillStrategy } from './gapFill.js';
+import { getMethodology, EmissionsBreakdown, MethodologyParams, MethodologyResult } from './methodology.js';
+import { combineDeviceRows, DeviceRole } from './devices.js';
 
 export interface HourlyAggregationResult {
   siteId: string;
@@ -10,6 +16,9 @@ export interface HourlyAggregationResult {
   maxPowerKw?: number;
   avgTempC?: number;
   avgIrrWm2?: number;
+  avoidedTco2e: number;
+  emissionFactors: AppliedEmissionFactor[];
+  completeness: CompletenessReport;
   rows: number;
 }
 
@@ -18,13 +27,70 @@ export interface DailyAggregationResult {
   dayUtc: Date;
   energyKWh: number;
   avoidedTco2e: number;
+  emissionFactors: AppliedEmissionFactor[];
+  methodologyId: string;
+  methodologyParams: MethodologyParams;
+  emissionsBreakdown: EmissionsBreakdown;
+  completeness: CompletenessReport;
+  devices: DeviceRole[];
   rows: number;
   merkleRoot: string;
+  gapFillStrategy: GapFillStrategy;
+  estimatedEnergyKWh: number;
+  estimatedRows: number;
+  estimatedRoot: string | null;
+  merkleVersion: MerkleVersion;
+  dayBoundary: string;
+  timezone: string;
+  periodStart: Date;
+  periodEnd: Date; // exclusive
 }
 
 export class AggregationService {
   constructor(private logger: any) {}
 
+  // Emission factors of a site overlapping [start, end)
+  async getEmissionFactors(siteId: string, start: Date, end: Date): Promise<EmissionFactorRecord[]> {
+    return prisma.emissionFactor.findMany({
+      where: {
+        siteId,
+        effectiveFrom: { lt: end },
+        OR: [
+          { effectiveTo: null },
+          { effectiveTo: { gt: start } },
+        ],
+      },
+      orderBy: { version: 'asc' },
+    });
+  }
+
+  // Aggregation roles and signing keys of the site's registered devices
+  async getDeviceRoles(siteId: string): Promise<DeviceRole[]> {
+    return prisma.device.findMany({
+      where: { siteId },
+      select: { deviceId: true, kind: true, revenueMeter: true, publicKey: true, keyAlgorithm: true },
+      orderBy: { deviceId: 'asc' },
+    });
+  }
+
+  // Emission reductions over [start, end) using the site's methodology
+  async calculateEmissions(
+    site: { id: string; baselineKgPerKWh: number; methodologyId: string; methodologyParams: unknown },
+    records: { tsUtc: Date; acEnergyKWh: number | null }[],
+    start: Date,
+    end: Date
+  ): Promise<{ methodologyId: string; methodologyParams: MethodologyParams; result: MethodologyResult }> {
+    const methodology = getMethodology(site.methodologyId);
+    const methodologyParams = methodology.parseParams(site.methodologyParams);
+    const factors = await this.getEmissionFactors(site.id, start, end);
+
+    return {
+      methodologyId: methodology.id,
+      methodologyParams,
+      result: methodology.calculate({ records, factors, baselineKgPerKWh: site.baselineKgPerKWh }, methodologyParams),
+    };
+  }
+
   async aggregateHourly(siteId: string, hourUtc: Date): Promise<HourlyAggregationResult | null> {
     const requestId = Math.random().toString(36).substring(2, 15);
     
@@ -62,23 +128,43 @@ export class AggregationService {
         return null;
       }
 
+      const site = await prisma.site.findUnique({
+        where: { id: siteId },
+      });
+
+      if (!site) {
+        throw new Error(`Site ${siteId} not found`);
+      }
+
+      // Combine device rows into one site interval per timestamp
+      const intervals = combineDeviceRows(telemetryRecords, await this.getDeviceRoles(siteId));
+
       // Calculate aggregations
-      const energyValues = telemetryRecords
+      const energyValues = intervals
         .map(r => r.acEnergyKWh)
         .filter((v): v is number => v !== null && v !== undefined);
       
-      const powerValues = telemetryRecords
+      const powerValues = intervals
         .map(r => r.acPowerKw)
         .filter((v): v is number => v !== null && v !== undefined);
       
-      const tempValues = telemetryRecords
+      const tempValues = intervals
         .map(r => r.tempC)
         .filter((v): v is number => v !== null && v !== undefined);
       
-      const irradianceValues = telemetryRecords
+      const irradianceValues = intervals
         .map(r => r.poaIrrWm2)
         .filter((v): v is number => v !== null && v !== undefined);
 
+      // Apply the site's methodology with the emission factor in effect for
+      // each interval
+      const { result: emissions } = await this.calculateEmissions(
+        site,
+        intervals,
+        hourStart,
+        new Date(hourEnd.getTime() + 1)
+      );
+
       const result: HourlyAggregationResult = {
         siteId,
         hourUtc: hourStart,
@@ -86,6 +172,14 @@ export class AggregationService {
         maxPowerKw: powerValues.length > 0 ? max(powerValues) : undefined,
         avgTempC: tempValues.length > 0 ? average(tempValues) : undefined,
         avgIrrWm2: irradianceValues.length > 0 ? average(irradianceValues) : undefined,
+        avoidedTco2e: emissions.avoidedTco2e,
+        emissionFactors: emissions.emissionFactors,
+        completeness: analyzeCompleteness(
+          intervals.filter(i => i.energyRows > 0),
+          hourStart,
+          new Date(hourEnd.getTime() + 1),
+          site.intervalMinutes
+        ),
         rows: telemetryRecords.length,
       };
 
@@ -102,6 +196,10 @@ export class AggregationService {
           maxPowerKw: result.maxPowerKw,
           avgTempC: result.avgTempC,
           avgIrrWm2: result.avgIrrWm2,
+          avoidedTco2e: result.avoidedTco2e,
+          emissionFactors: result.emissionFactors,
+          completenessScore: result.completeness.score,
+          completeness: result.completeness,
           rows: result.rows,
         },
         create: {
@@ -111,6 +209,10 @@ export class AggregationService {
           maxPowerKw: result.maxPowerKw,
           avgTempC: result.avgTempC,
           avgIrrWm2: result.avgIrrWm2,
+          avoidedTco2e: result.avoidedTco2e,
+          emissionFactors: result.emissionFactors,
+          completenessScore: result.completeness.score,
+          completeness: result.completeness,
           rows: result.rows,
         },
       });
@@ -136,106 +238,254 @@ export class AggregationService {
     }
   }
 
+  // dayUtc is the calendar day label (its UTC date is used); for sites with
+  // a "local" digest day boundary the day is cut at local midnight instead
   async aggregateDaily(siteId: string, dayUtc: Date): Promise<DailyAggregationResult | null> {
     const requestId = Math.random().toString(36).substring(2, 15);
     
     try {
-      const dayStart = getDayStart(dayUtc);
-      const dayEnd = getDayEnd(dayUtc);
+      // Get site configuration for baseline factor and day boundary
+      const site = await prisma.site.findUnique({
+        where: { id: siteId },
+      });
+
+      if (!site) {
+        throw new Error(`Site ${siteId} not found`);
+      }
+
+      const day = formatDate(dayUtc);
+      const bounds = getSiteDayBounds(site, day);
 
       this.logger.info({
         siteId,
-        dayStart: dayStart.toISOString(),
-        dayEnd: dayEnd.toISOString(),
+        day,
+        timezone: bounds.timezone,
+        dayStart: bounds.start.toISOString(),
+        dayEnd: bounds.end.toISOString(),
         requestId,
       }, 'Starting daily aggregation');
 
-      // Get site configuration for baseline factor
-      const site = await prisma.site.findUnique({
-        where: { id: siteId },
+      // An anchored digest's root is committed on chain and its persisted
+      // leaves back its proofs, so it is never recomputed
+      const existing = await prisma.dailyDigest.findUnique({
+        where: {
+          siteId_dayUtc: {
+            siteId,
+            dayUtc: parseDate(day),
+          },
+        },
       });
 
-      if (!site) {
-        throw new Error(`Site ${siteId} not found`);
+      if (existing?.anchored) {
+        throw createError(`Digest for ${day} is anchored`, 'DIGEST_ANCHORED', 409);
       }
 
-      // Get all telemetry records for this day
+      // Get all telemetry records for this day, device rows of an interval
+      // in deviceId order
       const telemetryRecords = await prisma.rawTelemetry.findMany({
         where: {
           siteId,
           tsUtc: {
-            gte: dayStart,
-            lte: dayEnd,
+            gte: bounds.start,
+            lt: bounds.end,
           },
         },
-        orderBy: {
-          tsUtc: 'asc',
-        },
+        orderBy: [
+          { tsUtc: 'asc' },
+          { deviceId: 'asc' },
+        ],
       });
 
       if (telemetryRecords.length === 0) {
         this.logger.warn({
           siteId,
-          dayStart: dayStart.toISOString(),
+          dayStart: bounds.start.toISOString(),
           requestId,
         }, 'No telemetry records found for daily aggregation');
         return null;
       }
 
-      // Calculate energy sum
-      const energyValues = telemetryRecords
+      // Combine device rows per the site's device roles; the roles are stored
+      // with the digest so validation can replay the combination
+      const devices = await this.getDeviceRoles(siteId);
+      const intervals = combineDeviceRows(telemetryRecords, devices);
+      const energyIntervals = intervals.filter(i => i.energyRows > 0);
+
+      // Calculate measured energy sum
+      const energyValues = intervals
         .map(r => r.acEnergyKWh)
         .filter((v): v is number => v !== null && v !== undefined);
       
       const totalEnergyKWh = sum(energyValues);
 
-      // Calculate avoided tCO2e
-      const avoidedTco2e = (totalEnergyKWh * site.baselineKgPerKWh) / 1000;
-
-      // Generate Merkle root from row hashes
-      const rowHashes = telemetryRecords.map(r => r.rowHash);
-      const merkleRoot = generateMerkleRoot(rowHashes);
+      // Calculate avoided tCO2e with the site's methodology and the emission
+      // factor in effect for each interval; methodology, parameters and
+      // applied factors are stored for reproducible recomputes
+      const { methodologyId, methodologyParams, result: emissions } = await this.calculateEmissions(
+        site,
+        intervals,
+        bounds.start,
+        bounds.end
+      );
+      const { avoidedTco2e, emissionFactors, ...emissionsBreakdown } = emissions;
+
+      // Generate Merkle root from row hashes, one leaf per device row in
+      // ascending tsUtc order, committing the device and its signature
+      const merkleVersion = CURRENT_MERKLE_VERSION;
+      const tree = buildMerkleTree(
+        telemetryRecords.map(r => encodeMerkleLeaf(merkleVersion, r.rowHash, r.tsUtc.toISOString(), r)),
+        merkleVersion
+      );
+      const merkleRoot = tree.getRoot();
+
+      // Estimate missing intervals per the site's gap-fill policy. Estimates
+      // never enter merkleRoot; they are committed under estimatedRoot.
+      const gapFillStrategy = isGapFillStrategy(site.gapFillStrategy) ? site.gapFillStrategy : 'none';
+      const estimates = fillGaps(energyIntervals, bounds.start, bounds.end, {
+        strategy: gapFillStrategy,
+        intervalMinutes: site.intervalMinutes,
+        maxGapIntervals: site.gapFillMaxIntervals,
+      }).map(estimate => ({
+        ...estimate,
+        rowHash: generateRowHash({
+          siteId,
+          deviceId: SITE_DEVICE_ID,
+          tsUtc: estimate.tsUtc.toISOString(),
+          acEnergyKWh: estimate.acEnergyKWh,
+          acPowerKw: estimate.acPowerKw,
+          poaIrrWm2: estimate.poaIrrWm2,
+          source: `estimated:${estimate.method}`,
+        }),
+      }));
+      const estimatedRoot = estimates.length > 0
+        ? generateMerkleRoot(
+          estimates.map(e => encodeMerkleLeaf(merkleVersion, e.rowHash, e.tsUtc.toISOString(), { deviceId: SITE_DEVICE_ID })),
+          merkleVersion
+        )
+        : null;
 
       const result: DailyAggregationResult = {
         siteId,
-        dayUtc: dayStart,
+        dayUtc: parseDate(day),
         energyKWh: totalEnergyKWh,
         avoidedTco2e,
+        emissionFactors,
+        methodologyId,
+        methodologyParams,
+        emissionsBreakdown,
+        completeness: analyzeCompleteness(energyIntervals, bounds.start, bounds.end, site.intervalMinutes),
+        devices,
         rows: telemetryRecords.length,
         merkleRoot,
+        merkleVersion,
+        gapFillStrategy,
+        estimatedEnergyKWh: sum(estimates.map(e => e.acEnergyKWh)),
+        estimatedRows: estimates.length,
+        estimatedRoot,
+        dayBoundary: site.digestDayBoundary,
+        timezone: bounds.timezone,
+        periodStart: bounds.start,
+        periodEnd: bounds.end,
       };
 
-      // Upsert daily digest
-      await prisma.dailyDigest.upsert({
-        where: {
-          siteId_dayUtc: {
+      const fields = {
+        energyKWh: result.energyKWh,
+        avoidedTco2e: result.avoidedTco2e,
+        emissionFactors: result.emissionFactors,
+        methodologyId: result.methodologyId,
+        methodologyParams: result.methodologyParams,
+        emissionsBreakdown: result.emissionsBreakdown,
+        completenessScore: result.completeness.score,
+        completeness: result.completeness,
+        devices: result.devices,
+        rows: result.rows,
+        merkleRoot: result.merkleRoot,
+        merkleVersion: result.merkleVersion,
+        gapFillStrategy: result.gapFillStrategy,
+        estimatedEnergyKWh: result.estimatedEnergyKWh,
+        estimatedRows: result.estimatedRows,
+        estimatedRoot: result.estimatedRoot,
+        periodStart: result.periodStart,
+        periodEnd: result.periodEnd,
+        dayBoundary: result.dayBoundary,
+        timezone: result.timezone,
+      };
+
+      // Upsert daily digest and replace its persisted leaves and estimates
+      // atomically, so proofs can be served without RawTelemetry (e.g. after
+      // a purge)
+      await prisma.$transaction(async (tx) => {
+        const key = { siteId_dayUtc: { siteId, dayUtc: result.dayUtc } };
+
+        // The digest may have been anchored since it was checked above; only
+        // an unanchored one is updated
+        const updated = await tx.dailyDigest.updateMany({
+          where: { siteId, dayUtc: result.dayUtc, anchored: false },
+          data: fields,
+        });
+
+        if (updated.count === 0 && await tx.dailyDigest.findUnique({ where: key })) {
+          throw createError(`Digest for ${day} is anchored`, 'DIGEST_ANCHORED', 409);
+        }
+
+        const digest = updated.count > 0
+          ? await tx.dailyDigest.findUniqueOrThrow({ where: key })
+          : await tx.dailyDigest.create({ data: { siteId, dayUtc: result.dayUtc, ...fields } });
+
+        await tx.digestLeaf.deleteMany({
+          where: { digestId: digest.id },
+        });
+
+        await tx.digestLeaf.createMany({
+          data: telemetryRecords.map(r => ({
+            digestId: digest.id,
+            position: tree.indexOf(encodeMerkleLeaf(merkleVersion, r.rowHash, r.tsUtc.toISOString(), r)),
+            tsUtc: r.tsUtc,
+            deviceId: r.deviceId,
+            rowHash: r.rowHash,
+            signature: r.signature,
+          })),
+        });
+
+        await tx.estimatedTelemetry.deleteMany({
+          where: {
             siteId,
-            dayUtc: dayStart,
+            tsUtc: {
+              gte: bounds.start,
+              lt: bounds.end,
+            },
           },
-        },
-        update: {
-          energyKWh: result.energyKWh,
-          avoidedTco2e: result.avoidedTco2e,
-          rows: result.rows,
-          merkleRoot: result.merkleRoot,
-        },
-        create: {
-          siteId: result.siteId,
-          dayUtc: result.dayUtc,
-          energyKWh: result.energyKWh,
-          avoidedTco2e: result.avoidedTco2e,
-          rows: result.rows,
-          merkleRoot: result.merkleRoot,
-        },
+        });
+
+        if (estimates.length > 0) {
+          await tx.estimatedTelemetry.createMany({
+            data: estimates.map(e => ({
+              siteId,
+              tsUtc: e.tsUtc,
+              acPowerKw: e.acPowerKw,
+              acEnergyKWh: e.acEnergyKWh,
+              poaIrrWm2: e.poaIrrWm2,
+              method: e.method,
+              rowHash: e.rowHash,
+              hashVersion: CURRENT_ROW_HASH_VERSION,
+            })),
+          });
+        }
       });
 
       this.logger.info({
         siteId,
-        dayStart: dayStart.toISOString(),
+        day,
         energyKWh: result.energyKWh,
         avoidedTco2e: result.avoidedTco2e,
+        methodologyId: result.methodologyId,
         merkleRoot: result.merkleRoot,
+        merkleVersion: result.merkleVersion,
         rows: result.rows,
+        completenessScore: result.completeness.score,
+        missingIntervals: result.completeness.missing,
+        estimatedRows: result.estimatedRows,
+        estimatedEnergyKWh: result.estimatedEnergyKWh,
         requestId,
       }, 'Daily aggregation completed');
 
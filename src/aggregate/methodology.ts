@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import { calculateAvoidedEmissions, AppliedEmissionFactor, EmissionFactorRecord } from './emissionFactors.js';
+
+// Avoided-emissions methodologies. A methodology turns a period's telemetry
+// and grid emission factors into emission reductions:
+//
+//   BE = netKWh * baseline factor     (baseline emissions)
+//   PE = netKWh * project factor      (project emissions)
+//   LE = BE * leakage fraction        (leakage)
+//   ER = BE - PE - LE                 (reported as avoidedTco2e)
+//
+// where netKWh is generation net of auxiliary consumption. Methodologies are
+// selected per site by id; their parameters are stored with each digest.
+
+export type MethodologyParams = Record<string, number>;
+
+export interface MethodologyInput {
+  records: { tsUtc: Date; acEnergyKWh: number | null }[];
+  factors: EmissionFactorRecord[];
+  baselineKgPerKWh: number; // Site.baselineKgPerKWh, used where no factor applies
+}
+
+export interface EmissionsBreakdown {
+  netEnergyKWh: number;
+  baselineTco2e: number;
+  projectTco2e: number;
+  leakageTco2e: number;
+}
+
+export interface MethodologyResult extends EmissionsBreakdown {
+  avoidedTco2e: number;
+  emissionFactors: AppliedEmissionFactor[];
+}
+
+export interface Methodology {
+  id: string;
+  description: string;
+  // Validates parameters and fills in defaults; throws on invalid input
+  parseParams(params: unknown): MethodologyParams;
+  calculate(input: MethodologyInput, params: MethodologyParams): MethodologyResult;
+}
+
+export const DEFAULT_METHODOLOGY_ID = 'grid-baseline';
+
+// Deductions every built-in methodology supports
+const AdjustmentParamsSchema = z.object({
+  auxiliaryConsumptionFraction: z.number().min(0).max(1).default(0),
+  projectEmissionsKgPerKWh: z.number().nonnegative().default(0),
+  leakageFraction: z.number().min(0).max(1).default(0),
+});
+
+const CombinedMarginParamsSchema = AdjustmentParamsSchema.extend({
+  buildMarginKgPerKWh: z.number().nonnegative(),
+  operatingMarginWeight: z.number().min(0).max(1).default(0.75),
+  buildMarginWeight: z.number().min(0).max(1).default(0.25),
+}).refine(params => Math.abs(params.operatingMarginWeight + params.buildMarginWeight - 1) < 1e-9, {
+  message: 'operatingMarginWeight and buildMarginWeight must sum to 1',
+});
+
+const applyAdjustments = (
+  input: MethodologyInput,
+  params: MethodologyParams,
+  margin?: (gridKgPerKWh: number) => number
+): MethodologyResult => {
+  const grossEnergyKWh = input.records
+    .map(r => r.acEnergyKWh)
+    .filter((v): v is number => v !== null && v !== undefined)
+    .reduce((sum, val) => sum + val, 0);
+
+  const netFraction = 1 - (params.auxiliaryConsumptionFraction ?? 0);
+  const gross = calculateAvoidedEmissions(input.records, input.factors, input.baselineKgPerKWh, margin);
+
+  const netEnergyKWh = grossEnergyKWh * netFraction;
+  const baselineTco2e = gross.avoidedTco2e * netFraction;
+  const projectTco2e = (netEnergyKWh * (params.projectEmissionsKgPerKWh ?? 0)) / 1000;
+  const leakageTco2e = baselineTco2e * (params.leakageFraction ?? 0);
+
+  return {
+    avoidedTco2e: baselineTco2e - projectTco2e - leakageTco2e,
+    netEnergyKWh,
+    baselineTco2e,
+    projectTco2e,
+    leakageTco2e,
+    emissionFactors: gross.factors,
+  };
+};
+
+// Grid factor history (or Site.baselineKgPerKWh) as the baseline factor
+const gridBaseline: Methodology = {
+  id: 'grid-baseline',
+  description: 'Grid emission factor per interval',
+  parseParams: params => AdjustmentParamsSchema.parse(params ?? {}),
+  calculate: (input, params) => applyAdjustments(input, params),
+};
+
+// Combined margin: grid factors are the operating margin (OM), weighted with
+// a fixed build margin (BM)
+const combinedMargin: Methodology = {
+  id: 'combined-margin',
+  description: 'Weighted operating margin (grid factors) and build margin',
+  parseParams: params => CombinedMarginParamsSchema.parse(params ?? {}),
+  calculate: (input, params) => {
+    const omWeight = params.operatingMarginWeight ?? 0.75;
+    const bmWeight = params.buildMarginWeight ?? 0.25;
+    const bm = params.buildMarginKgPerKWh ?? 0;
+    return applyAdjustments(input, params, om => omWeight * om + bmWeight * bm);
+  },
+};
+
+const methodologies = new Map<string, Methodology>();
+
+export const registerMethodology = (methodology: Methodology): void => {
+  methodologies.set(methodology.id, methodology);
+};
+
+export const getMethodology = (id: string): Methodology => {
+  const methodology = methodologies.get(id);
+  if (!methodology) {
+    throw new Error(`Unknown methodology: ${id}`);
+  }
+  return methodology;
+};
+
+export const listMethodologies = (): Methodology[] => {
+  return Array.from(methodologies.values());
+};
+
+registerMethodology(gridBaseline);
+registerMethodology(combinedMargin);
@@ -49,6 +49,10 @@ export class AnchorService {
         topic,
         hash: digest.merkleRoot,
         uri: digest.csvUrl || digest.jsonUrl || undefined,
+        methodology: {
+          id: digest.methodologyId,
+          params: digest.methodologyParams ?? {},
+        },
       };
 
       this.logger.info({
@@ -57,6 +61,7 @@ export class AnchorService {
         day: formatDate(digest.dayUtc),
         topic,
         hash: digest.merkleRoot,
+        methodologyId: digest.methodologyId,
       }, 'Starting anchor request');
 
       const response = await retryWithBackoff(async () => {
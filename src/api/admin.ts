@@ -1,54 +1,190 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { ZodError } from 'zod';
 import { prisma } from '../db.js';
+import { Prisma } from '@prisma/client';
 import { 
   CreateSiteRequest,
+  UpdateSiteRequest,
   BackfillRequest,
   RecomputeRequest,
   AnchorRequest,
-  PurgeRawRequest
+  PurgeRawRequest,
+  CreateSiteSchema,
+  UpdateSiteSchema,
+  CreateEmissionFactorRequest,
+  CreateEmissionFactorSchema,
+  EmissionFactor,
+  MeterConfigRequest,
+  MeterConfigSchema,
+  MeterConfig,
+  PullStatus,
+  CreateDeviceRequest,
+  CreateDeviceSchema,
+  Device,
+  TelemetryCorrectionRequest,
+  TelemetryCorrectionSchema,
+  CreateIngestCredentialRequest,
+  CreateIngestCredentialSchema,
+  IngestCredential,
+  CreateAdminKeyRequest,
+  CreateAdminKeySchema,
+  RotateAdminKeyRequest,
+  RotateAdminKeySchema,
+  AdminKey,
+  AdminAuditLogQuery,
+  AdminAuditLogQuerySchema,
+  AdminAuditEntry
 } from '../model/api.js';
 import { PullIngester } from '../ingest/pull.js';
+import { getPullConnector, PullSourceConfig } from '../ingest/connectors.js';
+import { correctTelemetry } from '../ingest/pipeline.js';
+import { isSignatureAlgorithm } from '../model/signature.js';
+import { generateApiKey, hashApiKey, API_KEY_DISPLAY_LENGTH } from '../model/credentials.js';
+import { generateAdminKey, AdminRole } from '../model/adminAccess.js';
+import {
+  AdminRouteAccess,
+  authenticateAdmin,
+  authorizeAdmin,
+  auditAdminAction,
+  siteFromParams,
+  sitesFromBody,
+} from './adminAuth.js';
 import { AggregationService } from '../aggregate/index.js';
-import { formatDate, parseDate, generateRequestId } from '../util/index.js';
-import { env } from '../config/index.js';
+import { getMethodology, MethodologyParams } from '../aggregate/methodology.js';
+import { formatDate, parseDate, generateRequestId, getSiteDayBounds } from '../util/index.js';
 
-// Admin authentication middleware
-const authenticateAdmin = async (request: FastifyRequest, reply: FastifyReply) => {
-  const apiKey = request.headers['x-admin-key'] as string;
-  
-  if (!apiKey || apiKey !== env.ADMIN_API_KEY) {
-    return reply.code(401).send({ error: 'Unauthorized' });
-  }
+// Sites of the ingest credential named by the route's :id param
+const credentialSites = async (request: FastifyRequest): Promise<string[]> => {
+  const { id } = request.params as { id: string };
+  const credential = await prisma.ingestCredential.findUnique({
+    where: { id },
+    select: { siteIds: true },
+  });
+  return credential?.siteIds ?? [];
+};
+
+// Action of each admin route and the sites it touches
+const ADMIN_ROUTES: Record<string, AdminRouteAccess> = {
+  'POST /v1/sites': { action: 'site.upsert', sites: sitesFromBody('id') },
+  'POST /v1/sites/:id/emission-factors': { action: 'emission-factor.create', sites: siteFromParams },
+  'POST /v1/sites/:id/devices': { action: 'device.register', sites: siteFromParams },
+  'PUT /v1/sites/:id/meter': { action: 'meter.configure', sites: siteFromParams },
+  'POST /v1/sites/:id/telemetry/:ts/corrections': { action: 'telemetry.correct', sites: siteFromParams },
+  'POST /v1/ingest-credentials': { action: 'ingest-credential.create', sites: sitesFromBody('siteIds') },
+  'GET /v1/ingest-credentials': { action: 'ingest-credential.list' },
+  'DELETE /v1/ingest-credentials/:id': { action: 'ingest-credential.revoke', sites: credentialSites },
+  'POST /v1/backfill': { action: 'backfill', sites: sitesFromBody('siteId') },
+  'POST /v1/recompute': { action: 'recompute', sites: sitesFromBody('siteId') },
+  'POST /v1/anchor': { action: 'anchor', sites: sitesFromBody('siteId') },
+  'DELETE /v1/raw': { action: 'raw.purge', sites: sitesFromBody('siteId') },
+  'POST /v1/mqtt/reload': { action: 'mqtt.reload' },
+  'GET /v1/pull/status': { action: 'pull.status' },
+  'POST /v1/admin-keys': { action: 'admin-key.create' },
+  'GET /v1/admin-keys': { action: 'admin-key.list' },
+  'POST /v1/admin-keys/:id/rotate': { action: 'admin-key.rotate' },
+  'DELETE /v1/admin-keys/:id': { action: 'admin-key.revoke' },
+  'GET /v1/audit-log': { action: 'audit-log.read' },
 };
 
 export const registerAdminRoutes = async (fastify: FastifyInstance) => {
-  // Add authentication hook for all admin routes
+  // Add authentication hook for all admin routes, then check the caller's
+  // role and sites for the route's action; actions are audited
   fastify.addHook('preHandler', authenticateAdmin);
+  fastify.addHook('preHandler', authorizeAdmin(ADMIN_ROUTES));
+  fastify.addHook('onResponse', auditAdminAction);
 
-  // Create or update site
+  // Create a site, or change the fields sent of an existing one
   fastify.post('/v1/sites', async (
-    request: FastifyRequest<{ Body: CreateSiteRequest }>,
+    request: FastifyRequest<{ Body: CreateSiteRequest | UpdateSiteRequest }>,
     reply: FastifyReply
   ) => {
     const requestId = generateRequestId();
-    const siteData = request.body;
+    const siteId = (request.body as { id?: unknown } | undefined)?.id;
     
     try {
-      const site = await prisma.site.upsert({
-        where: { id: siteData.id },
-        update: {
-          name: siteData.name,
-          country: siteData.country,
-          timezone: siteData.timezone,
-          baselineKgPerKWh: siteData.baselineKgPerKWh,
-        },
-        create: {
-          id: siteData.id,
-          name: siteData.name,
-          country: siteData.country,
-          timezone: siteData.timezone,
-          baselineKgPerKWh: siteData.baselineKgPerKWh,
-        },
+      const existing = typeof siteId === 'string'
+        ? await prisma.site.findUnique({ where: { id: siteId } })
+        : null;
+      
+      const parsed = (existing ? UpdateSiteSchema : CreateSiteSchema).safeParse(request.body);
+      if (!parsed.success) {
+        return reply.code(400).send({
+          error: 'Invalid site',
+          details: parsed.error.errors.map(err => err.message),
+        });
+      }
+      
+      const siteData = parsed.data;
+      
+      // Parameters are checked against the site's methodology; a new
+      // methodology without parameters takes its defaults
+      let methodologyParams: MethodologyParams | undefined;
+      if (!existing || siteData.methodologyId !== undefined || siteData.methodologyParams !== undefined) {
+        try {
+          methodologyParams = getMethodology(siteData.methodologyId ?? existing.methodologyId).parseParams(siteData.methodologyParams ?? {});
+        } catch (error) {
+          return reply.code(400).send({
+            error: 'Invalid methodology',
+            details: error instanceof ZodError
+              ? error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+              : [error instanceof Error ? error.message : 'Unknown error'],
+          });
+        }
+      }
+      
+      let pullSource: PullSourceConfig | null | undefined;
+      try {
+        pullSource = siteData.pullSource && getPullConnector(siteData.pullSource.type).parseConfig(siteData.pullSource);
+      } catch (error) {
+        return reply.code(400).send({
+          error: 'Invalid pull source',
+          details: error instanceof ZodError
+            ? error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+            : [error instanceof Error ? error.message : 'Unknown error'],
+        });
+      }
+      
+      // Fields left undefined are not written, so an update keeps their
+      // stored value; null clears an optional field
+      const data = {
+        name: siteData.name,
+        country: siteData.country,
+        timezone: siteData.timezone,
+        baselineKgPerKWh: siteData.baselineKgPerKWh,
+        digestDayBoundary: siteData.digestDayBoundary,
+        methodologyId: siteData.methodologyId,
+        methodologyParams,
+        intervalMinutes: siteData.intervalMinutes,
+        gapFillStrategy: siteData.gapFillStrategy,
+        gapFillMaxIntervals: siteData.gapFillMaxIntervals,
+        requireSignedTelemetry: siteData.requireSignedTelemetry,
+        mqttTopic: siteData.mqttTopic,
+        mqttEnabled: siteData.mqttEnabled,
+        sparkplug: siteData.sparkplug === null ? Prisma.DbNull : siteData.sparkplug,
+        modbus: siteData.modbus === null ? Prisma.DbNull : siteData.modbus,
+        pullSource: pullSource === null ? Prisma.DbNull : pullSource,
+      };
+      
+      const site = existing
+        ? await prisma.site.update({ where: { id: existing.id }, data })
+        : await prisma.site.create({ data: { id: siteData.id, ...data } });
+      
+      // Subscribe to (or drop) the site's MQTT topic and start (or stop)
+      // its Modbus polling without a restart; a failure here leaves it to
+      // the periodic refresh
+      fastify.mqttIngester?.syncSubscriptions().catch(error => {
+        request.log.error({
+          requestId,
+          siteId: site.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }, 'Failed to update MQTT subscriptions');
+      });
+      fastify.modbusPoller?.syncSites().catch(error => {
+        request.log.error({
+          requestId,
+          siteId: site.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }, 'Failed to update Modbus polling');
       });
       
       request.log.info({
@@ -65,6 +201,18 @@ export const registerAdminRoutes = async (fastify: FastifyInstance) => {
           country: site.country,
           timezone: site.timezone,
           baselineKgPerKWh: site.baselineKgPerKWh,
+          digestDayBoundary: site.digestDayBoundary,
+          methodologyId: site.methodologyId,
+          methodologyParams: site.methodologyParams,
+          intervalMinutes: site.intervalMinutes,
+          gapFillStrategy: site.gapFillStrategy,
+          gapFillMaxIntervals: site.gapFillMaxIntervals,
+          requireSignedTelemetry: site.requireSignedTelemetry,
+          mqttTopic: site.mqttTopic ?? undefined,
+          mqttEnabled: site.mqttEnabled,
+          sparkplug: site.sparkplug ?? undefined,
+          modbus: site.modbus ?? undefined,
+          pullSource: site.pullSource ?? undefined,
           createdAt: site.createdAt.toISOString(),
           updatedAt: site.updatedAt.toISOString(),
         },
@@ -72,7 +220,7 @@ export const registerAdminRoutes = async (fastify: FastifyInstance) => {
     } catch (error) {
       request.log.error({
         requestId,
-        siteData,
+        siteId,
         error: error instanceof Error ? error.message : 'Unknown error',
       }, 'Failed to create/update site');
       
@@ -80,6 +228,501 @@ export const registerAdminRoutes = async (fastify: FastifyInstance) => {
     }
   });
 
+  // Append an emission factor to a site's history
+  fastify.post('/v1/sites/:id/emission-factors', async (
+    request: FastifyRequest<{
+      Params: { id: string };
+      Body: CreateEmissionFactorRequest;
+    }>,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    const { id: siteId } = request.params;
+    
+    const parsed = CreateEmissionFactorSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid emission factor',
+        details: parsed.error.errors.map(err => err.message),
+      });
+    }
+    
+    const factorData = parsed.data;
+    const effectiveFrom = new Date(factorData.effectiveFrom);
+    
+    try {
+      const site = await prisma.site.findUnique({
+        where: { id: siteId },
+      });
+      
+      if (!site) {
+        return reply.code(404).send({ error: 'Site not found' });
+      }
+      
+      // History is append-only and must not change anchored digests: a new
+      // factor starts after the latest one and after the last anchored day
+      const outcome = await prisma.$transaction(async (tx) => {
+        const latest = await tx.emissionFactor.findFirst({
+          where: { siteId },
+          orderBy: { version: 'desc' },
+        });
+        
+        if (latest && effectiveFrom <= latest.effectiveFrom) {
+          return { conflict: `effectiveFrom must be after version ${latest.version} (${latest.effectiveFrom.toISOString()})` };
+        }
+        
+        const anchoredAfter = await tx.dailyDigest.count({
+          where: {
+            siteId,
+            anchored: true,
+            OR: [
+              { periodEnd: { gt: effectiveFrom } },
+              { periodEnd: null, dayUtc: { gt: new Date(effectiveFrom.getTime() - 24 * 60 * 60 * 1000) } },
+            ],
+          },
+        });
+        
+        if (anchoredAfter > 0) {
+          return { conflict: 'effectiveFrom falls within an anchored digest' };
+        }
+        
+        // Close the previous factor where the new one takes over
+        if (latest && (!latest.effectiveTo || latest.effectiveTo > effectiveFrom)) {
+          await tx.emissionFactor.update({
+            where: { id: latest.id },
+            data: { effectiveTo: effectiveFrom },
+          });
+        }
+        
+        const factor = await tx.emissionFactor.create({
+          data: {
+            siteId,
+            version: latest ? latest.version + 1 : 1,
+            effectiveFrom,
+            effectiveTo: factorData.effectiveTo ? new Date(factorData.effectiveTo) : null,
+            kgPerKWh: factorData.kgPerKWh,
+            hourlyKgPerKWh: factorData.hourlyKgPerKWh ?? [],
+            source: factorData.source,
+          },
+        });
+        
+        return { factor };
+      });
+      
+      if ('conflict' in outcome) {
+        return reply.code(409).send({ error: 'Conflicting emission factor', details: outcome.conflict });
+      }
+      
+      const factor = outcome.factor;
+      
+      request.log.info({
+        requestId,
+        siteId,
+        version: factor.version,
+        effectiveFrom: factor.effectiveFrom.toISOString(),
+        kgPerKWh: factor.kgPerKWh,
+        hourly: factor.hourlyKgPerKWh.length > 0,
+      }, 'Emission factor created');
+      
+      const response: EmissionFactor = {
+        id: factor.id,
+        siteId: factor.siteId,
+        version: factor.version,
+        effectiveFrom: factor.effectiveFrom.toISOString(),
+        effectiveTo: factor.effectiveTo ? factor.effectiveTo.toISOString() : undefined,
+        kgPerKWh: factor.kgPerKWh,
+        hourlyKgPerKWh: factor.hourlyKgPerKWh.length > 0 ? factor.hourlyKgPerKWh : undefined,
+        source: factor.source,
+        createdAt: factor.createdAt.toISOString(),
+      };
+      
+      return reply.send({
+        success: true,
+        emissionFactor: response,
+      });
+    } catch (error) {
+      request.log.error({
+        requestId,
+        siteId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to create emission factor');
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Register or update a device of a site
+  fastify.post('/v1/sites/:id/devices', async (
+    request: FastifyRequest<{
+      Params: { id: string };
+      Body: CreateDeviceRequest;
+    }>,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    const { id: siteId } = request.params;
+    
+    const parsed = CreateDeviceSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid device',
+        details: parsed.error.errors.map(err => err.message),
+      });
+    }
+    
+    const deviceData = parsed.data;
+    
+    try {
+      const site = await prisma.site.findUnique({
+        where: { id: siteId },
+      });
+      
+      if (!site) {
+        return reply.code(404).send({ error: 'Site not found' });
+      }
+      
+      // Roles and keys apply to digests built and rows ingested from now on;
+      // existing digests keep the roles and keys they were built with
+      const device = await prisma.device.upsert({
+        where: {
+          siteId_deviceId: {
+            siteId,
+            deviceId: deviceData.deviceId,
+          },
+        },
+        update: {
+          kind: deviceData.kind,
+          revenueMeter: deviceData.revenueMeter,
+          name: deviceData.name ?? null,
+          publicKey: deviceData.publicKey ?? null,
+          keyAlgorithm: deviceData.keyAlgorithm ?? null,
+        },
+        create: {
+          siteId,
+          deviceId: deviceData.deviceId,
+          kind: deviceData.kind,
+          revenueMeter: deviceData.revenueMeter,
+          name: deviceData.name ?? null,
+          publicKey: deviceData.publicKey ?? null,
+          keyAlgorithm: deviceData.keyAlgorithm ?? null,
+        },
+      });
+      
+      request.log.info({
+        requestId,
+        siteId,
+        deviceId: device.deviceId,
+        kind: device.kind,
+        revenueMeter: device.revenueMeter,
+        keyAlgorithm: device.keyAlgorithm,
+      }, 'Device registered');
+      
+      const response: Device = {
+        siteId: device.siteId,
+        deviceId: device.deviceId,
+        kind: device.kind,
+        revenueMeter: device.revenueMeter,
+        name: device.name || undefined,
+        publicKey: device.publicKey || undefined,
+        keyAlgorithm: isSignatureAlgorithm(device.keyAlgorithm) ? device.keyAlgorithm : undefined,
+        online: device.online ?? undefined,
+        onlineChangedAt: device.onlineChangedAt?.toISOString(),
+        createdAt: device.createdAt.toISOString(),
+      };
+      
+      return reply.send({
+        success: true,
+        device: response,
+      });
+    } catch (error) {
+      request.log.error({
+        requestId,
+        siteId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to register device');
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Issue an ingest API key scoped to sites. The key is only returned here;
+  // the server keeps its hash.
+  fastify.post('/v1/ingest-credentials', async (
+    request: FastifyRequest<{ Body: CreateIngestCredentialRequest }>,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    
+    const parsed = CreateIngestCredentialSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid ingest credential',
+        details: parsed.error.errors.map(err => err.message),
+      });
+    }
+    
+    const siteIds = [...new Set(parsed.data.siteIds)];
+    
+    try {
+      const sites = await prisma.site.findMany({
+        where: { id: { in: siteIds } },
+        select: { id: true },
+      });
+      const known = new Set(sites.map(site => site.id));
+      const unknown = siteIds.filter(siteId => !known.has(siteId));
+      
+      if (unknown.length > 0) {
+        return reply.code(400).send({
+          error: 'Invalid ingest credential',
+          details: unknown.map(siteId => `Site ${siteId} not found`),
+        });
+      }
+      
+      const apiKey = generateApiKey();
+      const credential = await prisma.ingestCredential.create({
+        data: {
+          name: parsed.data.name,
+          keyHash: hashApiKey(apiKey),
+          keyPrefix: apiKey.slice(0, API_KEY_DISPLAY_LENGTH),
+          siteIds,
+        },
+      });
+      
+      request.log.info({
+        requestId,
+        credentialId: credential.id,
+        siteIds,
+      }, 'Ingest credential issued');
+      
+      return reply.send({
+        success: true,
+        credential: toIngestCredential(credential),
+        apiKey,
+      });
+    } catch (error) {
+      request.log.error({
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to issue ingest credential');
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // List ingest credentials, including revoked ones
+  fastify.get('/v1/ingest-credentials', async (
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    
+    const scope = request.adminActor?.siteIds ?? [];
+    
+    try {
+      // Site-scoped keys see the credentials of their sites
+      const credentials = await prisma.ingestCredential.findMany({
+        where: scope.length > 0 ? { siteIds: { hasSome: scope } } : {},
+        orderBy: { createdAt: 'asc' },
+      });
+      
+      return reply.send({
+        credentials: credentials.map(toIngestCredential),
+      });
+    } catch (error) {
+      request.log.error({
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to list ingest credentials');
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Revoke an ingest credential. Rows it submitted keep its id.
+  fastify.delete('/v1/ingest-credentials/:id', async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    const { id } = request.params;
+    
+    try {
+      const existing = await prisma.ingestCredential.findUnique({
+        where: { id },
+      });
+      
+      if (!existing) {
+        return reply.code(404).send({ error: 'Ingest credential not found' });
+      }
+      
+      const credential = existing.revokedAt
+        ? existing
+        : await prisma.ingestCredential.update({
+            where: { id },
+            data: { revokedAt: new Date() },
+          });
+      
+      request.log.info({ requestId, credentialId: id }, 'Ingest credential revoked');
+      
+      return reply.send({
+        success: true,
+        credential: toIngestCredential(credential),
+      });
+    } catch (error) {
+      request.log.error({
+        requestId,
+        credentialId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to revoke ingest credential');
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Configure the site's cumulative revenue meter
+  fastify.put('/v1/sites/:id/meter', async (
+    request: FastifyRequest<{
+      Params: { id: string };
+      Body: MeterConfigRequest;
+    }>,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    const { id: siteId } = request.params;
+    
+    const parsed = MeterConfigSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid meter config',
+        details: parsed.error.errors.map(err => err.message),
+      });
+    }
+    
+    const meterData = {
+      meterSerial: parsed.data.meterSerial ?? null,
+      registerMaxKWh: parsed.data.registerMaxKWh ?? null,
+      multiplier: parsed.data.multiplier,
+      maxIntervalKWh: parsed.data.maxIntervalKWh ?? null,
+    };
+    
+    try {
+      const site = await prisma.site.findUnique({
+        where: { id: siteId },
+      });
+      
+      if (!site) {
+        return reply.code(404).send({ error: 'Site not found' });
+      }
+      
+      // Applies to readings ingested from now on; stored conversions are kept
+      const meter = await prisma.meterConfig.upsert({
+        where: { siteId },
+        update: meterData,
+        create: { siteId, ...meterData },
+      });
+      
+      request.log.info({
+        requestId,
+        siteId,
+        meterSerial: meter.meterSerial,
+        registerMaxKWh: meter.registerMaxKWh,
+        multiplier: meter.multiplier,
+      }, 'Meter config updated');
+      
+      const response: MeterConfig = {
+        siteId: meter.siteId,
+        meterSerial: meter.meterSerial ?? undefined,
+        registerMaxKWh: meter.registerMaxKWh ?? undefined,
+        multiplier: meter.multiplier,
+        maxIntervalKWh: meter.maxIntervalKWh ?? undefined,
+        updatedAt: meter.updatedAt.toISOString(),
+      };
+      
+      return reply.send({
+        success: true,
+        meter: response,
+      });
+    } catch (error) {
+      request.log.error({
+        requestId,
+        siteId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to update meter config');
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Correct a stored telemetry row. The replaced version is kept in the
+  // row's history; rows of anchored digests can only be changed here.
+  fastify.post('/v1/sites/:id/telemetry/:ts/corrections', async (
+    request: FastifyRequest<{
+      Params: { id: string; ts: string };
+      Body: TelemetryCorrectionRequest;
+    }>,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    const { id: siteId, ts } = request.params;
+    const tsUtc = new Date(ts);
+    
+    if (isNaN(tsUtc.getTime())) {
+      return reply.code(400).send({ error: 'Invalid ts' });
+    }
+    
+    const parsed = TelemetryCorrectionSchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid correction',
+        details: parsed.error.errors.map(err => err.message),
+      });
+    }
+    
+    const { deviceId, reason, ...changes } = parsed.data;
+    
+    try {
+      const result = await correctTelemetry(siteId, deviceId, tsUtc, changes, reason);
+      
+      request.log.info({
+        requestId,
+        siteId,
+        deviceId,
+        ts: tsUtc.toISOString(),
+        revision: result.revision,
+        previousRowHash: result.previousRowHash,
+        rowHash: result.rowHash,
+        anchoredDay: result.anchoredDay,
+        reason,
+      }, 'Telemetry corrected');
+      
+      return reply.send({
+        success: true,
+        correction: {
+          siteId: result.siteId,
+          deviceId: result.deviceId,
+          tsUtc: result.tsUtc.toISOString(),
+          revision: result.revision,
+          rowHash: result.rowHash,
+          previousRowHash: result.previousRowHash,
+          anchoredDay: result.anchoredDay,
+        },
+      });
+    } catch (error) {
+      request.log.error({
+        requestId,
+        siteId,
+        ts,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Telemetry correction failed');
+      
+      if (error instanceof Error && 'statusCode' in error && typeof error.statusCode === 'number') {
+        return reply.code(error.statusCode).send({ error: error.message });
+      }
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
   // Backfill data
   fastify.post('/v1/backfill', async (
     request: FastifyRequest<{ Body: BackfillRequest }>,
@@ -101,7 +744,7 @@ export const registerAdminRoutes = async (fastify: FastifyInstance) => {
       }, 'Starting backfill');
       
       const pullIngester = new PullIngester(request.log);
-      const processedCount = await pullIngester.pullFromSim(siteId, fromDate, toDate);
+      const { processedCount } = await pullIngester.pullSite(siteId, fromDate, toDate);
       
       // Trigger aggregation for the backfilled period
       const aggregationService = new AggregationService(request.log);
@@ -111,11 +754,18 @@ export const registerAdminRoutes = async (fastify: FastifyInstance) => {
         try {
           await aggregationService.aggregateDaily(siteId, currentDate);
         } catch (error) {
-          request.log.error({
-            siteId,
-            day: currentDate.toISOString(),
-            error: error instanceof Error ? error.message : 'Unknown error',
-          }, 'Failed to aggregate backfilled day');
+          if (error instanceof Error && 'statusCode' in error && error.statusCode === 409) {
+            request.log.info({
+              siteId,
+              day: currentDate.toISOString(),
+            }, 'Skipped anchored backfilled day');
+          } else {
+            request.log.error({
+              siteId,
+              day: currentDate.toISOString(),
+              error: error instanceof Error ? error.message : 'Unknown error',
+            }, 'Failed to aggregate backfilled day');
+          }
         }
         
         currentDate.setDate(currentDate.getDate() + 1);
@@ -187,6 +837,12 @@ export const registerAdminRoutes = async (fastify: FastifyInstance) => {
           avoidedTco2e: result.avoidedTco2e,
           rows: result.rows,
           merkleRoot: result.merkleRoot,
+          merkleVersion: result.merkleVersion,
+          estimatedEnergyKWh: result.estimatedEnergyKWh,
+          estimatedRows: result.estimatedRows,
+          estimatedRoot: result.estimatedRoot,
+          periodStart: result.periodStart.toISOString(),
+          periodEnd: result.periodEnd.toISOString(),
         },
       });
     } catch (error) {
@@ -197,6 +853,10 @@ export const registerAdminRoutes = async (fastify: FastifyInstance) => {
         error: error instanceof Error ? error.message : 'Unknown error',
       }, 'Recompute failed');
       
+      if (error instanceof Error && 'statusCode' in error && typeof error.statusCode === 'number') {
+        return reply.code(error.statusCode).send({ error: error.message });
+      }
+      
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
@@ -299,12 +959,24 @@ export const registerAdminRoutes = async (fastify: FastifyInstance) => {
     
     try {
       const dayUtc = parseDate(day);
-      const dayEnd = new Date(dayUtc.getTime() + 24 * 60 * 60 * 1000);
+      
+      const site = await prisma.site.findUnique({
+        where: { id: siteId },
+      });
+      
+      if (!site) {
+        return reply.code(404).send({ error: 'Site not found' });
+      }
+      
+      // Purge the same period the site's digest for this day covers
+      const bounds = getSiteDayBounds(site, day);
       
       request.log.info({
         requestId,
         siteId,
         day,
+        periodStart: bounds.start.toISOString(),
+        periodEnd: bounds.end.toISOString(),
       }, 'Starting raw data purge');
       
       // Delete raw telemetry records
@@ -312,8 +984,8 @@ export const registerAdminRoutes = async (fastify: FastifyInstance) => {
         where: {
           siteId,
           tsUtc: {
-            gte: dayUtc,
-            lt: dayEnd,
+            gte: bounds.start,
+            lt: bounds.end,
           },
         },
       });
@@ -323,30 +995,65 @@ export const registerAdminRoutes = async (fastify: FastifyInstance) => {
         where: {
           siteId,
           hourUtc: {
-            gte: dayUtc,
-            lt: dayEnd,
+            gte: bounds.start,
+            lt: bounds.end,
           },
         },
       });
       
-      // Delete daily digest
-      await prisma.dailyDigest.deleteMany({
+      // Delete the daily digest unless it is anchored. Anchored digests keep
+      // their persisted leaves so proofs remain available after the purge.
+      const digestResult = await prisma.dailyDigest.deleteMany({
         where: {
           siteId,
           dayUtc,
+          anchored: false,
         },
       });
       
+      const digestRetained = digestResult.count === 0 && (await prisma.dailyDigest.count({
+        where: {
+          siteId,
+          dayUtc,
+        },
+      })) > 0;
+      
+      // Gap-fill estimates and row history go with the digest; an anchored
+      // digest keeps the rows behind its estimatedRoot and its rows' history
+      if (!digestRetained) {
+        await prisma.estimatedTelemetry.deleteMany({
+          where: {
+            siteId,
+            tsUtc: {
+              gte: bounds.start,
+              lt: bounds.end,
+            },
+          },
+        });
+        
+        await prisma.telemetryRevision.deleteMany({
+          where: {
+            siteId,
+            tsUtc: {
+              gte: bounds.start,
+              lt: bounds.end,
+            },
+          },
+        });
+      }
+      
       request.log.info({
         requestId,
         siteId,
         day,
         deletedRecords: deleteResult.count,
+        digestRetained,
       }, 'Raw data purge completed');
       
       return reply.send({
         success: true,
         deletedRecords: deleteResult.count,
+        digestRetained,
         message: `Purged ${deleteResult.count} raw records for site ${siteId} on ${day}`,
       });
     } catch (error) {
@@ -360,4 +1067,403 @@ export const registerAdminRoutes = async (fastify: FastifyInstance) => {
       return reply.code(500).send({ error: 'Internal server error' });
     }
   });
+  // Re-read the site registry and update MQTT subscriptions now
+  fastify.post('/v1/mqtt/reload', async (
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    
+    try {
+      const subscriptions = await fastify.mqttIngester.syncSubscriptions();
+      
+      request.log.info({
+        requestId,
+        topics: subscriptions.length,
+      }, 'MQTT subscriptions reloaded');
+      
+      return reply.send({
+        success: true,
+        subscriptions: subscriptions.map(({ siteId, filter }) => ({ siteId, topic: filter })),
+      });
+    } catch (error) {
+      request.log.error({
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to reload MQTT subscriptions');
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Watermarks and last runs of the incremental pull
+  fastify.get('/v1/pull/status', async (
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    
+    const scope = request.adminActor?.siteIds ?? [];
+    
+    try {
+      // Site-scoped keys see their sites
+      const sites = await prisma.site.findMany({
+        where: {
+          pullSource: { not: Prisma.DbNull },
+          ...(scope.length > 0 ? { id: { in: scope } } : {}),
+        },
+        select: { id: true, pullSource: true, pullWatermark: true },
+        orderBy: { id: 'asc' },
+      });
+      
+      const statuses: PullStatus[] = sites.map(site => {
+        const state = site.pullWatermark;
+        return {
+          siteId: site.id,
+          connector: (site.pullSource as PullSourceConfig).type,
+          watermark: state?.watermark?.toISOString() ?? undefined,
+          lastRunAt: state?.lastRunAt?.toISOString() ?? undefined,
+          lastSuccessAt: state?.lastSuccessAt?.toISOString() ?? undefined,
+          lastError: state?.lastError ?? undefined,
+          lastCount: state?.lastCount ?? 0,
+        };
+      });
+      
+      return reply.send({ sites: statuses });
+    } catch (error) {
+      request.log.error({
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to read pull status');
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Issue an admin key. The key is only returned here; the server keeps its
+  // hash.
+  fastify.post('/v1/admin-keys', async (
+    request: FastifyRequest<{ Body: CreateAdminKeyRequest }>,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    
+    const parsed = CreateAdminKeySchema.safeParse(request.body);
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid admin key',
+        details: parsed.error.errors.map(err => err.message),
+      });
+    }
+    
+    try {
+      const apiKey = generateAdminKey();
+      const key = await prisma.adminKey.create({
+        data: {
+          name: parsed.data.name,
+          keyHash: hashApiKey(apiKey),
+          keyPrefix: apiKey.slice(0, API_KEY_DISPLAY_LENGTH),
+          role: parsed.data.role,
+          siteIds: [...new Set(parsed.data.siteIds)],
+        },
+      });
+      
+      request.log.info({
+        requestId,
+        adminKeyId: key.id,
+        role: key.role,
+        siteIds: key.siteIds,
+      }, 'Admin key issued');
+      
+      return reply.send({
+        success: true,
+        adminKey: toAdminKey(key),
+        apiKey,
+      });
+    } catch (error) {
+      request.log.error({
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to issue admin key');
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // List admin keys, including revoked ones
+  fastify.get('/v1/admin-keys', async (
+    request: FastifyRequest,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    const scope = request.adminActor?.siteIds ?? [];
+    
+    try {
+      // Site-scoped keys see the keys limited to their sites
+      const keys = await prisma.adminKey.findMany({
+        where: scope.length > 0 ? { siteIds: { hasSome: scope } } : {},
+        orderBy: { createdAt: 'asc' },
+      });
+      
+      return reply.send({
+        adminKeys: keys.map(toAdminKey),
+      });
+    } catch (error) {
+      request.log.error({
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to list admin keys');
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Rotate an admin key: issue a key with the same name, role and sites and
+  // revoke the old one, optionally after a grace period
+  fastify.post('/v1/admin-keys/:id/rotate', async (
+    request: FastifyRequest<{
+      Params: { id: string };
+      Body: RotateAdminKeyRequest;
+    }>,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    const { id } = request.params;
+    
+    const parsed = RotateAdminKeySchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid rotation',
+        details: parsed.error.errors.map(err => err.message),
+      });
+    }
+    
+    try {
+      const existing = await prisma.adminKey.findUnique({
+        where: { id },
+      });
+      
+      if (!existing) {
+        return reply.code(404).send({ error: 'Admin key not found' });
+      }
+      
+      if (existing.revokedAt || existing.rotatedToId) {
+        return reply.code(409).send({ error: 'Admin key is already revoked or rotated' });
+      }
+      
+      const apiKey = generateAdminKey();
+      const revokedAt = new Date(Date.now() + parsed.data.graceMinutes * 60 * 1000);
+      
+      const key = await prisma.$transaction(async (tx) => {
+        const replacement = await tx.adminKey.create({
+          data: {
+            name: existing.name,
+            keyHash: hashApiKey(apiKey),
+            keyPrefix: apiKey.slice(0, API_KEY_DISPLAY_LENGTH),
+            role: existing.role,
+            siteIds: existing.siteIds,
+          },
+        });
+        
+        await tx.adminKey.update({
+          where: { id },
+          data: { rotatedToId: replacement.id, revokedAt },
+        });
+        
+        return replacement;
+      });
+      
+      request.log.info({
+        requestId,
+        adminKeyId: id,
+        rotatedToId: key.id,
+        revokedAt: revokedAt.toISOString(),
+      }, 'Admin key rotated');
+      
+      return reply.send({
+        success: true,
+        adminKey: toAdminKey(key),
+        apiKey,
+        previousKeyRevokedAt: revokedAt.toISOString(),
+      });
+    } catch (error) {
+      request.log.error({
+        requestId,
+        adminKeyId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to rotate admin key');
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Revoke an admin key immediately
+  fastify.delete('/v1/admin-keys/:id', async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    const { id } = request.params;
+    
+    try {
+      const existing = await prisma.adminKey.findUnique({
+        where: { id },
+      });
+      
+      if (!existing) {
+        return reply.code(404).send({ error: 'Admin key not found' });
+      }
+      
+      const now = new Date();
+      const key = existing.revokedAt && existing.revokedAt <= now
+        ? existing
+        : await prisma.adminKey.update({
+            where: { id },
+            data: { revokedAt: now },
+          });
+      
+      request.log.info({ requestId, adminKeyId: id }, 'Admin key revoked');
+      
+      return reply.send({
+        success: true,
+        adminKey: toAdminKey(key),
+      });
+    } catch (error) {
+      request.log.error({
+        requestId,
+        adminKeyId: id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to revoke admin key');
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Read the admin audit log, newest first
+  fastify.get('/v1/audit-log', async (
+    request: FastifyRequest<{ Querystring: AdminAuditLogQuery }>,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    const scope = request.adminActor?.siteIds ?? [];
+    
+    const parsed = AdminAuditLogQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid query',
+        details: parsed.error.errors.map(err => err.message),
+      });
+    }
+    
+    const { from, to, actorId, siteId, action, limit } = parsed.data;
+    
+    if (siteId && scope.length > 0 && !scope.includes(siteId)) {
+      return reply.code(403).send({ error: 'Forbidden', details: [`Site ${siteId} is outside the key's scope`] });
+    }
+    
+    try {
+      // Site-scoped keys see the entries of their sites
+      const entries = await prisma.adminAuditLog.findMany({
+        where: {
+          ...(from || to ? { createdAt: { ...(from ? { gte: new Date(from) } : {}), ...(to ? { lte: new Date(to) } : {}) } } : {}),
+          ...(actorId ? { actorId } : {}),
+          ...(action ? { action } : {}),
+          ...(siteId ? { siteIds: { has: siteId } } : scope.length > 0 ? { siteIds: { hasSome: scope } } : {}),
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      });
+      
+      return reply.send({
+        entries: entries.map(toAdminAuditEntry),
+      });
+    } catch (error) {
+      request.log.error({
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to read admin audit log');
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
 };
+
+interface IngestCredentialRow {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  siteIds: string[];
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+// Map a stored ingest credential to its API representation (never the key)
+function toIngestCredential(credential: IngestCredentialRow): IngestCredential {
+  return {
+    id: credential.id,
+    name: credential.name,
+    keyPrefix: credential.keyPrefix,
+    siteIds: credential.siteIds,
+    lastUsedAt: credential.lastUsedAt?.toISOString(),
+    revokedAt: credential.revokedAt?.toISOString(),
+    createdAt: credential.createdAt.toISOString(),
+  };
+}
+
+interface AdminKeyRow {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  role: AdminRole; // validated when the key was issued
+  siteIds: string[];
+  rotatedToId: string | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+interface AdminAuditLogRow {
+  id: string;
+  actorId: string;
+  actorName: string;
+  role: string;
+  action: string;
+  siteIds: string[];
+  params: unknown;
+  statusCode: number;
+  requestId: string;
+  createdAt: Date;
+}
+
+// Map a stored admin key to its API representation (never the key)
+function toAdminKey(key: AdminKeyRow): AdminKey {
+  return {
+    id: key.id,
+    name: key.name,
+    keyPrefix: key.keyPrefix,
+    role: key.role,
+    siteIds: key.siteIds,
+    rotatedToId: key.rotatedToId ?? undefined,
+    lastUsedAt: key.lastUsedAt?.toISOString(),
+    revokedAt: key.revokedAt?.toISOString(),
+    createdAt: key.createdAt.toISOString(),
+  };
+}
+
+// Map a stored audit log entry to its API representation
+function toAdminAuditEntry(entry: AdminAuditLogRow): AdminAuditEntry {
+  return {
+    id: entry.id,
+    actorId: entry.actorId,
+    actorName: entry.actorName,
+    role: entry.role,
+    action: entry.action,
+    siteIds: entry.siteIds,
+    params: entry.params,
+    statusCode: entry.statusCode,
+    requestId: entry.requestId,
+    createdAt: entry.createdAt.toISOString(),
+  };
+}
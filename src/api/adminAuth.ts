@@ -0,0 +1,151 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../db.js';
+import { env } from '../config/index.js';
+import { hashApiKey } from '../model/credentials.js';
+import {
+  AdminAction,
+  AdminActor,
+  checkAdminAccess,
+  isAdminRole,
+  isReadOnlyAdminAction,
+  redactSecrets,
+  secretsEqual,
+} from '../model/adminAccess.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    adminActor?: AdminActor;
+    adminAction?: { action: AdminAction; siteIds: string[] };
+  }
+}
+
+// Sites an admin request touches; undefined when it is not tied to sites
+type TargetSites = (request: FastifyRequest) => string[] | undefined | Promise<string[] | undefined>;
+
+export interface AdminRouteAccess {
+  action: AdminAction;
+  sites?: TargetSites;
+}
+
+const ENV_ACTOR: AdminActor = { id: 'env', name: 'ADMIN_API_KEY', role: 'admin', siteIds: [] };
+
+const resolveAdminActor = async (apiKey: string): Promise<AdminActor | undefined> => {
+  if (env.ADMIN_API_KEY && secretsEqual(apiKey, env.ADMIN_API_KEY)) {
+    return ENV_ACTOR;
+  }
+
+  const key = await prisma.adminKey.findUnique({
+    where: { keyHash: hashApiKey(apiKey) },
+  });
+
+  if (!key || (key.revokedAt && key.revokedAt <= new Date()) || !isAdminRole(key.role)) {
+    return undefined;
+  }
+
+  await prisma.adminKey.update({
+    where: { id: key.id },
+    data: { lastUsedAt: new Date() },
+  });
+
+  return { id: key.id, name: key.name, role: key.role, siteIds: key.siteIds };
+};
+
+// Admin authentication middleware
+export const authenticateAdmin = async (request: FastifyRequest, reply: FastifyReply) => {
+  const apiKey = request.headers['x-admin-key'];
+
+  if (typeof apiKey !== 'string' || apiKey.length === 0) {
+    return reply.code(401).send({ error: 'Unauthorized' });
+  }
+
+  try {
+    const actor = await resolveAdminActor(apiKey);
+
+    if (!actor) {
+      return reply.code(401).send({ error: 'Unauthorized' });
+    }
+
+    request.adminActor = actor;
+  } catch (error) {
+    request.log.error({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 'Admin authentication failed');
+
+    return reply.code(500).send({ error: 'Internal server error' });
+  }
+};
+
+// Admin authorization hook: checks the caller's role and site scope for the
+// action of the matched route ("METHOD /url" in routes). Routes without an
+// entry are refused.
+export const authorizeAdmin = (routes: Record<string, AdminRouteAccess>) => {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const actor = request.adminActor;
+    if (!actor) {
+      return reply.code(401).send({ error: 'Unauthorized' });
+    }
+
+    const access = routes[`${request.method} ${request.routeOptions.url}`];
+    if (!access) {
+      return reply.code(403).send({ error: 'Forbidden' });
+    }
+
+    const siteIds = access.sites ? await access.sites(request) : undefined;
+    request.adminAction = { action: access.action, siteIds: siteIds ?? [] };
+
+    const denied = checkAdminAccess(actor, access.action, siteIds);
+    if (denied) {
+      return reply.code(403).send({ error: 'Forbidden', details: [denied] });
+    }
+  };
+};
+
+// Target sites taken from the route's :id param
+export const siteFromParams = (request: FastifyRequest): string[] => {
+  const { id } = request.params as { id?: unknown };
+  return typeof id === 'string' ? [id] : [];
+};
+
+// Target sites taken from a body field holding a site ID or a list of them
+export const sitesFromBody = (field: string) => (request: FastifyRequest): string[] => {
+  const value = (request.body as Record<string, unknown> | undefined)?.[field];
+  const values = Array.isArray(value) ? value : [value];
+  return values.filter((siteId): siteId is string => typeof siteId === 'string');
+};
+
+// Audit hook: records every admin action that changes something, including
+// denied attempts, once its response is sent. Credentials in the request are
+// redacted, as auditors read the log.
+export const auditAdminAction = async (request: FastifyRequest, reply: FastifyReply) => {
+  const actor = request.adminActor;
+  const performed = request.adminAction;
+
+  if (!actor || !performed || isReadOnlyAdminAction(performed.action)) {
+    return;
+  }
+
+  try {
+    await prisma.adminAuditLog.create({
+      data: {
+        actorId: actor.id,
+        actorName: actor.name,
+        role: actor.role,
+        action: performed.action,
+        siteIds: performed.siteIds,
+        params: {
+          params: redactSecrets(request.params ?? {}),
+          query: redactSecrets(request.query ?? {}),
+          body: redactSecrets(request.body ?? null),
+        },
+        statusCode: reply.statusCode,
+        requestId: request.id,
+      },
+    });
+  } catch (error) {
+    request.log.error({
+      actorId: actor.id,
+      action: performed.action,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 'Failed to write admin audit log');
+  }
+};
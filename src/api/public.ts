@@ -4,22 +4,46 @@ import { checkDatabaseHealth } from '../db.js';
 import { MQTTIngester } from '../ingest/mqtt.js';
 import { PullIngester } from '../ingest/pull.js';
 import { AggregationService } from '../aggregate/index.js';
+import { listMethodologies, EmissionsBreakdown, MethodologyParams } from '../aggregate/methodology.js';
+import { isGapFillStrategy } from '../aggregate/gapFill.js';
+import { combineDeviceRows, parseDeviceRoles } from '../aggregate/devices.js';
+import { CompletenessReport } from '../aggregate/completeness.js';
+import { isSignatureAlgorithm } from '../model/signature.js';
 import { 
   DailyDigest, 
   Site, 
   Proof, 
+  RangeProof,
+  EmissionFactor,
+  Device,
   PreviewToday,
   HealthResponse,
   DateRangeQuery,
   ProofQuery,
+  ProofQuerySchema,
+  RangeProofQuery,
+  RangeProofQuerySchema,
+  TelemetryHistory,
+  TelemetryHistoryQuery,
+  TelemetryHistoryQuerySchema,
+  TelemetryVersion,
   CreateSiteRequest,
   BackfillRequest,
   RecomputeRequest,
   AnchorRequest,
   PurgeRawRequest
 } from '../model/api.js';
-import { formatDate, parseDate, generateRequestId } from '../util/index.js';
-import { generateMerkleProof, verifyMerkleProof } from '../model/merkle.js';
+import {
+  formatDate,
+  parseDate,
+  generateRequestId,
+  getSiteDayBounds,
+  formatZonedDate,
+  formatZonedDateTime,
+  getDigestPeriod,
+} from '../util/index.js';
+import { verifyMerkleProof, isMerkleVersion, isTimestampKeyed, buildMerkleTree, encodeMerkleLeaf, MerkleVersion } from '../model/merkle.js';
+import { StoredTelemetry, StoredTelemetryRevision } from '../model/telemetry.js';
 
 export const registerPublicRoutes = async (fastify: FastifyInstance) => {
   // Health check
@@ -29,6 +53,7 @@ export const registerPublicRoutes = async (fastify: FastifyInstance) => {
     try {
       const dbHealthy = await checkDatabaseHealth();
       const mqttHealthy = fastify.mqttIngester?.isHealthy() ?? false;
+      const mqttStatus = fastify.mqttIngester?.getStatus();
       const adapterHealthy = await checkAdapterHealth();
       
       const response: HealthResponse = {
@@ -36,6 +61,7 @@ export const registerPublicRoutes = async (fastify: FastifyInstance) => {
         db: dbHealthy,
         mqtt: mqttHealthy,
         adapter: adapterHealthy,
+        ...(mqttStatus ? { mqttStatus } : {}),
       };
       
       const statusCode = response.ok ? 200 : 503;
@@ -72,6 +98,14 @@ export const registerPublicRoutes = async (fastify: FastifyInstance) => {
           name: true,
           country: true,
           timezone: true,
+          digestDayBoundary: true,
+          methodologyId: true,
+          intervalMinutes: true,
+          gapFillStrategy: true,
+          requireSignedTelemetry: true,
+          mqttTopic: true,
+          mqttEnabled: true,
+          sparkplug: true,
           createdAt: true,
           updatedAt: true,
         },
@@ -85,6 +119,14 @@ export const registerPublicRoutes = async (fastify: FastifyInstance) => {
         name: site.name,
         country: site.country,
         timezone: site.timezone,
+        digestDayBoundary: site.digestDayBoundary === 'local' ? 'local' : 'utc',
+        methodologyId: site.methodologyId,
+        intervalMinutes: site.intervalMinutes,
+        gapFillStrategy: isGapFillStrategy(site.gapFillStrategy) ? site.gapFillStrategy : 'none',
+        requireSignedTelemetry: site.requireSignedTelemetry,
+        mqttTopic: site.mqttTopic ?? undefined,
+        mqttEnabled: site.mqttEnabled,
+        sparkplug: site.sparkplug ?? undefined,
         createdAt: site.createdAt.toISOString(),
         updatedAt: site.updatedAt.toISOString(),
       }));
@@ -105,6 +147,192 @@ export const registerPublicRoutes = async (fastify: FastifyInstance) => {
     }
   });
 
+  // List available avoided-emissions methodologies
+  fastify.get('/v1/methodologies', async (request: FastifyRequest, reply: FastifyReply) => {
+    const response = listMethodologies().map(methodology => ({
+      id: methodology.id,
+      description: methodology.description,
+    }));
+    
+    request.log.info({
+      requestId: generateRequestId(),
+      count: response.length,
+    }, 'Methodologies retrieved');
+    
+    return reply.send(response);
+  });
+
+  // Get emission factor history for a site
+  fastify.get('/v1/sites/:id/emission-factors', async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    const { id: siteId } = request.params;
+    
+    try {
+      const factors = await prisma.emissionFactor.findMany({
+        where: { siteId },
+        orderBy: { version: 'asc' },
+      });
+      
+      const response: EmissionFactor[] = factors.map(factor => ({
+        id: factor.id,
+        siteId: factor.siteId,
+        version: factor.version,
+        effectiveFrom: factor.effectiveFrom.toISOString(),
+        effectiveTo: factor.effectiveTo ? factor.effectiveTo.toISOString() : undefined,
+        kgPerKWh: factor.kgPerKWh,
+        hourlyKgPerKWh: factor.hourlyKgPerKWh.length > 0 ? factor.hourlyKgPerKWh : undefined,
+        source: factor.source,
+        createdAt: factor.createdAt.toISOString(),
+      }));
+      
+      request.log.info({
+        requestId,
+        siteId,
+        count: response.length,
+      }, 'Emission factors retrieved');
+      
+      return reply.send(response);
+    } catch (error) {
+      request.log.error({
+        requestId,
+        siteId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to retrieve emission factors');
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get the device registry of a site
+  fastify.get('/v1/sites/:id/devices', async (
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    const { id: siteId } = request.params;
+    
+    try {
+      const devices = await prisma.device.findMany({
+        where: { siteId },
+        orderBy: { deviceId: 'asc' },
+      });
+      
+      const response: Device[] = devices.map(device => ({
+        siteId: device.siteId,
+        deviceId: device.deviceId,
+        kind: device.kind,
+        revenueMeter: device.revenueMeter,
+        name: device.name || undefined,
+        publicKey: device.publicKey || undefined,
+        keyAlgorithm: isSignatureAlgorithm(device.keyAlgorithm) ? device.keyAlgorithm : undefined,
+        online: device.online ?? undefined,
+        onlineChangedAt: device.onlineChangedAt?.toISOString(),
+        createdAt: device.createdAt.toISOString(),
+      }));
+      
+      request.log.info({
+        requestId,
+        siteId,
+        count: response.length,
+      }, 'Devices retrieved');
+      
+      return reply.send(response);
+    } catch (error) {
+      request.log.error({
+        requestId,
+        siteId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to retrieve devices');
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get every stored version of a telemetry row
+  fastify.get('/v1/sites/:id/telemetry/:ts/history', async (
+    request: FastifyRequest<{
+      Params: { id: string; ts: string };
+      Querystring: TelemetryHistoryQuery;
+    }>,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    const { id: siteId, ts } = request.params;
+    const tsUtc = new Date(ts);
+    
+    if (isNaN(tsUtc.getTime())) {
+      return reply.code(400).send({ error: 'Invalid ts' });
+    }
+    
+    const parsed = TelemetryHistoryQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid query',
+        details: parsed.error.errors.map(err => err.message),
+      });
+    }
+    
+    const { deviceId } = parsed.data;
+    
+    try {
+      const [rows, revisions] = await Promise.all([
+        prisma.rawTelemetry.findMany({
+          where: { siteId, tsUtc, ...(deviceId ? { deviceId } : {}) },
+        }),
+        prisma.telemetryRevision.findMany({
+          where: { siteId, tsUtc, ...(deviceId ? { deviceId } : {}) },
+          orderBy: { revision: 'asc' },
+        }),
+      ]);
+      
+      const deviceIds = [...new Set([...rows, ...revisions].map(r => r.deviceId as string))];
+      if (deviceIds.length === 0) {
+        return reply.code(404).send({ error: 'Telemetry record not found' });
+      }
+      
+      if (deviceIds.length > 1) {
+        return reply.code(400).send({
+          error: 'deviceId is required, several devices reported at ts',
+          details: deviceIds,
+        });
+      }
+      
+      const current = rows[0];
+      const response: TelemetryHistory = {
+        siteId,
+        deviceId: deviceIds[0] as string,
+        tsUtc: tsUtc.toISOString(),
+        current: current !== undefined,
+        versions: [
+          ...revisions.map(revision => toTelemetryVersion(revision)),
+          ...(current ? [toTelemetryVersion(current)] : []),
+        ],
+      };
+      
+      request.log.info({
+        requestId,
+        siteId,
+        deviceId: response.deviceId,
+        ts: response.tsUtc,
+        versions: response.versions.length,
+      }, 'Telemetry history retrieved');
+      
+      return reply.send(response);
+    } catch (error) {
+      request.log.error({
+        requestId,
+        siteId,
+        ts,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to retrieve telemetry history');
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
   // Get latest digest for a site
   fastify.get('/v1/sites/:id/digests/latest', async (
     request: FastifyRequest<{ Params: { id: string } }>,
@@ -123,22 +351,7 @@ export const registerPublicRoutes = async (fastify: FastifyInstance) => {
         return reply.code(404).send({ error: 'No digest found for site' });
       }
       
-      const response: DailyDigest = {
-        id: digest.id,
-        siteId: digest.siteId,
-        day: formatDate(digest.dayUtc),
-        energyKWh: digest.energyKWh,
-        avoidedTco2e: digest.avoidedTco2e,
-        rows: digest.rows,
-        merkleRoot: digest.merkleRoot,
-        csvUrl: digest.csvUrl || undefined,
-        jsonUrl: digest.jsonUrl || undefined,
-        anchored: digest.anchored,
-        adapterTxId: digest.adapterTxId || undefined,
-        txHash: digest.txHash || undefined,
-        createdAt: digest.createdAt.toISOString(),
-        updatedAt: digest.updatedAt.toISOString(),
-      };
+      const response: DailyDigest = toDailyDigest(digest);
       
       request.log.info({
         requestId,
@@ -188,22 +401,7 @@ export const registerPublicRoutes = async (fastify: FastifyInstance) => {
         orderBy: { dayUtc: 'desc' },
       });
       
-      const response: DailyDigest[] = digests.map(digest => ({
-        id: digest.id,
-        siteId: digest.siteId,
-        day: formatDate(digest.dayUtc),
-        energyKWh: digest.energyKWh,
-        avoidedTco2e: digest.avoidedTco2e,
-        rows: digest.rows,
-        merkleRoot: digest.merkleRoot,
-        csvUrl: digest.csvUrl || undefined,
-        jsonUrl: digest.jsonUrl || undefined,
-        anchored: digest.anchored,
-        adapterTxId: digest.adapterTxId || undefined,
-        txHash: digest.txHash || undefined,
-        createdAt: digest.createdAt.toISOString(),
-        updatedAt: digest.updatedAt.toISOString(),
-      }));
+      const response: DailyDigest[] = digests.map(toDailyDigest);
       
       request.log.info({
         requestId,
@@ -253,22 +451,7 @@ export const registerPublicRoutes = async (fastify: FastifyInstance) => {
         return reply.code(404).send({ error: 'Digest not found' });
       }
       
-      const response: DailyDigest = {
-        id: digest.id,
-        siteId: digest.siteId,
-        day: formatDate(digest.dayUtc),
-        energyKWh: digest.energyKWh,
-        avoidedTco2e: digest.avoidedTco2e,
-        rows: digest.rows,
-        merkleRoot: digest.merkleRoot,
-        csvUrl: digest.csvUrl || undefined,
-        jsonUrl: digest.jsonUrl || undefined,
-        anchored: digest.anchored,
-        adapterTxId: digest.adapterTxId || undefined,
-        txHash: digest.txHash || undefined,
-        createdAt: digest.createdAt.toISOString(),
-        updatedAt: digest.updatedAt.toISOString(),
-      };
+      const response: DailyDigest = toDailyDigest(digest);
       
       request.log.info({
         requestId,
@@ -276,6 +459,7 @@ export const registerPublicRoutes = async (fastify: FastifyInstance) => {
         day,
         energyKWh: response.energyKWh,
         avoidedTco2e: response.avoidedTco2e,
+        completenessScore: response.completenessScore,
       }, 'Digest retrieved');
       
       return reply.send(response);
@@ -301,7 +485,16 @@ export const registerPublicRoutes = async (fastify: FastifyInstance) => {
   ) => {
     const requestId = generateRequestId();
     const { id: siteId } = request.params;
-    const { day, ts } = request.query;
+    
+    const parsed = ProofQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid query',
+        details: parsed.error.errors.map(err => err.message),
+      });
+    }
+    
+    const { day, ts, deviceId } = parsed.data;
     
     try {
       const dayUtc = parseDate(day);
@@ -321,50 +514,198 @@ export const registerPublicRoutes = async (fastify: FastifyInstance) => {
         return reply.code(404).send({ error: 'Digest not found for the specified day' });
       }
       
-      // Get the specific telemetry record
-      const telemetry = await prisma.rawTelemetry.findUnique({
-        where: {
-          siteId_tsUtc: {
-            siteId,
-            tsUtc,
+      const period = getDigestPeriod(digest);
+      if (tsUtc < period.start || tsUtc >= period.end) {
+        return reply.code(400).send({
+          error: 'ts is outside the specified day',
+          details: {
+            utcStart: period.start.toISOString(),
+            utcEnd: period.end.toISOString(),
           },
-        },
-      });
+        });
+      }
       
-      if (!telemetry) {
-        return reply.code(404).send({ error: 'Telemetry record not found' });
+      // Leaves come from the persisted digest, not RawTelemetry
+      const leaves = await loadDigestLeaves(digest);
+      const version = isMerkleVersion(digest.merkleVersion) ? digest.merkleVersion : 'v1';
+      const tree = buildMerkleTree(
+        leaves.map(leaf => encodeDigestLeaf(version, leaf)),
+        version
+      );
+      
+      // Device rows reported at ts; deviceId picks one when there are several
+      const atTs = leaves.filter(leaf => leaf.tsUtc.getTime() === tsUtc.getTime());
+      if (!deviceId && atTs.length > 1) {
+        return reply.code(400).send({
+          error: 'deviceId is required, several devices reported at ts',
+          details: atTs.map(leaf => leaf.deviceId),
+        });
+      }
+      
+      const telemetry = deviceId ? atTs.find(leaf => leaf.deviceId === deviceId) : atTs[0];
+      let response: Proof;
+      
+      if (telemetry) {
+        const leafIndex = tree.indexOf(encodeDigestLeaf(version, telemetry));
+        
+        response = {
+          included: true,
+          version,
+          root: digest.merkleRoot,
+          leafCount: tree.getLeafCount(),
+          leafIndex,
+          tsUtc: telemetry.tsUtc.toISOString(),
+          deviceId: telemetry.deviceId,
+          leafHash: telemetry.rowHash,
+          ...(telemetry.signature ? { signature: telemetry.signature } : {}),
+          branch: tree.getProofByIndex(leafIndex),
+        };
+      } else if (atTs.length > 0) {
+        // Leaves are keyed on tsUtc, so absence of one device's row at a
+        // timestamp other devices reported cannot be proven
+        return reply.code(404).send({
+          error: 'Telemetry record not found',
+          details: `No row of device ${deviceId} at ts; other devices reported: ${atTs.map(leaf => leaf.deviceId).join(', ')}`,
+        });
+      } else if (isTimestampKeyed(version)) {
+        // v3/v4 leaves are sorted by tsUtc: reveal the leaves bracketing ts
+        const successor = leaves.findIndex(leaf => leaf.tsUtc > tsUtc);
+        const indices = successor === -1
+          ? [leaves.length - 1]
+          : successor === 0 ? [0] : [successor - 1, successor];
+        
+        response = {
+          included: false,
+          version,
+          root: digest.merkleRoot,
+          leafCount: tree.getLeafCount(),
+          tsUtc: tsUtc.toISOString(),
+          neighbours: indices.map(index => {
+            const leaf = leaves[index] as DigestLeafRow;
+            return {
+              index,
+              tsUtc: leaf.tsUtc.toISOString(),
+              rowHash: leaf.rowHash,
+              ...(version === 'v4' ? { deviceId: leaf.deviceId, signature: leaf.signature ?? '' } : {}),
+            };
+          }),
+          proof: tree.getMultiProof(indices),
+        };
+      } else {
+        return reply.code(404).send({
+          error: 'Telemetry record not found',
+          details: `Non-inclusion proofs require a v3 or later digest, this digest uses ${version}`,
+        });
       }
       
-      // Get all row hashes for the day to generate proof
-      const allTelemetry = await prisma.rawTelemetry.findMany({
+      request.log.info({
+        requestId,
+        siteId,
+        day,
+        ts,
+        deviceId: response.deviceId,
+        included: response.included,
+        root: digest.merkleRoot,
+        version,
+      }, 'Merkle proof generated');
+      
+      return reply.send(response);
+    } catch (error) {
+      request.log.error({
+        requestId,
+        siteId,
+        day,
+        ts,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, 'Failed to generate Merkle proof');
+      
+      return reply.code(500).send({ error: 'Internal server error' });
+    }
+  });
+
+  // Get Merkle multiproof for all records in a time window of one day
+  fastify.get('/v1/sites/:id/proof/range', async (
+    request: FastifyRequest<{ 
+      Params: { id: string };
+      Querystring: RangeProofQuery;
+    }>,
+    reply: FastifyReply
+  ) => {
+    const requestId = generateRequestId();
+    const { id: siteId } = request.params;
+    
+    const parsed = RangeProofQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({
+        error: 'Invalid query',
+        details: parsed.error.errors.map(err => err.message),
+      });
+    }
+    
+    const { day, from, to } = parsed.data;
+    
+    try {
+      const dayUtc = parseDate(day);
+      const fromUtc = new Date(from);
+      const toUtc = new Date(to);
+      
+      const digest = await prisma.dailyDigest.findUnique({
         where: {
-          siteId,
-          tsUtc: {
-            gte: dayUtc,
-            lt: new Date(dayUtc.getTime() + 24 * 60 * 60 * 1000),
+          siteId_dayUtc: {
+            siteId,
+            dayUtc,
           },
         },
-        orderBy: { tsUtc: 'asc' },
       });
       
-      const rowHashes = allTelemetry.map(t => t.rowHash);
-      const proof = generateMerkleProof(rowHashes, telemetry.rowHash);
+      if (!digest) {
+        return reply.code(404).send({ error: 'Digest not found for the specified day' });
+      }
       
-      const response: Proof = {
-        included: true,
-        leafHash: telemetry.rowHash,
-        branch: proof,
+      const allLeaves = await loadDigestLeaves(digest);
+      
+      const version = isMerkleVersion(digest.merkleVersion) ? digest.merkleVersion : 'v1';
+      const tree = buildMerkleTree(
+        allLeaves.map(t => encodeDigestLeaf(version, t)),
+        version
+      );
+      
+      const leaves = allLeaves
+        .filter(t => t.tsUtc >= fromUtc && t.tsUtc <= toUtc)
+        .map(t => ({
+          index: tree.indexOf(encodeDigestLeaf(version, t)),
+          tsUtc: t.tsUtc.toISOString(),
+          deviceId: t.deviceId,
+          leafHash: t.rowHash,
+          ...(t.signature ? { signature: t.signature } : {}),
+        }))
+        .sort((a, b) => a.index - b.index);
+      
+      if (leaves.length === 0) {
+        return reply.code(404).send({ error: 'No telemetry records found in range' });
+      }
+      
+      const response: RangeProof = {
+        version,
         root: digest.merkleRoot,
+        leafCount: tree.getLeafCount(),
+        from: fromUtc.toISOString(),
+        to: toUtc.toISOString(),
+        leaves,
+        proof: tree.getMultiProof(leaves.map(leaf => leaf.index)),
       };
       
       request.log.info({
         requestId,
         siteId,
         day,
-        ts,
-        leafHash: telemetry.rowHash,
+        from,
+        to,
+        leaves: leaves.length,
+        proofNodes: response.proof.length,
         root: digest.merkleRoot,
-      }, 'Merkle proof generated');
+        version,
+      }, 'Merkle range proof generated');
       
       return reply.send(response);
     } catch (error) {
@@ -372,9 +713,10 @@ export const registerPublicRoutes = async (fastify: FastifyInstance) => {
         requestId,
         siteId,
         day,
-        ts,
+        from,
+        to,
         error: error instanceof Error ? error.message : 'Unknown error',
-      }, 'Failed to generate Merkle proof');
+      }, 'Failed to generate Merkle range proof');
       
       return reply.code(500).send({ error: 'Internal server error' });
     }
@@ -389,36 +731,49 @@ export const registerPublicRoutes = async (fastify: FastifyInstance) => {
     const { id: siteId } = request.params;
     
     try {
-      const today = new Date();
-      const dayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+      // Get site baseline factor and day boundary
+      const site = await prisma.site.findUnique({
+        where: { id: siteId },
+      });
+      
+      if (!site) {
+        return reply.code(404).send({ error: 'Site not found' });
+      }
+      
+      // "Today" is the site's current digest day
+      const today = formatZonedDate(new Date(), site.digestDayBoundary === 'local' ? site.timezone : 'UTC');
+      const bounds = getSiteDayBounds(site, today);
       
       // Get today's telemetry records
       const telemetryRecords = await prisma.rawTelemetry.findMany({
         where: {
           siteId,
           tsUtc: {
-            gte: dayStart,
+            gte: bounds.start,
+            lt: bounds.end,
           },
         },
       });
       
+      // Combine device rows the way the daily digest will
+      const aggregationService = new AggregationService(request.log);
+      const intervals = combineDeviceRows(telemetryRecords, await aggregationService.getDeviceRoles(siteId));
+      
       // Calculate today's energy
-      const energyValues = telemetryRecords
+      const energyValues = intervals
         .map(r => r.acEnergyKWh)
         .filter((v): v is number => v !== null && v !== undefined);
       
       const totalEnergyKWh = energyValues.reduce((sum, val) => sum + val, 0);
       
-      // Get site baseline factor
-      const site = await prisma.site.findUnique({
-        where: { id: siteId },
-      });
-      
-      if (!site) {
-        return reply.code(404).send({ error: 'Site not found' });
-      }
-      
-      const avoidedTco2e = (totalEnergyKWh * site.baselineKgPerKWh) / 1000;
+      // Same methodology and emission factors the daily digest will use
+      const { result: emissions } = await aggregationService.calculateEmissions(
+        site,
+        intervals,
+        bounds.start,
+        bounds.end
+      );
+      const avoidedTco2e = emissions.avoidedTco2e;
       
       // Get last anchored digest
       const lastAnchored = await prisma.dailyDigest.findFirst({
@@ -458,6 +813,161 @@ export const registerPublicRoutes = async (fastify: FastifyInstance) => {
   });
 };
 
+// Map a RawTelemetry row (current version) or TelemetryRevision row to its
+// API representation
+function toTelemetryVersion(row: StoredTelemetry | StoredTelemetryRevision): TelemetryVersion {
+  const superseded = 'supersededAt' in row ? row : undefined;
+  
+  return {
+    revision: row.revision,
+    acEnergyKWh: row.acEnergyKWh ?? undefined,
+    acPowerKw: row.acPowerKw ?? undefined,
+    poaIrrWm2: row.poaIrrWm2 ?? undefined,
+    tempC: row.tempC ?? undefined,
+    windMps: row.windMps ?? undefined,
+    acEnergyRegisterKWh: row.acEnergyRegisterKWh ?? undefined,
+    meterSerial: row.meterSerial ?? undefined,
+    registerEvent: row.registerEvent ?? undefined,
+    status: row.status ?? undefined,
+    source: row.source,
+    uniqKey: row.uniqKey ?? undefined,
+    credentialId: row.credentialId ?? undefined,
+    rowHash: row.rowHash,
+    hashVersion: row.hashVersion,
+    recordedAt: ('supersededAt' in row ? row.recordedAt : row.revisedAt ?? row.createdAt).toISOString(),
+    supersededAt: superseded?.supersededAt.toISOString(),
+    changeSource: superseded?.changeSource,
+    reason: superseded?.reason,
+  };
+}
+
+// A DailyDigest row. The JSON columns hold what aggregateDaily wrote; they
+// are null on digests built before the column was added.
+interface DailyDigestRow {
+  id: string;
+  siteId: string;
+  dayUtc: Date;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  dayBoundary: string;
+  timezone: string;
+  energyKWh: number;
+  estimatedEnergyKWh: number;
+  estimatedRows: number;
+  estimatedRoot: string | null;
+  gapFillStrategy: string;
+  avoidedTco2e: number;
+  emissionFactors: unknown;
+  methodologyId: string;
+  methodologyParams: unknown;
+  emissionsBreakdown: unknown;
+  completenessScore: number | null;
+  completeness: unknown;
+  devices: unknown;
+  rows: number;
+  merkleRoot: string;
+  merkleVersion: string;
+  csvUrl: string | null;
+  jsonUrl: string | null;
+  anchored: boolean;
+  adapterTxId: string | null;
+  txHash: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Map a stored digest row to its API representation
+function toDailyDigest(digest: DailyDigestRow): DailyDigest {
+  const period = getDigestPeriod(digest);
+  
+  return {
+    id: digest.id,
+    siteId: digest.siteId,
+    day: formatDate(digest.dayUtc),
+    energyKWh: digest.energyKWh,
+    estimatedEnergyKWh: digest.estimatedEnergyKWh,
+    estimatedRows: digest.estimatedRows,
+    estimatedRoot: digest.estimatedRoot || undefined,
+    gapFillStrategy: isGapFillStrategy(digest.gapFillStrategy) ? digest.gapFillStrategy : 'none',
+    avoidedTco2e: digest.avoidedTco2e,
+    emissionFactors: Array.isArray(digest.emissionFactors) ? digest.emissionFactors : [],
+    methodologyId: digest.methodologyId,
+    methodologyParams: (digest.methodologyParams ?? {}) as MethodologyParams,
+    emissionsBreakdown: (digest.emissionsBreakdown ?? undefined) as EmissionsBreakdown | undefined,
+    rows: digest.rows,
+    completenessScore: digest.completenessScore ?? undefined,
+    completeness: (digest.completeness ?? undefined) as CompletenessReport | undefined,
+    devices: parseDeviceRoles(digest.devices),
+    merkleRoot: digest.merkleRoot,
+    merkleVersion: isMerkleVersion(digest.merkleVersion) ? digest.merkleVersion : 'v1',
+    dayBoundary: digest.dayBoundary === 'local' ? 'local' : 'utc',
+    timezone: period.timezone,
+    period: {
+      localStart: formatZonedDateTime(period.start, period.timezone),
+      localEnd: formatZonedDateTime(period.end, period.timezone),
+      utcStart: period.start.toISOString(),
+      utcEnd: period.end.toISOString(),
+    },
+    csvUrl: digest.csvUrl || undefined,
+    jsonUrl: digest.jsonUrl || undefined,
+    anchored: digest.anchored,
+    adapterTxId: digest.adapterTxId || undefined,
+    txHash: digest.txHash || undefined,
+    createdAt: digest.createdAt.toISOString(),
+    updatedAt: digest.updatedAt.toISOString(),
+  };
+}
+
+interface DigestLeafRow {
+  tsUtc: Date;
+  deviceId: string;
+  rowHash: string;
+  signature: string | null;
+}
+
+// Merkle leaf payload of a persisted leaf
+function encodeDigestLeaf(version: MerkleVersion, leaf: DigestLeafRow): string {
+  return encodeMerkleLeaf(version, leaf.rowHash, leaf.tsUtc.toISOString(), leaf);
+}
+
+// Load a digest's leaves in tree order. Digests built before leaves were
+// persisted fall back to the day's RawTelemetry rows.
+async function loadDigestLeaves(digest: {
+  id: string;
+  siteId: string;
+  dayUtc: Date;
+  periodStart?: Date | null;
+  periodEnd?: Date | null;
+  timezone?: string | null;
+}): Promise<DigestLeafRow[]> {
+  const leaves = await prisma.digestLeaf.findMany({
+    where: { digestId: digest.id },
+    orderBy: { position: 'asc' },
+    select: { tsUtc: true, deviceId: true, rowHash: true, signature: true },
+  });
+  
+  if (leaves.length > 0) {
+    return leaves;
+  }
+  
+  const period = getDigestPeriod(digest);
+  
+  return prisma.rawTelemetry.findMany({
+    where: {
+      siteId: digest.siteId,
+      tsUtc: {
+        gte: period.start,
+        lt: period.end,
+      },
+    },
+    orderBy: [
+      { tsUtc: 'asc' },
+      { deviceId: 'asc' },
+    ],
+    select: { tsUtc: true, deviceId: true, rowHash: true, signature: true },
+  });
+}
+
 // Helper function to check adapter health
 async function checkAdapterHealth(): Promise<boolean> {
   try {
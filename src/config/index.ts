@@ -13,9 +13,33 @@ const envSchema = z.object({
   
   // MQTT
   MQTT_URL: z.string().min(1, 'MQTT_URL is required'),
+  MQTT_TOPIC_TEMPLATE: z.string().default('iot/{siteId}/telemetry'), // for sites without their own
+  MQTT_SITE_REFRESH_SECONDS: z.string().transform(Number).default('60'),
+  MQTT_CLIENT_ID: z.string().min(1).default('iot-oracle'), // stable, identifies the persistent session
+  MQTT_QOS: z.enum(['1', '2']).transform(qos => Number(qos) as 1 | 2).default('1'),
+  MQTT_RECONNECT_MIN_MS: z.string().transform(Number).default('1000'),
+  MQTT_RECONNECT_MAX_MS: z.string().transform(Number).default('60000'),
   
   // Optional pull source
   SIM_BASE_URL: z.string().url().optional(),
+  PULL_DROP_DIR: z.string().min(1).optional(), // base directory of local-drop pull sources
+  
+  // Incremental pull of sites with a pull source, from their watermarks
+  PULL_INTERVAL_MINUTES: z.string().transform(Number).default('15'),
+  PULL_OVERLAP_MINUTES: z.string().transform(Number).default('60'), // re-read for late records
+  PULL_INITIAL_LOOKBACK_HOURS: z.string().transform(Number).default('24'),
+  PULL_MAX_WINDOW_HOURS: z.string().transform(Number).default('24'),
+  PULL_MAX_CATCHUP_HOURS: z.string().transform(Number).default('168'),
+  
+  // Modbus TCP polling of sites with a modbus configuration
+  MODBUS_ENABLED: z.string().transform(val => val === 'true').default('false'),
+  MODBUS_SITE_REFRESH_SECONDS: z.string().transform(Number).default('60'),
+  MODBUS_TIMEOUT_MS: z.string().transform(Number).default('5000'),
+  
+  // Ingestion
+  IDEMPOTENCY_KEY_TTL_HOURS: z.string().transform(Number).default('24'),
+  IDEMPOTENCY_CLAIM_LEASE_SECONDS: z.string().transform(Number).default('300'), // unfinished claims are taken over after this
+  UPLOAD_MAX_MB: z.string().transform(Number).default('1024'), // bulk CSV/Parquet uploads
   
   // Anchoring
   ANCHOR_ENABLED: z.string().transform(val => val === 'true').default('false'),
@@ -62,8 +86,9 @@ export interface SiteConfig {
   country: string;
   timezone: string;
   baselineKgPerKWh: number;
+  digestDayBoundary?: 'utc' | 'local';
   mqttTopic?: string;
-  pullEnabled?: boolean;
+  pullEnabled?: boolean; // seeded with the sim pull connector
 }
 
 // Default site configurations
@@ -74,6 +99,7 @@ export const defaultSites: SiteConfig[] = [
     country: 'India',
     timezone: 'Asia/Kolkata',
     baselineKgPerKWh: 0.708,
+    digestDayBoundary: 'local',
     mqttTopic: 'iot/PRJ001/telemetry',
     pullEnabled: true,
   },
@@ -83,6 +109,7 @@ export const defaultSites: SiteConfig[] = [
     country: 'Germany',
     timezone: 'Europe/Berlin',
     baselineKgPerKWh: 0.485,
+    digestDayBoundary: 'local',
     mqttTopic: 'iot/PRJ002/telemetry',
     pullEnabled: false,
   },
@@ -96,6 +123,7 @@ export const validateSiteConfig = (config: unknown): SiteConfig => {
     country: z.string().min(1),
     timezone: z.string().min(1),
     baselineKgPerKWh: z.number().positive(),
+    digestDayBoundary: z.enum(['utc', 'local']).optional(),
     mqttTopic: z.string().optional(),
     pullEnabled: z.boolean().optional(),
   });
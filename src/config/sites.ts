@@ -8,6 +8,7 @@ export const siteConfigs: Record<string, SiteConfig> = {
     country: 'India',
     timezone: 'Asia/Kolkata',
     baselineKgPerKWh: 0.708,
+    digestDayBoundary: 'local',
     mqttTopic: 'iot/PRJ001/telemetry',
     pullEnabled: true,
   }),
@@ -18,6 +19,7 @@ export const siteConfigs: Record<string, SiteConfig> = {
     country: 'Germany',
     timezone: 'Europe/Berlin',
     baselineKgPerKWh: 0.485,
+    digestDayBoundary: 'local',
     mqttTopic: 'iot/PRJ002/telemetry',
     pullEnabled: false,
   }),
@@ -8,7 +8,10 @@ import { metricsMiddleware, initializeMetrics } from './util/metrics.js';
 import { registerPublicRoutes } from './api/public.js';
 import { registerAdminRoutes } from './api/admin.js';
 import { ingestTelemetry } from './ingest/http.js';
+import { uploadTelemetry, getUploadRejections } from './ingest/upload.js';
+import { authenticateIngest } from './ingest/auth.js';
 import { MQTTIngester } from './ingest/mqtt.js';
+import { ModbusPoller } from './ingest/modbus.js';
 import { createWorkers, scheduleRecurringJobs, shutdownQueues } from './util/scheduler.js';
 import { prisma, disconnectDatabase } from './db.js';
 
@@ -16,6 +19,7 @@ import { prisma, disconnectDatabase } from './db.js';
 declare module 'fastify' {
   interface FastifyInstance {
     mqttIngester: MQTTIngester;
+    modbusPoller: ModbusPoller | undefined;
   }
 }
 
@@ -59,13 +63,24 @@ const createServer = async () => {
   await fastify.register(registerPublicRoutes);
   await fastify.register(registerAdminRoutes);
 
-  // Register ingestion endpoint
-  fastify.post('/v1/ingest', ingestTelemetry);
+  // Register ingestion endpoint; callers authenticate with a site-scoped
+  // API key or JWT
+  fastify.post('/v1/ingest', { preHandler: authenticateIngest }, ingestTelemetry);
+
+  // Bulk CSV/Parquet uploads. Multipart bodies are left unread here; the
+  // upload handler streams them.
+  fastify.addContentTypeParser('multipart/form-data', (_request, _payload, done) => done(null));
+  fastify.post('/v1/ingest/uploads', { preHandler: authenticateIngest }, uploadTelemetry);
+  fastify.get('/v1/ingest/uploads/:id/rejections', { preHandler: authenticateIngest }, getUploadRejections);
 
   // Initialize MQTT ingester
   const mqttIngester = new MQTTIngester(logger.child({ component: 'mqtt' }));
   fastify.decorate('mqttIngester', mqttIngester);
 
+  // Initialize Modbus poller
+  const modbusPoller = env.MODBUS_ENABLED ? new ModbusPoller(logger.child({ component: 'modbus' })) : undefined;
+  fastify.decorate('modbusPoller', modbusPoller);
+
   // Initialize job workers
   const workers = createWorkers();
 
@@ -77,8 +92,9 @@ const createServer = async () => {
       // Stop accepting new requests
       await fastify.close();
       
-      // Disconnect MQTT
+      // Disconnect MQTT and stop polling
       await mqttIngester.disconnect();
+      modbusPoller?.stop();
       
       // Shutdown job queues
       await shutdownQueues();
@@ -109,6 +125,9 @@ const start = async () => {
     // Start MQTT ingester
     await server.mqttIngester.connect();
     
+    // Start Modbus polling
+    await server.modbusPoller?.start();
+    
     // Schedule recurring jobs
     scheduleRecurringJobs();
     
@@ -0,0 +1,63 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../db.js';
+import { env } from '../config/index.js';
+import { IngestScope, isJwt, verifyIngestToken, hashApiKey } from '../model/credentials.js';
+import { createError } from '../util/index.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    ingestScope?: IngestScope;
+  }
+}
+
+// Resolve a bearer token to the caller's scope. Tokens of three dot-separated
+// parts are JWTs; anything else is looked up as an API key.
+const resolveIngestScope = async (token: string): Promise<IngestScope> => {
+  if (isJwt(token)) {
+    if (!env.JWT_SECRET) {
+      throw createError('JWT ingest tokens are not enabled', 'INVALID_TOKEN', 401);
+    }
+
+    const claims = verifyIngestToken(token, env.JWT_SECRET);
+    return { credentialId: `jwt:${claims.sub}`, siteIds: claims.sites };
+  }
+
+  const credential = await prisma.ingestCredential.findUnique({
+    where: { keyHash: hashApiKey(token) },
+  });
+
+  if (!credential || credential.revokedAt) {
+    throw createError('Unknown or revoked API key', 'INVALID_API_KEY', 401);
+  }
+
+  await prisma.ingestCredential.update({
+    where: { id: credential.id },
+    data: { lastUsedAt: new Date() },
+  });
+
+  return { credentialId: credential.id, siteIds: credential.siteIds };
+};
+
+// Ingest authentication: requires `Authorization: Bearer <API key or JWT>`
+export const authenticateIngest = async (request: FastifyRequest, reply: FastifyReply) => {
+  const header = request.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+
+  if (!token) {
+    return reply.code(401).send({ error: 'Unauthorized' });
+  }
+
+  try {
+    request.ingestScope = await resolveIngestScope(token);
+  } catch (error) {
+    request.log.info({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 'Ingest authentication failed');
+
+    if (error instanceof Error && 'statusCode' in error) {
+      return reply.code(401).send({ error: 'Unauthorized' });
+    }
+
+    return reply.code(500).send({ error: 'Internal server error' });
+  }
+};
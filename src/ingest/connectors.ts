@@ -0,0 +1,414 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { env } from '../config/index.js';
+import { FieldMapping, FieldMappingSchema, PullRecord, getPath } from './pullMapping.js';
+import { parseCsv } from './csv.js';
+import { parseListObjects, s3ObjectUrl, signS3Request } from './s3.js';
+import { openSftpSession } from './sftp.js';
+import { retryWithBackoff } from '../util/index.js';
+
+// Pull-source connectors. A site's pullSource names a connector type and
+// holds its configuration plus the field mapping of its records (see
+// src/ingest/pullMapping.ts); PullIngester fetches the records of a window
+// through the connector and feeds them through the ingest pipeline.
+//
+// Secrets (tokens, passwords, keys) are given as "env:NAME" and read from
+// the environment when pulling; inline values are rejected so secrets are
+// never stored with the site, returned by the API or audited.
+
+export interface PullWindow {
+  from: Date;
+  to: Date;
+}
+
+export interface PullSourceConfig {
+  type: string;
+  fields: FieldMapping;
+}
+
+export interface PullConnector<C extends PullSourceConfig = PullSourceConfig> {
+  type: string;
+  description: string;
+  // Validates a site's pullSource and fills in defaults; throws on invalid input
+  parseConfig(config: unknown): C;
+  // Pages of source records that may fall in the window; records outside it
+  // are dropped after mapping
+  fetch(siteId: string, config: C, window: PullWindow): AsyncIterable<PullRecord[]>;
+}
+
+const SecretSchema = z.string().regex(/^env:[A-Za-z_][A-Za-z0-9_]*$/, 'Secrets must be given as env:NAME');
+
+const resolveSecret = (value: string): string => {
+  if (!value.startsWith('env:')) return value;
+
+  const resolved = process.env[value.slice('env:'.length)];
+  if (resolved === undefined) {
+    throw new Error(`Environment variable ${value.slice('env:'.length)} is not set`);
+  }
+  return resolved;
+};
+
+const fetchOk = async (url: string | URL, init: RequestInit = {}): Promise<Response> => {
+  return retryWithBackoff(async () => {
+    const res = await fetch(url, init);
+    if (!res.ok) {
+      throw new Error(`${new URL(url).host} returned ${res.status}: ${res.statusText}`);
+    }
+    return res;
+  });
+};
+
+const FileFormatSchema = z.enum(['csv', 'json']).default('csv');
+
+// Records of a file: CSV rows, or a JSON array (optionally under itemsPath)
+const parseFile = (text: string, format: 'csv' | 'json', delimiter: string, itemsPath?: string): PullRecord[] => {
+  if (format === 'csv') {
+    return parseCsv(text, delimiter);
+  }
+
+  const items = itemsPath ? getPath(JSON.parse(text), itemsPath) : JSON.parse(text);
+  if (!Array.isArray(items)) {
+    throw new Error(`File holds no array${itemsPath ? ` at ${itemsPath}` : ''}`);
+  }
+  return items;
+};
+
+// Recently modified files: those changed since the window opened can hold
+// its records
+const isModifiedInWindow = (modified: Date, window: PullWindow): boolean => {
+  return modified >= window.from;
+};
+
+// iot-solar-sim (SIM_BASE_URL), records in the telemetry field names
+const SimConfigSchema = z.object({
+  type: z.literal('sim'),
+  fields: FieldMappingSchema.default({
+    tsUtc: 'timestamp',
+    deviceId: 'deviceId',
+    poaIrrWm2: 'poaIrrWm2',
+    tempC: 'tempC',
+    windMps: 'windMps',
+    acPowerKw: 'acPowerKw',
+    acEnergyKWh: 'acEnergyKWh',
+    acEnergyRegisterKWh: 'acEnergyRegisterKWh',
+    meterSerial: 'meterSerial',
+    status: 'status',
+    signature: 'signature',
+  }),
+});
+
+const simConnector: PullConnector<z.infer<typeof SimConfigSchema>> = {
+  type: 'sim',
+  description: 'iot-solar-sim telemetry API at SIM_BASE_URL',
+  parseConfig: config => SimConfigSchema.parse(config),
+  async *fetch(siteId, _config, window) {
+    if (!env.SIM_BASE_URL) {
+      throw new Error('SIM_BASE_URL not configured');
+    }
+
+    const params = new URLSearchParams({
+      from: window.from.toISOString(),
+      to: window.to.toISOString(),
+    });
+
+    const response = await fetchOk(`${env.SIM_BASE_URL}/api/sites/${siteId}/telemetry?${params}`);
+    const data = await response.json();
+
+    if (!Array.isArray(data)) {
+      throw new Error('Sim API returned invalid data format');
+    }
+
+    yield data;
+  },
+};
+
+// Vendor REST APIs. The URL may use {siteId}, {from} and {to} (ISO
+// timestamps); records are the array at itemsPath of each response.
+const RestConfigSchema = z.object({
+  type: z.literal('rest'),
+  url: z.string().url(),
+  auth: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('bearer'), token: SecretSchema }),
+    z.object({ type: z.literal('basic'), username: z.string().min(1), password: SecretSchema }),
+    z.object({ type: z.literal('header'), name: z.string().min(1), value: SecretSchema }),
+    z.object({ type: z.literal('query'), name: z.string().min(1), value: SecretSchema }),
+  ]).optional(),
+  itemsPath: z.string().min(1).optional(), // the response itself when absent
+  pagination: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('none') }),
+    // page numbers, until a page has no records
+    z.object({ type: z.literal('page'), param: z.string().min(1).default('page'), start: z.number().int().default(1) }),
+    // offsets, until a page has fewer than limit records
+    z.object({
+      type: z.literal('offset'),
+      param: z.string().min(1).default('offset'),
+      limitParam: z.string().min(1).default('limit'),
+      limit: z.number().int().positive().default(500),
+    }),
+    // a cursor from each response, until there is none
+    z.object({ type: z.literal('cursor'), param: z.string().min(1).default('cursor'), cursorPath: z.string().min(1) }),
+    // the URL of the next page from each response, until there is none;
+    // it must be on the origin of url
+    z.object({ type: z.literal('next-url'), nextPath: z.string().min(1) }),
+  ]).default({ type: 'none' }),
+  maxPages: z.number().int().positive().default(1000),
+  fields: FieldMappingSchema,
+});
+
+const restConnector: PullConnector<z.infer<typeof RestConfigSchema>> = {
+  type: 'rest',
+  description: 'Vendor REST API with bearer, basic, header or query auth and paging',
+  parseConfig: config => RestConfigSchema.parse(config),
+  async *fetch(siteId, config, window) {
+    const url = new URL(config.url
+      .replaceAll('{siteId}', encodeURIComponent(siteId))
+      .replaceAll('{from}', encodeURIComponent(window.from.toISOString()))
+      .replaceAll('{to}', encodeURIComponent(window.to.toISOString())));
+
+    const headers: Record<string, string> = { accept: 'application/json' };
+    const auth = config.auth;
+
+    if (auth?.type === 'bearer') {
+      headers.authorization = `Bearer ${resolveSecret(auth.token)}`;
+    } else if (auth?.type === 'basic') {
+      headers.authorization = `Basic ${Buffer.from(`${auth.username}:${resolveSecret(auth.password)}`).toString('base64')}`;
+    } else if (auth?.type === 'header') {
+      headers[auth.name.toLowerCase()] = resolveSecret(auth.value);
+    } else if (auth?.type === 'query') {
+      url.searchParams.set(auth.name, resolveSecret(auth.value));
+    }
+
+    const paging = config.pagination;
+    let next: URL | undefined = url;
+
+    if (paging.type === 'page') {
+      url.searchParams.set(paging.param, String(paging.start));
+    } else if (paging.type === 'offset') {
+      url.searchParams.set(paging.param, '0');
+      url.searchParams.set(paging.limitParam, String(paging.limit));
+    }
+
+    for (let page = 0; next && page < config.maxPages; page++) {
+      const body: unknown = await (await fetchOk(next, { headers })).json();
+      const items = config.itemsPath ? getPath(body, config.itemsPath) : body;
+
+      if (!Array.isArray(items)) {
+        throw new Error(`Response holds no array${config.itemsPath ? ` at ${config.itemsPath}` : ''}`);
+      }
+
+      if (items.length > 0) {
+        yield items;
+      }
+
+      const current: URL = next;
+      next = undefined;
+
+      if (paging.type === 'page' && items.length > 0) {
+        next = new URL(current);
+        next.searchParams.set(paging.param, String(Number(current.searchParams.get(paging.param)) + 1));
+      } else if (paging.type === 'offset' && items.length >= paging.limit) {
+        next = new URL(current);
+        next.searchParams.set(paging.param, String(Number(current.searchParams.get(paging.param)) + items.length));
+      } else if (paging.type === 'cursor') {
+        const cursor = getPath(body, paging.cursorPath);
+        if (typeof cursor === 'string' && cursor !== '' || typeof cursor === 'number') {
+          next = new URL(current);
+          next.searchParams.set(paging.param, String(cursor));
+        }
+      } else if (paging.type === 'next-url') {
+        const nextUrl = getPath(body, paging.nextPath);
+        if (typeof nextUrl === 'string' && nextUrl !== '') {
+          next = new URL(nextUrl, current);
+          // Credentials go to the configured API only, not wherever a
+          // response points
+          if (next.origin !== url.origin) {
+            throw new Error(`Next page ${next.origin} is not on ${url.origin}; pagination cannot leave the configured API`);
+          }
+          // query auth is not assumed to be carried by the server's link
+          if (auth?.type === 'query') next.searchParams.set(auth.name, resolveSecret(auth.value));
+        }
+      }
+    }
+  },
+};
+
+// S3-compatible buckets holding CSV or JSON files under a prefix
+const S3ConfigSchema = z.object({
+  type: z.literal('s3'),
+  endpoint: z.string().url(), // e.g. https://s3.eu-central-1.amazonaws.com or a MinIO URL
+  region: z.string().min(1).default('us-east-1'),
+  bucket: z.string().min(1),
+  prefix: z.string().default(''), // may use {siteId}
+  pathStyle: z.boolean().default(true),
+  accessKeyId: z.string().min(1), // or env:NAME
+  secretAccessKey: SecretSchema,
+  format: FileFormatSchema,
+  delimiter: z.string().length(1).default(','),
+  itemsPath: z.string().min(1).optional(),
+  fields: FieldMappingSchema,
+});
+
+const s3Connector: PullConnector<z.infer<typeof S3ConfigSchema>> = {
+  type: 's3',
+  description: 'CSV or JSON files in an S3-compatible bucket',
+  parseConfig: config => S3ConfigSchema.parse(config),
+  async *fetch(siteId, config, window) {
+    const credentials = {
+      accessKeyId: resolveSecret(config.accessKeyId),
+      secretAccessKey: resolveSecret(config.secretAccessKey),
+    };
+    const prefix = config.prefix.replaceAll('{siteId}', siteId);
+    const get = async (url: URL) => fetchOk(url, { headers: signS3Request(url, config.region, credentials) });
+
+    let continuationToken: string | undefined;
+
+    do {
+      const listUrl = s3ObjectUrl(config.endpoint, config.bucket, '', config.pathStyle);
+      listUrl.searchParams.set('list-type', '2');
+      listUrl.searchParams.set('prefix', prefix);
+      if (continuationToken) listUrl.searchParams.set('continuation-token', continuationToken);
+
+      const list = parseListObjects(await (await get(listUrl)).text());
+      continuationToken = list.nextContinuationToken;
+
+      for (const object of list.objects) {
+        if (object.key.endsWith('/') || !isModifiedInWindow(object.lastModified, window)) continue;
+
+        const text = await (await get(s3ObjectUrl(config.endpoint, config.bucket, object.key, config.pathStyle))).text();
+        yield parseFile(text, config.format, config.delimiter, config.itemsPath);
+      }
+    } while (continuationToken);
+  },
+};
+
+// Files dropped into a directory under PULL_DROP_DIR, e.g. where an SFTP
+// server mounted into the service stores vendor uploads. directory is
+// relative to PULL_DROP_DIR and cannot leave it.
+const LocalDropConfigSchema = z.object({
+  type: z.literal('local-drop'),
+  directory: z.string().min(1).default('{siteId}').refine(
+    directory => !path.isAbsolute(directory) && !directory.split(/[\\/]/).includes('..'),
+    'directory must be relative to PULL_DROP_DIR without .. segments'
+  ), // may use {siteId}
+  extension: z.string().min(1).optional(), // e.g. ".csv"; all files when absent
+  format: FileFormatSchema,
+  delimiter: z.string().length(1).default(','),
+  itemsPath: z.string().min(1).optional(),
+  fields: FieldMappingSchema,
+});
+
+// Directory of a site's drop, checked to lie within the base directory once
+// {siteId} is filled in and symbolic links are followed
+export const resolveDropDirectory = async (base: string, directory: string, siteId: string): Promise<string> => {
+  const root = await fs.realpath(base);
+  const resolved = await fs.realpath(path.resolve(root, directory.replaceAll('{siteId}', siteId)));
+  const relative = path.relative(root, resolved);
+
+  if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`Drop directory ${directory} is outside PULL_DROP_DIR`);
+  }
+  return resolved;
+};
+
+const localDropConnector: PullConnector<z.infer<typeof LocalDropConfigSchema>> = {
+  type: 'local-drop',
+  description: 'CSV or JSON files dropped into a directory under PULL_DROP_DIR',
+  parseConfig: config => LocalDropConfigSchema.parse(config),
+  async *fetch(siteId, config, window) {
+    if (!env.PULL_DROP_DIR) {
+      throw new Error('PULL_DROP_DIR not configured');
+    }
+
+    const directory = await resolveDropDirectory(env.PULL_DROP_DIR, config.directory, siteId);
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    const names = entries
+      .filter(entry => entry.isFile() && (!config.extension || entry.name.endsWith(config.extension)))
+      .map(entry => entry.name)
+      .sort();
+
+    for (const name of names) {
+      const file = path.join(directory, name);
+      const stats = await fs.stat(file);
+      if (!isModifiedInWindow(stats.mtime, window)) continue;
+
+      yield parseFile(await fs.readFile(file, 'utf8'), config.format, config.delimiter, config.itemsPath);
+    }
+  },
+};
+
+// Files in a directory on an SFTP server, read over ssh (the OpenSSH client
+// must be installed) with key authentication. Only the server holding
+// hostKey is accepted; there is no trust on first use.
+const SftpConfigSchema = z.object({
+  type: z.literal('sftp'),
+  host: z.string().regex(/^[A-Za-z0-9][A-Za-z0-9.:-]*$/, 'host must be a host name or IP address'),
+  port: z.number().int().min(1).max(65535).default(22),
+  username: z.string().min(1),
+  privateKey: SecretSchema, // OpenSSH private key, unencrypted
+  hostKey: z.string().regex(/^[A-Za-z0-9@.-]+ [A-Za-z0-9+/]+=*$/, 'hostKey must be the server\'s public key, e.g. "ssh-ed25519 AAAA..."'),
+  directory: z.string().min(1).default('{siteId}'), // relative to the login directory; may use {siteId}
+  extension: z.string().min(1).optional(), // e.g. ".csv"; all files when absent
+  format: FileFormatSchema,
+  delimiter: z.string().length(1).default(','),
+  itemsPath: z.string().min(1).optional(),
+  fields: FieldMappingSchema,
+});
+
+const sftpConnector: PullConnector<z.infer<typeof SftpConfigSchema>> = {
+  type: 'sftp',
+  description: 'CSV or JSON files in a directory on an SFTP server',
+  parseConfig: config => SftpConfigSchema.parse(config),
+  async *fetch(siteId, config, window) {
+    const session = await openSftpSession({
+      host: config.host,
+      port: config.port,
+      username: config.username,
+      privateKey: resolveSecret(config.privateKey),
+      hostKey: config.hostKey,
+    });
+
+    try {
+      const directory = config.directory.replaceAll('{siteId}', siteId);
+      const files = (await session.list(directory))
+        .filter(entry => entry.isFile && (!config.extension || entry.name.endsWith(config.extension)))
+        .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+      for (const file of files) {
+        // Servers may leave out modification times; such files are always read
+        if (file.modified && !isModifiedInWindow(file.modified, window)) continue;
+
+        const data = await session.readFile(path.posix.join(directory, file.name));
+        yield parseFile(data.toString('utf8'), config.format, config.delimiter, config.itemsPath);
+      }
+    } finally {
+      await session.close();
+    }
+  },
+};
+
+// Connectors by type. A connector's fetch is only given configs from its own
+// parseConfig, so each is kept under the base config type.
+const connectors = new Map<string, PullConnector<PullSourceConfig>>();
+
+export const registerPullConnector = <C extends PullSourceConfig>(connector: PullConnector<C>): void => {
+  connectors.set(connector.type, connector);
+};
+
+export const getPullConnector = (type: string): PullConnector => {
+  const connector = connectors.get(type);
+  if (!connector) {
+    throw new Error(`Unknown pull connector: ${type}`);
+  }
+  return connector;
+};
+
+export const listPullConnectors = (): PullConnector[] => {
+  return Array.from(connectors.values());
+};
+
+registerPullConnector(simConnector);
+registerPullConnector(restConnector);
+registerPullConnector(s3Connector);
+registerPullConnector(localDropConnector);
+registerPullConnector(sftpConnector);
@@ -0,0 +1,101 @@
+import { createError } from '../util/index.js';
+
+// CSV parsing (RFC 4180: quoted fields, doubled quotes, CRLF or LF line
+// ends). The parser is incremental: text can be pushed in chunks of any
+// size, rows are returned as soon as they are complete.
+export class CsvParser {
+  private field = '';
+  private row: string[] = [];
+  private quoted = false; // inside a quoted field
+  private quoteSeen = false; // a quote inside a quoted field: its end or the first of a doubled quote
+  private started = false; // the current row has content
+
+  constructor(private readonly delimiter = ',') {
+    if (delimiter.length !== 1 || delimiter === '"' || delimiter === '\n' || delimiter === '\r') {
+      throw createError('CSV delimiter must be a single character other than a quote or line end', 'INVALID_CSV', 400);
+    }
+  }
+
+  private endField(): void {
+    this.row.push(this.field);
+    this.field = '';
+  }
+
+  private endRow(rows: string[][]): void {
+    this.endField();
+    rows.push(this.row);
+    this.row = [];
+    this.started = false;
+  }
+
+  push(text: string): string[][] {
+    const rows: string[][] = [];
+
+    for (const char of text) {
+      if (this.quoteSeen) {
+        this.quoteSeen = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.quoted = false;
+      }
+
+      if (this.quoted) {
+        if (char === '"') this.quoteSeen = true;
+        else this.field += char;
+        continue;
+      }
+
+      if (char === '"' && this.field === '') {
+        this.quoted = true;
+        this.started = true;
+      } else if (char === this.delimiter) {
+        this.endField();
+        this.started = true;
+      } else if (char === '\n') {
+        // blank lines are skipped
+        if (this.started) this.endRow(rows);
+      } else if (char !== '\r') {
+        this.field += char;
+        this.started = true;
+      }
+    }
+
+    return rows;
+  }
+
+  // Rows left once all text is pushed
+  end(): string[][] {
+    if (this.quoted && !this.quoteSeen) {
+      throw createError('Unterminated quoted CSV field', 'INVALID_CSV', 400);
+    }
+
+    this.quoteSeen = false;
+    this.quoted = false;
+
+    const rows: string[][] = [];
+    if (this.started) this.endRow(rows);
+    return rows;
+  }
+}
+
+// Records of a CSV document keyed by its header row
+export const parseCsv = (text: string, delimiter = ','): Record<string, string>[] => {
+  const parser = new CsvParser(delimiter);
+  const [header, ...rows] = [...parser.push(text), ...parser.end()];
+
+  return header ? rows.map(row => csvRecord(header, row)) : [];
+};
+
+// One CSV line; cells with delimiters, quotes or line ends are quoted
+export const formatCsvRow = (cells: string[], delimiter = ','): string => {
+  return cells.map(cell => {
+    return cell.includes(delimiter) || /["\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  }).join(delimiter) + '\r\n';
+};
+
+// Record of one row; missing trailing cells are empty
+export const csvRecord = (header: string[], row: string[]): Record<string, string> => {
+  return Object.fromEntries(header.map((name, i) => [name.trim(), row[i] ?? '']));
+};
@@ -1,107 +1,101 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { prisma } from '../db.js';
-import { 
-  validateTelemetryArray, 
-  clampValues, 
-  normalizeTelemetry,
-  RawTelemetryInput 
-} from '../model/telemetry.js';
+import { RawTelemetryInput } from '../model/telemetry.js';
+import { ingestBatch } from './pipeline.js';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+} from './idempotency.js';
 import { generateRequestId, createError } from '../util/index.js';
 
 export interface IngestRequest {
   telemetry: RawTelemetryInput[];
 }
 
+const IDEMPOTENCY_ENDPOINT = 'POST /v1/ingest';
+
 export const ingestTelemetry = async (
   request: FastifyRequest<{ Body: IngestRequest }>,
   reply: FastifyReply
 ) => {
   const requestId = generateRequestId();
+  const scope = request.ingestScope;
+  let claimId: string | undefined;
   
   try {
+    if (!scope) {
+      throw createError('Ingest credentials are required', 'UNAUTHORIZED', 401);
+    }
+    
+    const idempotencyKey = request.headers['idempotency-key'];
+    
+    if (idempotencyKey !== undefined) {
+      if (typeof idempotencyKey !== 'string' || idempotencyKey.length === 0 || idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+        throw createError(`Idempotency-Key must be a single value of 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`, 'INVALID_IDEMPOTENCY_KEY', 400);
+      }
+      
+      // Keys are per credential; callers cannot replay each other's responses
+      const claim = await claimIdempotencyKey(IDEMPOTENCY_ENDPOINT, `${scope.credentialId}:${idempotencyKey}`, request.body);
+      
+      if (claim.state === 'replay') {
+        request.log.info({ requestId, idempotencyKey }, 'Replaying stored ingestion response');
+        return reply.header('Idempotent-Replayed', 'true').code(claim.statusCode).send(claim.response);
+      }
+      
+      if (claim.state === 'mismatch') {
+        throw createError('Idempotency-Key was already used with a different request body', 'IDEMPOTENCY_KEY_MISMATCH', 422);
+      }
+      
+      if (claim.state === 'in-progress') {
+        throw createError('A request with this Idempotency-Key is still being processed', 'IDEMPOTENCY_KEY_IN_USE', 409);
+      }
+      
+      claimId = claim.id;
+    }
+    
     const { telemetry } = request.body;
     
     if (!Array.isArray(telemetry) || telemetry.length === 0) {
       throw createError('Telemetry array is required and must not be empty', 'INVALID_INPUT', 400);
     }
     
-    // Validate and clamp values
-    const validatedTelemetry = validateTelemetryArray(telemetry);
-    const clampedTelemetry = validatedTelemetry.map(clampValues);
+    // Items are validated and rejected individually (including rows of sites
+    // outside the credential's scope); accepted rows are written in one
+    // transaction
+    const results = await ingestBatch(telemetry, scope);
     
-    // Process each telemetry record
-    const results = [];
-    const errors = [];
-    
-    for (const input of clampedTelemetry) {
-      try {
-        const normalized = normalizeTelemetry(input);
-        
-        // Upsert raw telemetry (idempotent by siteId + tsUtc)
-        const rawTelemetry = await prisma.rawTelemetry.upsert({
-          where: {
-            siteId_tsUtc: {
-              siteId: normalized.siteId,
-              tsUtc: normalized.tsUtc,
-            },
-          },
-          update: {
-            poaIrrWm2: normalized.poaIrrWm2,
-            tempC: normalized.tempC,
-            windMps: normalized.windMps,
-            acPowerKw: normalized.acPowerKw,
-            acEnergyKWh: normalized.acEnergyKWh,
-            status: normalized.status,
-            rowHash: normalized.rowHash,
-            source: normalized.source,
-            uniqKey: normalized.uniqKey,
-          },
-          create: {
-            siteId: normalized.siteId,
-            tsUtc: normalized.tsUtc,
-            poaIrrWm2: normalized.poaIrrWm2,
-            tempC: normalized.tempC,
-            windMps: normalized.windMps,
-            acPowerKw: normalized.acPowerKw,
-            acEnergyKWh: normalized.acEnergyKWh,
-            status: normalized.status,
-            rowHash: normalized.rowHash,
-            source: normalized.source,
-            uniqKey: normalized.uniqKey,
-          },
-        });
-        
-        results.push({
-          id: rawTelemetry.id,
-          siteId: rawTelemetry.siteId,
-          tsUtc: rawTelemetry.tsUtc.toISOString(),
-          rowHash: rawTelemetry.rowHash,
-        });
-        
-      } catch (error) {
-        errors.push({
-          input,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
-    }
+    const summary = {
+      created: results.filter(r => r.status === 'created').length,
+      unchanged: results.filter(r => r.status === 'unchanged').length,
+      duplicate: results.filter(r => r.status === 'duplicate').length,
+      revised: results.filter(r => r.status === 'revised').length,
+      rejected: results.filter(r => r.status === 'rejected').length,
+    };
     
     // Log ingestion results
     request.log.info({
       requestId,
+      credentialId: scope.credentialId,
       totalRecords: telemetry.length,
-      successful: results.length,
-      errors: errors.length,
+      ...summary,
     }, 'Telemetry ingestion completed');
     
-    return reply.code(200).send({
-      success: true,
+    const allRejected = summary.rejected === results.length;
+    const statusCode = allRejected ? 400 : 200;
+    const body = {
+      success: !allRejected,
       requestId,
-      processed: results.length,
-      errors: errors.length,
+      processed: results.length - summary.rejected,
+      ...summary,
       results,
-      errors: errors.length > 0 ? errors : undefined,
-    });
+    };
+    
+    if (claimId) {
+      await completeIdempotencyKey(claimId, statusCode, body);
+    }
+    
+    return reply.code(statusCode).send(body);
     
   } catch (error) {
     request.log.error({
@@ -109,12 +103,22 @@ export const ingestTelemetry = async (
       error: error instanceof Error ? error.message : 'Unknown error',
     }, 'Telemetry ingestion failed');
     
-    if (error instanceof Error && 'statusCode' in error) {
-      return reply.code((error as any).statusCode).send({
+    // Failed requests do not consume the key, so the client can retry
+    if (claimId) {
+      await releaseIdempotencyKey(claimId).catch(releaseError => {
+        request.log.error({
+          requestId,
+          error: releaseError instanceof Error ? releaseError.message : 'Unknown error',
+        }, 'Failed to release idempotency key');
+      });
+    }
+    
+    if (error instanceof Error && 'statusCode' in error && typeof error.statusCode === 'number') {
+      return reply.code(error.statusCode).send({
         success: false,
         requestId,
         error: error.message,
-        code: (error as any).code,
+        code: 'code' in error ? error.code : undefined,
       });
     }
     
@@ -0,0 +1,101 @@
+import { createHash } from 'crypto';
+import { prisma } from '../db.js';
+import { env } from '../config/index.js';
+
+// Idempotency-Key support: the first request with a key claims it, its
+// response is stored and replayed for later requests with the same key and
+// body until the key expires (IDEMPOTENCY_KEY_TTL_HOURS). A claim is a lease:
+// when its request has not completed within IDEMPOTENCY_CLAIM_LEASE_SECONDS
+// (the process died before completing or releasing it) a retry takes it over.
+
+export type IdempotencyClaim =
+  | { state: 'claimed'; id: string }
+  | { state: 'replay'; statusCode: number; response: unknown }
+  | { state: 'mismatch' }     // key already used with a different body
+  | { state: 'in-progress' }; // first request has not finished yet
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+// Whether a stored key is an unfinished claim whose lease has run out
+export const isStaleClaim = (
+  stored: { statusCode: number | null; claimedAt: Date },
+  now: Date,
+  leaseMs: number
+): boolean => {
+  return stored.statusCode === null && now.getTime() - stored.claimedAt.getTime() >= leaseMs;
+};
+
+const hashRequestBody = (body: unknown): string => {
+  return createHash('sha256').update(JSON.stringify(body ?? null)).digest('hex');
+};
+
+const isUniqueViolation = (error: unknown): boolean => {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 'P2002';
+};
+
+export const claimIdempotencyKey = async (
+  endpoint: string,
+  key: string,
+  body: unknown
+): Promise<IdempotencyClaim> => {
+  const requestHash = hashRequestBody(body);
+
+  // Drop expired responses; their keys can be reused
+  await prisma.idempotencyKey.deleteMany({
+    where: {
+      createdAt: { lt: new Date(Date.now() - env.IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000) },
+    },
+  });
+
+  try {
+    const claimed = await prisma.idempotencyKey.create({
+      data: { endpoint, key, requestHash },
+    });
+    return { state: 'claimed', id: claimed.id };
+  } catch (error) {
+    if (!isUniqueViolation(error)) {
+      throw error;
+    }
+  }
+
+  const existing = await prisma.idempotencyKey.findUnique({
+    where: {
+      endpoint_key: { endpoint, key },
+    },
+  });
+
+  if (existing && existing.requestHash !== requestHash) {
+    return { state: 'mismatch' };
+  }
+
+  if (existing && isStaleClaim(existing, new Date(), env.IDEMPOTENCY_CLAIM_LEASE_SECONDS * 1000)) {
+    // Renew the lease unless another retry took it over first
+    const takenOver = await prisma.idempotencyKey.updateMany({
+      where: { id: existing.id, statusCode: null, claimedAt: existing.claimedAt },
+      data: { claimedAt: new Date() },
+    });
+    if (takenOver.count === 1) {
+      return { state: 'claimed', id: existing.id };
+    }
+  }
+
+  if (!existing || existing.statusCode === null) {
+    return { state: 'in-progress' };
+  }
+
+  return { state: 'replay', statusCode: existing.statusCode, response: existing.response };
+};
+
+export const completeIdempotencyKey = async (id: string, statusCode: number, response: unknown): Promise<void> => {
+  await prisma.idempotencyKey.update({
+    where: { id },
+    data: { statusCode, response },
+  });
+};
+
+// Release a claim whose request failed, so the client can retry with the key
+export const releaseIdempotencyKey = async (id: string): Promise<void> => {
+  await prisma.idempotencyKey.deleteMany({
+    where: { id },
+  });
+};
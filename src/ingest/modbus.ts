@@ -0,0 +1,265 @@
+import net from 'net';
+import { prisma } from '../db.js';
+import { env } from '../config/index.js';
+import { RawTelemetryInput } from '../model/telemetry.js';
+import { ingestRecord } from './pipeline.js';
+import {
+  ModbusDevice,
+  ModbusSiteConfig,
+  ModbusSiteConfigSchema,
+  RegisterBlock,
+  RegisterRead,
+  encodeReadRequest,
+  mapModbusReadings,
+  parseReadResponse,
+  planReads,
+  pollTimestamp,
+  responseFrameLength,
+} from './modbusRegisters.js';
+import { createError, generateRequestId } from '../util/index.js';
+
+// Modbus TCP connection to one device. Requests are sent one at a time.
+class ModbusTcpClient {
+  private socket: net.Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private transactionId = 0;
+  private pending: { resolve: (frame: Buffer) => void; reject: (error: Error) => void } | null = null;
+
+  constructor(private host: string, private port: number, private timeoutMs: number) {}
+
+  connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect({ host: this.host, port: this.port });
+      socket.setTimeout(this.timeoutMs);
+
+      socket.once('connect', () => {
+        this.socket = socket;
+        resolve();
+      });
+
+      socket.on('data', (chunk) => {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        const length = responseFrameLength(this.buffer);
+
+        if (length !== undefined && this.buffer.length >= length) {
+          const frame = this.buffer.subarray(0, length);
+          this.buffer = this.buffer.subarray(length);
+          this.settle(pending => pending.resolve(frame));
+        }
+      });
+
+      socket.on('timeout', () => {
+        const error = createError(`Modbus device ${this.host}:${this.port} timed out`, 'MODBUS_TIMEOUT', 504);
+        socket.destroy(error);
+      });
+
+      socket.on('error', (error) => {
+        reject(error);
+        this.settle(pending => pending.reject(error));
+      });
+
+      socket.on('close', () => {
+        this.socket = null;
+        this.settle(pending => pending.reject(createError('Modbus connection closed', 'MODBUS_CONNECTION_CLOSED', 502)));
+      });
+    });
+  }
+
+  private settle(action: (pending: NonNullable<ModbusTcpClient['pending']>) => void): void {
+    const pending = this.pending;
+    this.pending = null;
+    if (pending) action(pending);
+  }
+
+  async readRegisters(unitId: number, read: RegisterRead): Promise<Buffer> {
+    if (!this.socket) {
+      throw createError('Modbus connection is not open', 'MODBUS_CONNECTION_CLOSED', 502);
+    }
+
+    const transactionId = this.transactionId = (this.transactionId + 1) & 0xffff;
+    const frame = await new Promise<Buffer>((resolve, reject) => {
+      this.pending = { resolve, reject };
+      this.socket!.write(encodeReadRequest(transactionId, unitId, read));
+    });
+
+    return parseReadResponse(frame, transactionId, unitId, read);
+  }
+
+  close(): void {
+    this.socket?.destroy();
+    this.socket = null;
+  }
+}
+
+// Modbus TCP poller. Every site with a modbus configuration is polled every
+// pollSeconds: each device's registers are read over one connection and
+// become one row with source "modbus", fed through the ingest pipeline.
+// Sites are re-read from the registry every MODBUS_SITE_REFRESH_SECONDS and
+// when a site is changed through the admin API.
+export class ModbusPoller {
+  private sites = new Map<string, { config: string; timer: NodeJS.Timeout }>(); // polled sites by id
+  private polling = new Set<string>(); // sites with a poll in progress
+  private syncing: Promise<void> = Promise.resolve();
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  constructor(private logger: any) {}
+
+  async start(): Promise<void> {
+    await this.syncSites();
+
+    this.refreshTimer = setInterval(() => {
+      this.syncSites().catch(error => {
+        this.logger.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'Failed to refresh Modbus sites');
+      });
+    }, env.MODBUS_SITE_REFRESH_SECONDS * 1000);
+  }
+
+  // Start polling sites that gained a modbus configuration, restart those
+  // whose configuration changed and stop the others; calls are serialized
+  syncSites(): Promise<string[]> {
+    const run = this.syncing.then(() => this.applySites());
+    this.syncing = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  private async applySites(): Promise<string[]> {
+    const sites = await prisma.site.findMany({
+      select: { id: true, modbus: true },
+      orderBy: { id: 'asc' },
+    });
+
+    const desired = new Map<string, ModbusSiteConfig>();
+
+    for (const site of sites) {
+      if (site.modbus === null) continue;
+
+      const parsed = ModbusSiteConfigSchema.safeParse(site.modbus);
+      if (!parsed.success) {
+        this.logger.warn({ siteId: site.id, errors: parsed.error.errors.map(err => err.message) }, 'Site has an invalid Modbus configuration');
+        continue;
+      }
+
+      desired.set(site.id, parsed.data);
+    }
+
+    for (const [siteId, polled] of this.sites) {
+      const config = desired.get(siteId);
+      if (!config || JSON.stringify(config) !== polled.config) {
+        clearInterval(polled.timer);
+        this.sites.delete(siteId);
+        this.logger.info({ siteId }, 'Stopped Modbus polling');
+      }
+    }
+
+    for (const [siteId, config] of desired) {
+      if (this.sites.has(siteId)) continue;
+
+      const timer = setInterval(() => {
+        this.pollSite(siteId, config).catch(error => {
+          this.logger.error({ siteId, error: error instanceof Error ? error.message : 'Unknown error' }, 'Modbus poll failed');
+        });
+      }, config.pollSeconds * 1000);
+
+      this.sites.set(siteId, { config: JSON.stringify(config), timer });
+      this.logger.info({ siteId, pollSeconds: config.pollSeconds, devices: config.devices.length }, 'Started Modbus polling');
+    }
+
+    return [...this.sites.keys()];
+  }
+
+  // Read every device of a site; a device that cannot be read is logged
+  // and left out
+  async readSite(siteId: string, config: ModbusSiteConfig, now = new Date()): Promise<RawTelemetryInput[]> {
+    const tsUtc = pollTimestamp(now, config.pollSeconds);
+    const rows: RawTelemetryInput[] = [];
+
+    for (const device of config.devices) {
+      try {
+        rows.push(mapModbusReadings(siteId, device, await this.readDevice(device), tsUtc));
+      } catch (error) {
+        this.logger.error({
+          siteId,
+          deviceId: device.deviceId,
+          host: device.host,
+          port: device.port,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }, 'Failed to read Modbus device');
+      }
+    }
+
+    return rows;
+  }
+
+  private async readDevice(device: ModbusDevice): Promise<RegisterBlock[]> {
+    const client = new ModbusTcpClient(device.host, device.port, env.MODBUS_TIMEOUT_MS);
+    await client.connect();
+
+    try {
+      const blocks: RegisterBlock[] = [];
+      for (const read of planReads(device.registers)) {
+        blocks.push({ read, data: await client.readRegisters(device.unitId, read) });
+      }
+      return blocks;
+    } finally {
+      client.close();
+    }
+  }
+
+  // Poll a site once and ingest its rows. A poll still running when the
+  // next one is due is not overlapped.
+  async pollSite(siteId: string, config: ModbusSiteConfig): Promise<number> {
+    if (this.polling.has(siteId)) {
+      this.logger.warn({ siteId }, 'Previous Modbus poll still running, skipping');
+      return 0;
+    }
+
+    const requestId = generateRequestId();
+    this.polling.add(siteId);
+
+    try {
+      const rows = await this.readSite(siteId, config);
+      let processedCount = 0;
+
+      for (const row of rows) {
+        try {
+          const result = await ingestRecord(row);
+          processedCount++;
+
+          this.logger.info({
+            requestId,
+            siteId,
+            deviceId: result.deviceId,
+            tsUtc: result.tsUtc,
+            rowHash: result.rowHash,
+            status: result.status,
+          }, 'Modbus telemetry processed successfully');
+        } catch (error) {
+          this.logger.error({
+            requestId,
+            siteId,
+            deviceId: row.deviceId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          }, 'Failed to process Modbus reading');
+        }
+      }
+
+      return processedCount;
+    } finally {
+      this.polling.delete(siteId);
+    }
+  }
+
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    for (const { timer } of this.sites.values()) {
+      clearInterval(timer);
+    }
+
+    this.sites.clear();
+    this.logger.info('Stopped Modbus poller');
+  }
+}
@@ -0,0 +1,248 @@
+import { z } from 'zod';
+import { RawTelemetryInput } from '../model/telemetry.js';
+import { createError } from '../util/index.js';
+
+// Modbus TCP register maps. A site's modbus configuration lists the devices
+// to poll and, per device, which registers hold which telemetry fields:
+//
+//   { "pollSeconds": 60,
+//     "devices": [{ "deviceId": "INV-01", "host": "10.0.0.21", "unitId": 1,
+//       "registers": [
+//         { "field": "acPowerKw", "address": 40083, "type": "int32", "scale": 0.001 },
+//         { "field": "acEnergyRegisterKWh", "address": 40093, "type": "uint32", "wordOrder": "little" }
+//       ] }] }
+//
+// Addresses are protocol addresses (0-65535), not 4xxxx register numbers.
+// Values are read big-endian, as Modbus sends them; byteOrder swaps the bytes
+// of each register and wordOrder the registers of multi-register values.
+
+// Telemetry fields a register can be mapped to
+export const MODBUS_FIELDS = [
+  'poaIrrWm2',
+  'tempC',
+  'windMps',
+  'acPowerKw',
+  'acEnergyKWh',
+  'acEnergyRegisterKWh',
+] as const;
+
+export type ModbusField = typeof MODBUS_FIELDS[number];
+
+export const REGISTER_TYPES = ['int16', 'uint16', 'int32', 'uint32', 'float32', 'int64', 'uint64', 'float64'] as const;
+
+export type RegisterType = typeof REGISTER_TYPES[number];
+
+const REGISTER_WORDS: Record<RegisterType, number> = {
+  int16: 1,
+  uint16: 1,
+  int32: 2,
+  uint32: 2,
+  float32: 2,
+  int64: 4,
+  uint64: 4,
+  float64: 4,
+};
+
+// Most registers one read may request (Modbus application protocol, 6.3)
+export const MAX_READ_REGISTERS = 125;
+
+const READ_FUNCTION_CODES = { holding: 0x03, input: 0x04 } as const;
+
+const EXCEPTION_NAMES: Record<number, string> = {
+  1: 'illegal function',
+  2: 'illegal data address',
+  3: 'illegal data value',
+  4: 'server device failure',
+  6: 'server device busy',
+  10: 'gateway path unavailable',
+  11: 'gateway target device failed to respond',
+};
+
+export const ModbusRegisterSchema = z.object({
+  field: z.enum(MODBUS_FIELDS),
+  address: z.number().int().min(0).max(65535),
+  table: z.enum(['holding', 'input']).default('holding'),
+  type: z.enum(REGISTER_TYPES).default('uint16'),
+  scale: z.number().finite().positive().default(1),
+  byteOrder: z.enum(['big', 'little']).default('big'),
+  wordOrder: z.enum(['big', 'little']).default('big'),
+}).refine(register => register.address + REGISTER_WORDS[register.type] <= 65536, {
+  message: 'Register runs past address 65535',
+});
+
+export const ModbusDeviceSchema = z.object({
+  deviceId: z.string().min(1).optional(), // site-level rows when absent
+  host: z.string().min(1),
+  port: z.number().int().min(1).max(65535).default(502),
+  unitId: z.number().int().min(0).max(255).default(1),
+  registers: z.array(ModbusRegisterSchema).min(1),
+});
+
+export const ModbusSiteConfigSchema = z.object({
+  pollSeconds: z.number().int().min(5).default(60),
+  devices: z.array(ModbusDeviceSchema).min(1),
+}).refine(config => new Set(config.devices.map(device => device.deviceId)).size === config.devices.length, {
+  message: 'Modbus devices must have distinct deviceIds',
+});
+
+export type ModbusRegister = z.infer<typeof ModbusRegisterSchema>;
+export type ModbusDevice = z.infer<typeof ModbusDeviceSchema>;
+export type ModbusSiteConfig = z.infer<typeof ModbusSiteConfigSchema>;
+
+// One read request: count registers from address of a table
+export interface RegisterRead {
+  table: ModbusRegister['table'];
+  address: number;
+  count: number;
+}
+
+// Registers read, keyed by the request that returned them
+export interface RegisterBlock {
+  read: RegisterRead;
+  data: Buffer; // 2 bytes per register, as received
+}
+
+// Reads covering a device's registers. Contiguous and overlapping registers
+// of the same table share a read; gaps are not read, as devices commonly
+// answer unmapped addresses with an exception.
+export const planReads = (registers: ModbusRegister[]): RegisterRead[] => {
+  const sorted = [...registers].sort((a, b) => a.table.localeCompare(b.table) || a.address - b.address);
+  const reads: RegisterRead[] = [];
+
+  for (const register of sorted) {
+    const end = register.address + REGISTER_WORDS[register.type];
+    const last = reads[reads.length - 1];
+
+    if (last && last.table === register.table && register.address <= last.address + last.count
+      && Math.max(end, last.address + last.count) - last.address <= MAX_READ_REGISTERS) {
+      last.count = Math.max(end, last.address + last.count) - last.address;
+    } else {
+      reads.push({ table: register.table, address: register.address, count: end - register.address });
+    }
+  }
+
+  return reads;
+};
+
+// Modbus TCP request (MBAP header and PDU) reading one block
+export const encodeReadRequest = (transactionId: number, unitId: number, read: RegisterRead): Buffer => {
+  const frame = Buffer.alloc(12);
+  frame.writeUInt16BE(transactionId & 0xffff, 0);
+  frame.writeUInt16BE(0, 2); // protocol: Modbus
+  frame.writeUInt16BE(6, 4); // unit id and PDU
+  frame.writeUInt8(unitId, 6);
+  frame.writeUInt8(READ_FUNCTION_CODES[read.table], 7);
+  frame.writeUInt16BE(read.address, 8);
+  frame.writeUInt16BE(read.count, 10);
+  return frame;
+};
+
+// Length of the frame at the start of buffer, once its header has arrived
+export const responseFrameLength = (buffer: Buffer): number | undefined => {
+  return buffer.length < 6 ? undefined : 6 + buffer.readUInt16BE(4);
+};
+
+// Register data of a response to encodeReadRequest
+export const parseReadResponse = (frame: Buffer, transactionId: number, unitId: number, read: RegisterRead): Buffer => {
+  if (frame.length < 9 || frame.readUInt16BE(2) !== 0 || responseFrameLength(frame) !== frame.length) {
+    throw createError('Malformed Modbus response', 'MODBUS_PROTOCOL_ERROR', 502);
+  }
+
+  if (frame.readUInt16BE(0) !== (transactionId & 0xffff) || frame.readUInt8(6) !== unitId) {
+    throw createError('Modbus response does not match its request', 'MODBUS_PROTOCOL_ERROR', 502);
+  }
+
+  const functionCode = frame.readUInt8(7);
+
+  if (functionCode === (READ_FUNCTION_CODES[read.table] | 0x80)) {
+    const code = frame.readUInt8(8);
+    throw createError(`Modbus exception ${code} (${EXCEPTION_NAMES[code] ?? 'unknown'})`, 'MODBUS_EXCEPTION', 502);
+  }
+
+  const byteCount = frame.readUInt8(8);
+
+  if (functionCode !== READ_FUNCTION_CODES[read.table] || byteCount !== read.count * 2 || frame.length !== 9 + byteCount) {
+    throw createError('Unexpected Modbus response', 'MODBUS_PROTOCOL_ERROR', 502);
+  }
+
+  return frame.subarray(9);
+};
+
+// Value of a register from the raw bytes of its registers, scaled
+export const decodeRegisterValue = (register: ModbusRegister, raw: Buffer): number => {
+  const words = REGISTER_WORDS[register.type];
+  const bytes = Buffer.from(raw.subarray(0, words * 2));
+
+  if (bytes.length !== words * 2) {
+    throw createError(`Register ${register.address} was not read`, 'MODBUS_PROTOCOL_ERROR', 502);
+  }
+
+  if (register.byteOrder === 'little') {
+    bytes.swap16();
+  }
+
+  if (register.wordOrder === 'little' && words > 1) {
+    const reversed = Buffer.alloc(bytes.length);
+    for (let word = 0; word < words; word++) {
+      bytes.copy(reversed, (words - 1 - word) * 2, word * 2, word * 2 + 2);
+    }
+    reversed.copy(bytes);
+  }
+
+  const value = ((): number => {
+    switch (register.type) {
+      case 'int16': return bytes.readInt16BE(0);
+      case 'uint16': return bytes.readUInt16BE(0);
+      case 'int32': return bytes.readInt32BE(0);
+      case 'uint32': return bytes.readUInt32BE(0);
+      case 'float32': return bytes.readFloatBE(0);
+      case 'int64': return Number(bytes.readBigInt64BE(0));
+      case 'uint64': return Number(bytes.readBigUInt64BE(0));
+      case 'float64': return bytes.readDoubleBE(0);
+    }
+  })();
+
+  return value * register.scale;
+};
+
+// Telemetry row of one device poll. Registers holding NaN or infinity
+// (unavailable values of float registers) are left out.
+export const mapModbusReadings = (
+  siteId: string,
+  device: ModbusDevice,
+  blocks: RegisterBlock[],
+  tsUtc: string
+): RawTelemetryInput => {
+  const row: RawTelemetryInput = {
+    siteId,
+    ...(device.deviceId !== undefined && { deviceId: device.deviceId }),
+    source: 'modbus',
+    tsUtc,
+  };
+
+  for (const register of device.registers) {
+    const block = blocks.find(({ read }) => read.table === register.table
+      && register.address >= read.address
+      && register.address + REGISTER_WORDS[register.type] <= read.address + read.count);
+
+    if (!block) {
+      throw createError(`Register ${register.address} was not read`, 'MODBUS_PROTOCOL_ERROR', 502);
+    }
+
+    const offset = (register.address - block.read.address) * 2;
+    const value = decodeRegisterValue(register, block.data.subarray(offset));
+
+    if (Number.isFinite(value)) {
+      row[register.field] = value;
+    }
+  }
+
+  return row;
+};
+
+// Timestamp of a poll: the start of the poll interval it falls in, so rows
+// of one interval share a timestamp however long reading took
+export const pollTimestamp = (now: Date, pollSeconds: number): string => {
+  const intervalMs = pollSeconds * 1000;
+  return new Date(Math.floor(now.getTime() / intervalMs) * intervalMs).toISOString();
+};
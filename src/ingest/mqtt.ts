@@ -1,123 +1,314 @@
 import mqtt from 'mqtt';
-import { env } from '../config/index.js';
-import { getSiteConfig } from '../config/sites.js';
-import { 
-  validateTelemetryInput, 
-  clampValues, 
-  normalizeTelemetry,
-  RawTelemetryInput 
-} from '../model/telemetry.js';
 import { prisma } from '../db.js';
-import { generateRequestId, createError } from '../util/index.js';
+import { env } from '../config/index.js';
+import { RawTelemetryInput } from '../model/telemetry.js';
+import { MqttStatus } from '../model/api.js';
+import { ingestRecord } from './pipeline.js';
+import { SiteTopic, siteTopic, matchSiteTopic, isValidTopicSiteId, isValidTopicTemplate } from './mqttTopics.js';
+import {
+  SPARKPLUG_NAMESPACE,
+  SparkplugSite,
+  SparkplugSiteConfigSchema,
+  SparkplugNodeRegistry,
+  SparkplugTopic,
+  decodeSparkplugPayload,
+  encodeRebirthRequest,
+  mapSparkplugMetrics,
+  matchSparkplugSite,
+  parseSparkplugTopic,
+  sparkplugFilter,
+} from './sparkplug.js';
+import { generateRequestId, backoffDelay, isTransientError } from '../util/index.js';
+
+// What became of a message: acknowledged when processed or dropped (it
+// would fail again), left unacknowledged for redelivery when it failed on
+// something that can go away (the database being unavailable)
+type MessageOutcome = 'processed' | 'dropped' | 'failed';
+
+// Least time between two rebirth requests to the same edge node
+const REBIRTH_INTERVAL_MS = 30 * 1000;
 
+// Topic filter subscribed to for a site
+export interface MqttSubscription {
+  siteId: string;
+  filter: string;
+}
+
+// MQTT subscriber. Delivery is at least once: the session is persistent
+// under a stable client id, site topics are subscribed with QoS 1 or 2, and
+// a message is acknowledged only once its row is committed. Ingestion is
+// idempotent, so redelivered messages come out unchanged or duplicate.
+// Sites with a sparkplug configuration are also subscribed to their
+// Sparkplug B edge nodes, see src/ingest/sparkplug.ts.
 export class MQTTIngester {
   private client: mqtt.MqttClient | null = null;
   private isConnected = false;
+  private state: MqttStatus['state'] = 'disconnected';
+  private stopping = false;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 10;
+  private redelivering = false; // reconnected to have a failed message redelivered
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private lastConnectedAt: Date | undefined;
+  private lastMessageAt: Date | undefined;
+  private subscriptions = new Map<string, SiteTopic>(); // sites by topic filter
+  private sparkplugSites: SparkplugSite[] = [];
+  private sparkplugNodes = new SparkplugNodeRegistry();
+  private rebirthRequests = new Map<string, number>(); // last request by group/edge node
+  private subscribed = new Set<string>(); // filters held by the broker session
+  private syncing: Promise<void> = Promise.resolve();
+  private refreshTimer: NodeJS.Timeout | null = null;
 
   constructor(private logger: any) {}
 
   async connect(): Promise<void> {
     try {
+      this.stopping = false;
+      this.state = 'connecting';
       this.client = mqtt.connect(env.MQTT_URL, {
-        clientId: `iot-oracle-${Date.now()}`,
-        clean: true,
-        reconnectPeriod: 5000,
+        clientId: env.MQTT_CLIENT_ID,
+        clean: false, // the broker keeps our subscriptions and queues messages while we are away
+        reconnectPeriod: 0, // reconnection is scheduled here, with backoff
         connectTimeout: 30 * 1000,
+        // QoS 1 and 2 messages are acknowledged from here, after ingestion
+        customHandleAcks: (topic, message, _packet, acknowledge) => {
+          this.handleMessage(topic, message).then(outcome => {
+            if (outcome === 'failed') {
+              this.restartSession();
+            } else {
+              this.redelivering = false;
+              this.reconnectAttempts = 0;
+              acknowledge(0);
+            }
+          });
+        },
       });
 
-      this.client.on('connect', () => {
-        this.logger.info('Connected to MQTT broker');
+      this.client.on('connect', (connack) => {
+        this.logger.info({ sessionPresent: connack.sessionPresent }, 'Connected to MQTT broker');
         this.isConnected = true;
-        this.reconnectAttempts = 0;
-        this.subscribeToTopics();
+        this.state = 'connected';
+        // A message failing again keeps backing off until one is handled
+        if (!this.redelivering) {
+          this.reconnectAttempts = 0;
+        }
+        this.lastConnectedAt = new Date();
+
+        // Without a stored session the broker has no subscriptions of ours
+        if (!connack.sessionPresent) {
+          this.subscribed.clear();
+        }
+
+        this.syncSubscriptions().catch(error => {
+          this.logger.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'Failed to subscribe to site topics');
+        });
       });
 
       this.client.on('error', (error) => {
         this.logger.error({ error: error.message }, 'MQTT connection error');
-        this.isConnected = false;
       });
 
       this.client.on('close', () => {
-        this.logger.warn('MQTT connection closed');
         this.isConnected = false;
-      });
 
-      this.client.on('reconnect', () => {
-        this.reconnectAttempts++;
-        this.logger.warn({ attempts: this.reconnectAttempts }, 'MQTT reconnecting');
-        
-        if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-          this.logger.error('Max MQTT reconnection attempts reached');
-          this.client?.end();
+        if (this.stopping) {
+          this.state = 'disconnected';
+          return;
         }
+
+        this.logger.warn('MQTT connection closed');
+        this.scheduleReconnect();
       });
 
-      this.client.on('message', (topic, message) => {
-        this.handleMessage(topic, message);
+      // QoS 0 messages are not acknowledged; QoS 1 and 2 messages are
+      // handled in customHandleAcks
+      this.client.on('message', (topic, message, packet) => {
+        if (packet.qos === 0) {
+          this.handleMessage(topic, message);
+        }
       });
 
+      // Pick up sites added or removed by other instances or directly in
+      // the database
+      this.refreshTimer = setInterval(() => {
+        this.syncSubscriptions().catch(error => {
+          this.logger.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'Failed to refresh site topics');
+        });
+      }, env.MQTT_SITE_REFRESH_SECONDS * 1000);
+
     } catch (error) {
       this.logger.error({ error: error instanceof Error ? error.message : 'Unknown error' }, 'Failed to connect to MQTT broker');
       throw error;
     }
   }
 
-  private subscribeToTopics(): void {
-    if (!this.client) return;
+  // Reconnect after a growing delay, without giving up
+  private scheduleReconnect(): void {
+    if (this.stopping || this.reconnectTimer || !this.client) return;
 
-    // Subscribe to all configured site topics
-    const siteConfigs = Object.values(getSiteConfig('PRJ001') ? { PRJ001: getSiteConfig('PRJ001') } : {});
-    
-    for (const config of siteConfigs) {
-      if (config?.mqttTopic) {
-        this.client.subscribe(config.mqttTopic, (error) => {
-          if (error) {
-            this.logger.error({ topic: config.mqttTopic, error: error.message }, 'Failed to subscribe to MQTT topic');
-          } else {
-            this.logger.info({ topic: config.mqttTopic }, 'Subscribed to MQTT topic');
-          }
-        });
+    const delay = backoffDelay(this.reconnectAttempts, env.MQTT_RECONNECT_MIN_MS, env.MQTT_RECONNECT_MAX_MS);
+    this.reconnectAttempts++;
+    this.state = 'reconnecting';
+    this.logger.warn({ attempts: this.reconnectAttempts, delayMs: delay }, 'MQTT reconnecting');
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.client?.reconnect();
+    }, delay);
+  }
+
+  // Drop the connection without acknowledging the message being handled;
+  // the broker redelivers it from the session once we are back
+  private restartSession(): void {
+    if (!this.client || this.stopping) return;
+
+    this.logger.warn('Reconnecting to MQTT broker for redelivery');
+    this.redelivering = true;
+    this.client.end(true);
+    this.scheduleReconnect();
+  }
+
+  // Subscribe to the topics of the sites in the registry and drop those of
+  // sites that were removed or disabled. Runs on connect, every
+  // MQTT_SITE_REFRESH_SECONDS and when a site is changed through the admin
+  // API; calls are serialized.
+  syncSubscriptions(): Promise<MqttSubscription[]> {
+    const run = this.syncing.then(() => this.applySubscriptions());
+    this.syncing = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  private async applySubscriptions(): Promise<MqttSubscription[]> {
+    const sites = await prisma.site.findMany({
+      where: { mqttEnabled: true },
+      select: { id: true, mqttTopic: true, sparkplug: true },
+      orderBy: { id: 'asc' },
+    });
+
+    const desired = new Map<string, SiteTopic>();
+    const sparkplugSites = new Map<string, SparkplugSite>(); // by topic filter
+
+    for (const site of sites) {
+      const template = site.mqttTopic ?? env.MQTT_TOPIC_TEMPLATE;
+
+      if (!isValidTopicSiteId(site.id) || !isValidTopicTemplate(template)) {
+        this.logger.warn({ siteId: site.id, template }, 'Site cannot be subscribed to over MQTT');
+        continue;
+      }
+
+      const topic = siteTopic(site.id, template);
+      const taken = desired.get(topic.filter);
+
+      if (taken) {
+        this.logger.warn({ siteId: site.id, topic: topic.filter, subscribedFor: taken.siteId }, 'MQTT topic already used by another site');
+        continue;
       }
+
+      desired.set(topic.filter, topic);
     }
 
-    // Also subscribe to wildcard pattern for dynamic sites
-    this.client.subscribe('iot/+/telemetry', (error) => {
-      if (error) {
-        this.logger.error({ error: error.message }, 'Failed to subscribe to MQTT wildcard topic');
-      } else {
-        this.logger.info('Subscribed to MQTT wildcard topic: iot/+/telemetry');
+    for (const site of sites) {
+      if (site.sparkplug === null) continue;
+
+      const parsed = SparkplugSiteConfigSchema.safeParse(site.sparkplug);
+      if (!parsed.success) {
+        this.logger.warn({ siteId: site.id, errors: parsed.error.errors.map(err => err.message) }, 'Site has an invalid Sparkplug configuration');
+        continue;
       }
-    });
+
+      const filter = sparkplugFilter(parsed.data);
+      const taken = desired.get(filter) ?? sparkplugSites.get(filter);
+
+      if (taken) {
+        this.logger.warn({ siteId: site.id, topic: filter, subscribedFor: taken.siteId }, 'Sparkplug edge nodes already used by another site');
+        continue;
+      }
+
+      sparkplugSites.set(filter, { siteId: site.id, config: parsed.data });
+    }
+
+    this.subscriptions = desired;
+    this.sparkplugSites = [...sparkplugSites.values()];
+
+    const current: MqttSubscription[] = [
+      ...desired.values(),
+      ...[...sparkplugSites].map(([filter, site]) => ({ siteId: site.siteId, filter })),
+    ];
+    const filters = new Set(current.map(subscription => subscription.filter));
+
+    if (!this.client || !this.isConnected) {
+      return current;
+    }
+
+    const added = [...filters].filter(filter => !this.subscribed.has(filter));
+    const removed = [...this.subscribed].filter(filter => !filters.has(filter));
+
+    if (removed.length > 0) {
+      await this.client.unsubscribeAsync(removed);
+      removed.forEach(filter => this.subscribed.delete(filter));
+      this.logger.info({ topics: removed }, 'Unsubscribed from MQTT topics');
+    }
+
+    if (added.length > 0) {
+      await this.client.subscribeAsync(added, { qos: env.MQTT_QOS });
+      added.forEach(filter => this.subscribed.add(filter));
+      this.logger.info({ topics: added }, 'Subscribed to MQTT topics');
+    }
+
+    return current;
+  }
+
+  // Site subscription a received topic belongs to
+  private findSubscription(topic: string): { subscription: SiteTopic; deviceId?: string } | null {
+    for (const subscription of this.subscriptions.values()) {
+      const match = matchSiteTopic(subscription, topic);
+      if (match) {
+        return { subscription, ...match };
+      }
+    }
+    return null;
   }
 
-  private async handleMessage(topic: string, message: Buffer): Promise<void> {
+  private async handleMessage(topic: string, message: Buffer): Promise<MessageOutcome> {
     const requestId = generateRequestId();
+    this.lastMessageAt = new Date();
+
+    if (topic.startsWith(`${SPARKPLUG_NAMESPACE}/`)) {
+      return this.handleSparkplugMessage(topic, message, requestId);
+    }
     
+    let data: any;
     try {
-      const messageStr = message.toString();
-      const data = JSON.parse(messageStr);
-      
-      // Extract siteId from topic (iot/{siteId}/telemetry)
-      const topicParts = topic.split('/');
-      const siteId = topicParts[1];
-      
-      if (!siteId) {
-        this.logger.warn({ topic, requestId }, 'Could not extract siteId from MQTT topic');
-        return;
+      data = JSON.parse(message.toString());
+    } catch {
+      this.logger.warn({ topic, requestId, message: message.toString().substring(0, 200) }, 'MQTT message is not JSON');
+      return 'dropped';
+    }
+    
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      this.logger.warn({ topic, requestId, message: message.toString().substring(0, 200) }, 'MQTT message is not a JSON object');
+      return 'dropped';
+    }
+    
+    try {
+      // The site (and device, if the template has a level for it) comes
+      // from the topic
+      const match = this.findSubscription(topic);
+      if (!match) {
+        this.logger.warn({ topic, requestId }, 'MQTT message on a topic of no registered site');
+        return 'dropped';
       }
 
-      // Validate site exists
-      const siteConfig = getSiteConfig(siteId);
-      if (!siteConfig) {
-        this.logger.warn({ siteId, topic, requestId }, 'Unknown siteId in MQTT message');
-        return;
+      const siteId = match.subscription.siteId;
+
+      if (match.deviceId !== undefined && data.deviceId !== undefined && data.deviceId !== match.deviceId) {
+        this.logger.warn({ siteId, topic, deviceId: data.deviceId, requestId }, 'MQTT message deviceId does not match its topic');
+        return 'dropped';
       }
 
       // Prepare telemetry input
       const telemetryInput: RawTelemetryInput = {
         siteId,
+        deviceId: match.deviceId ?? data.deviceId,
         source: 'mqtt',
         tsUtc: data.tsUtc || new Date().toISOString(),
         poaIrrWm2: data.poaIrrWm2,
@@ -125,70 +316,187 @@ export class MQTTIngester {
         windMps: data.windMps,
         acPowerKw: data.acPowerKw,
         acEnergyKWh: data.acEnergyKWh,
+        acEnergyRegisterKWh: data.acEnergyRegisterKWh,
+        meterSerial: data.meterSerial,
         status: data.status,
         uniqKey: data.uniqKey,
+        signature: data.signature,
       };
 
-      // Validate and process
-      const validated = validateTelemetryInput(telemetryInput);
-      const clamped = clampValues(validated);
-      const normalized = normalizeTelemetry(clamped);
-
-      // Store in database
-      await prisma.rawTelemetry.upsert({
-        where: {
-          siteId_tsUtc: {
-            siteId: normalized.siteId,
-            tsUtc: normalized.tsUtc,
-          },
-        },
-        update: {
-          poaIrrWm2: normalized.poaIrrWm2,
-          tempC: normalized.tempC,
-          windMps: normalized.windMps,
-          acPowerKw: normalized.acPowerKw,
-          acEnergyKWh: normalized.acEnergyKWh,
-          status: normalized.status,
-          rowHash: normalized.rowHash,
-          source: normalized.source,
-          uniqKey: normalized.uniqKey,
-        },
-        create: {
-          siteId: normalized.siteId,
-          tsUtc: normalized.tsUtc,
-          poaIrrWm2: normalized.poaIrrWm2,
-          tempC: normalized.tempC,
-          windMps: normalized.windMps,
-          acPowerKw: normalized.acPowerKw,
-          acEnergyKWh: normalized.acEnergyKWh,
-          status: normalized.status,
-          rowHash: normalized.rowHash,
-          source: normalized.source,
-          uniqKey: normalized.uniqKey,
-        },
-      });
+      // Validate, convert and store; redelivered messages are reported as
+      // unchanged or duplicate
+      const result = await ingestRecord(telemetryInput);
 
       this.logger.info({
         requestId,
         siteId,
-        tsUtc: normalized.tsUtc.toISOString(),
-        rowHash: normalized.rowHash,
+        deviceId: result.deviceId,
+        tsUtc: result.tsUtc,
+        rowHash: result.rowHash,
+        status: result.status,
       }, 'MQTT telemetry processed successfully');
 
+      return 'processed';
     } catch (error) {
+      // Only a failure that can go away (the database being unavailable) is
+      // retried through redelivery; a rejected row or a message we cannot
+      // handle would fail again and block the session
+      const retry = isTransientError(error);
+      
       this.logger.error({
         requestId,
         topic,
         error: error instanceof Error ? error.message : 'Unknown error',
         message: message.toString().substring(0, 200), // Log first 200 chars
-      }, 'Failed to process MQTT message');
+      }, retry ? 'Failed to process MQTT message' : 'MQTT telemetry rejected');
+      
+      return retry ? 'failed' : 'dropped';
     }
   }
 
+  // Sparkplug B message: births and deaths update the edge node's state and
+  // the online flag of its registered devices; births and data messages are
+  // mapped to telemetry rows through the site's metric mappings
+  private async handleSparkplugMessage(topic: string, message: Buffer, requestId: string): Promise<MessageOutcome> {
+    const parsedTopic = parseSparkplugTopic(topic);
+    const site = parsedTopic ? matchSparkplugSite(this.sparkplugSites, parsedTopic) : undefined;
+
+    if (!parsedTopic || !site) {
+      this.logger.warn({ topic, requestId }, 'Sparkplug message on a topic of no registered site');
+      return 'dropped';
+    }
+
+    if (parsedTopic.messageType === 'NCMD' || parsedTopic.messageType === 'DCMD') {
+      return 'dropped';
+    }
+
+    const { groupId, edgeNodeId, deviceId, messageType } = parsedTopic;
+
+    try {
+      const payload = decodeSparkplugPayload(message);
+
+      switch (messageType) {
+        case 'NBIRTH':
+          this.sparkplugNodes.nodeBirth(groupId, edgeNodeId, payload);
+          break;
+        case 'DBIRTH':
+          if (!this.sparkplugNodes.deviceBirth(groupId, edgeNodeId, deviceId!, payload)) {
+            this.requestRebirth(parsedTopic);
+          }
+          await this.setDevicesOnline(site.siteId, [deviceId!], true);
+          break;
+        case 'DDEATH':
+          this.sparkplugNodes.deviceDeath(groupId, edgeNodeId, deviceId!);
+          await this.setDevicesOnline(site.siteId, [deviceId!], false);
+          return 'processed';
+        case 'NDEATH': {
+          const devices = this.sparkplugNodes.nodeDeath(groupId, edgeNodeId, payload);
+          if (devices === null) {
+            this.logger.info({ siteId: site.siteId, topic, requestId }, 'Ignoring NDEATH of an earlier Sparkplug session');
+            return 'dropped';
+          }
+          await this.setDevicesOnline(site.siteId, devices, false);
+          this.logger.info({ siteId: site.siteId, edgeNodeId, devices, requestId }, 'Sparkplug edge node offline');
+          return 'processed';
+        }
+        default:
+          // Data by alias cannot be read without the births declaring them
+          if (!this.sparkplugNodes.isBorn(groupId, edgeNodeId)) {
+            this.requestRebirth(parsedTopic);
+          }
+      }
+
+      const rows = mapSparkplugMetrics(
+        site,
+        deviceId,
+        payload,
+        metric => this.sparkplugNodes.metricName(groupId, edgeNodeId, metric)
+      );
+
+      // Each row goes through the same validation and normalization as JSON
+      // messages; a rejected row does not hold back the others
+      let rejected = 0;
+      for (const row of rows) {
+        try {
+          const result = await ingestRecord(row);
+          this.logger.info({
+            requestId,
+            siteId: site.siteId,
+            deviceId: result.deviceId,
+            tsUtc: result.tsUtc,
+            rowHash: result.rowHash,
+            status: result.status,
+          }, 'Sparkplug telemetry processed successfully');
+        } catch (error) {
+          if (isTransientError(error)) throw error;
+          rejected++;
+          this.logger.error({
+            requestId,
+            siteId: site.siteId,
+            tsUtc: row.tsUtc,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          }, 'Sparkplug telemetry rejected');
+        }
+      }
+
+      return rows.length > 0 && rejected === rows.length ? 'dropped' : 'processed';
+    } catch (error) {
+      const retry = isTransientError(error);
+
+      this.logger.error({
+        requestId,
+        topic,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, retry ? 'Failed to process Sparkplug message' : 'Sparkplug message rejected');
+
+      return retry ? 'failed' : 'dropped';
+    }
+  }
+
+  // Ask an edge node whose births we missed (we connected after them) to
+  // publish them again
+  private requestRebirth(topic: SparkplugTopic): void {
+    if (!this.client || !this.isConnected) return;
+
+    const node = `${topic.groupId}/${topic.edgeNodeId}`;
+    const now = Date.now();
+    if (now - (this.rebirthRequests.get(node) ?? 0) < REBIRTH_INTERVAL_MS) return;
+    this.rebirthRequests.set(node, now);
+
+    const commandTopic = `${SPARKPLUG_NAMESPACE}/${topic.groupId}/NCMD/${topic.edgeNodeId}`;
+    this.client.publish(commandTopic, encodeRebirthRequest(), { qos: 0 });
+    this.logger.info({ topic: commandTopic }, 'Requested Sparkplug rebirth');
+  }
+
+  // Record birth and death of registered devices
+  private async setDevicesOnline(siteId: string, deviceIds: string[], online: boolean): Promise<void> {
+    if (deviceIds.length === 0) return;
+
+    await prisma.device.updateMany({
+      where: { siteId, deviceId: { in: deviceIds } },
+      data: { online, onlineChangedAt: new Date() },
+    });
+  }
+
   async disconnect(): Promise<void> {
+    this.stopping = true;
+
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
     if (this.client) {
-      this.client.end();
+      // Messages still being handled are not acknowledged; the broker
+      // redelivers them to the next session
+      await this.client.endAsync();
       this.isConnected = false;
+      this.state = 'disconnected';
       this.logger.info('Disconnected from MQTT broker');
     }
   }
@@ -196,4 +504,15 @@ export class MQTTIngester {
   isHealthy(): boolean {
     return this.isConnected && this.client?.connected === true;
   }
+
+  getStatus(): MqttStatus {
+    return {
+      state: this.state,
+      clientId: env.MQTT_CLIENT_ID,
+      reconnectAttempts: this.reconnectAttempts,
+      subscriptions: this.subscribed.size,
+      lastConnectedAt: this.lastConnectedAt?.toISOString(),
+      lastMessageAt: this.lastMessageAt?.toISOString(),
+    };
+  }
 }
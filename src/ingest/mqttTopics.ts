@@ -0,0 +1,85 @@
+// MQTT topic templates. A site's telemetry topic is its template with
+// {siteId} replaced by the site ID. {deviceId}, if present, stands for one
+// topic level naming the reporting device and is subscribed as "+". Sites
+// without a template of their own use MQTT_TOPIC_TEMPLATE.
+//
+//   iot/{siteId}/telemetry            -> iot/PRJ001/telemetry
+//   plants/{siteId}/{deviceId}/data   -> plants/PRJ001/+/data
+
+export const SITE_ID_PLACEHOLDER = '{siteId}';
+export const DEVICE_ID_PLACEHOLDER = '{deviceId}';
+
+// Subscription of one site
+export interface SiteTopic {
+  siteId: string;
+  template: string;
+  filter: string; // topic filter subscribed to
+}
+
+// Reason a topic template is invalid, if any
+export const validateTopicTemplate = (template: string): string | undefined => {
+  if (template.length === 0) {
+    return 'Topic template must not be empty';
+  }
+
+  if (template.includes('+') || template.includes('#')) {
+    return 'Topic templates cannot contain MQTT wildcards; use {deviceId} for a device level';
+  }
+
+  const levels = template.split('/');
+
+  if (levels.some(level => level.includes('{') && level !== SITE_ID_PLACEHOLDER && level !== DEVICE_ID_PLACEHOLDER)) {
+    return `Placeholders ${SITE_ID_PLACEHOLDER} and ${DEVICE_ID_PLACEHOLDER} must each fill a whole topic level`;
+  }
+
+  if (levels.filter(level => level === SITE_ID_PLACEHOLDER).length > 1 || levels.filter(level => level === DEVICE_ID_PLACEHOLDER).length > 1) {
+    return 'Each placeholder may appear at most once';
+  }
+
+  return undefined;
+};
+
+export const isValidTopicTemplate = (template: string): boolean => {
+  return validateTopicTemplate(template) === undefined;
+};
+
+// Site IDs are topic levels, so they cannot hold separators or wildcards
+export const isValidTopicSiteId = (siteId: string): boolean => {
+  return siteId.length > 0 && !/[+#/]/.test(siteId);
+};
+
+export const siteTopic = (siteId: string, template: string): SiteTopic => {
+  const filter = template
+    .split('/')
+    .map(level => level === SITE_ID_PLACEHOLDER ? siteId : level === DEVICE_ID_PLACEHOLDER ? '+' : level)
+    .join('/');
+
+  return { siteId, template, filter };
+};
+
+// Match a received topic against a site's subscription, returning the
+// device level when the template has one; null when it does not match
+export const matchSiteTopic = (subscription: SiteTopic, topic: string): { deviceId?: string } | null => {
+  const templateLevels = subscription.template.split('/');
+  const levels = topic.split('/');
+
+  if (levels.length !== templateLevels.length) {
+    return null;
+  }
+
+  let deviceId: string | undefined;
+
+  for (let i = 0; i < levels.length; i++) {
+    const expected = templateLevels[i];
+    const level = levels[i];
+
+    if (expected === DEVICE_ID_PLACEHOLDER) {
+      if (!level) return null;
+      deviceId = level;
+    } else if (level !== (expected === SITE_ID_PLACEHOLDER ? subscription.siteId : expected)) {
+      return null;
+    }
+  }
+
+  return deviceId === undefined ? {} : { deviceId };
+};
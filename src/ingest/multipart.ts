@@ -0,0 +1,155 @@
+import { createError } from '../util/index.js';
+
+// multipart/form-data parsing (RFC 7578). Like CsvParser the parser is
+// incremental: the body is pushed in chunks as it arrives and part contents
+// are passed on as they are read, so files of any size stream through.
+
+export type MultipartEvent =
+  | { type: 'part'; name: string; filename?: string; contentType?: string }
+  | { type: 'data'; data: Buffer }
+  | { type: 'end' }; // end of the current part
+
+const MAX_HEADER_BYTES = 16 * 1024;
+const CRLF = Buffer.from('\r\n');
+const HEADER_END = Buffer.from('\r\n\r\n');
+
+// Boundary of a multipart/form-data Content-Type header
+export const multipartBoundary = (contentType: string | undefined): string | undefined => {
+  if (!contentType || !/^multipart\/form-data\s*(;|$)/i.test(contentType)) {
+    return undefined;
+  }
+
+  const match = contentType.match(/;\s*boundary=(?:"([^"]+)"|([^\s;]+))/i);
+  const boundary = match?.[1] ?? match?.[2];
+
+  return boundary && boundary.length <= 70 ? boundary : undefined;
+};
+
+// Parameters of a Content-Disposition header (name="file"; filename="a.csv")
+const headerParams = (value: string): Record<string, string> => {
+  const params: Record<string, string> = {};
+
+  for (const [, name, quoted, token] of value.matchAll(/;\s*([\w*-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s;]+))/g)) {
+    params[name!.toLowerCase()] = quoted !== undefined ? quoted.replace(/\\(.)/g, '$1') : token!;
+  }
+
+  return params;
+};
+
+export class MultipartParser {
+  // The first delimiter need not follow a line end; starting with one lets
+  // every delimiter be matched as CRLF "--" boundary
+  private buffer: Buffer = CRLF;
+  private state: 'preamble' | 'delimiter' | 'headers' | 'body' | 'done' = 'preamble';
+  private readonly delimiter: Buffer;
+
+  constructor(boundary: string) {
+    this.delimiter = Buffer.from(`\r\n--${boundary}`);
+  }
+
+  private parseHeaders(text: string): MultipartEvent {
+    const headers: Record<string, string> = {};
+
+    for (const line of text.split('\r\n')) {
+      const colon = line.indexOf(':');
+      if (colon > 0) {
+        headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+      }
+    }
+
+    const disposition = headers['content-disposition'];
+    const params = disposition && /^form-data\s*(;|$)/i.test(disposition) ? headerParams(disposition) : undefined;
+
+    if (params?.name === undefined) {
+      throw createError('Multipart part without a form-data name', 'INVALID_MULTIPART', 400);
+    }
+
+    return {
+      type: 'part',
+      name: params.name,
+      ...(params.filename !== undefined && { filename: params.filename }),
+      ...(headers['content-type'] !== undefined && { contentType: headers['content-type'] }),
+    };
+  }
+
+  push(chunk: Buffer): MultipartEvent[] {
+    const events: MultipartEvent[] = [];
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    for (;;) {
+      if (this.state === 'preamble' || this.state === 'body') {
+        const index = this.buffer.indexOf(this.delimiter);
+
+        if (index === -1) {
+          // Keep what could be the start of a delimiter
+          const keep = Math.min(this.buffer.length, this.delimiter.length - 1);
+          if (this.state === 'body' && this.buffer.length > keep) {
+            events.push({ type: 'data', data: this.buffer.subarray(0, this.buffer.length - keep) });
+          }
+          this.buffer = this.buffer.subarray(this.buffer.length - keep);
+          return events;
+        }
+
+        if (this.state === 'body') {
+          if (index > 0) events.push({ type: 'data', data: this.buffer.subarray(0, index) });
+          events.push({ type: 'end' });
+        }
+
+        this.buffer = this.buffer.subarray(index + this.delimiter.length);
+        this.state = 'delimiter';
+      } else if (this.state === 'delimiter') {
+        // "--" closes the body; otherwise optional whitespace and a line end
+        // lead to the next part's headers
+        const lineEnd = this.buffer.indexOf(CRLF);
+
+        if (this.buffer.length >= 2 && this.buffer[0] === 0x2d && this.buffer[1] === 0x2d) {
+          this.state = 'done';
+          this.buffer = Buffer.alloc(0);
+          return events;
+        }
+
+        if (lineEnd === -1) {
+          if (this.buffer.length > 256) {
+            throw createError('Malformed multipart delimiter', 'INVALID_MULTIPART', 400);
+          }
+          return events;
+        }
+
+        if (this.buffer.subarray(0, lineEnd).toString('latin1').trim() !== '') {
+          throw createError('Malformed multipart delimiter', 'INVALID_MULTIPART', 400);
+        }
+
+        this.buffer = this.buffer.subarray(lineEnd + CRLF.length);
+        this.state = 'headers';
+      } else if (this.state === 'headers') {
+        if (this.buffer.subarray(0, 2).equals(CRLF)) {
+          throw createError('Multipart part without a form-data name', 'INVALID_MULTIPART', 400);
+        }
+
+        const index = this.buffer.indexOf(HEADER_END);
+
+        if (index === -1) {
+          if (this.buffer.length > MAX_HEADER_BYTES) {
+            throw createError('Multipart part headers are too long', 'INVALID_MULTIPART', 400);
+          }
+          return events;
+        }
+
+        events.push(this.parseHeaders(this.buffer.subarray(0, index).toString('utf8')));
+        this.buffer = this.buffer.subarray(index + HEADER_END.length);
+        this.state = 'body';
+      } else {
+        // Epilogue after the closing delimiter is ignored
+        this.buffer = Buffer.alloc(0);
+        return events;
+      }
+    }
+  }
+
+  // Check the body was complete once all of it is pushed
+  end(): void {
+    if (this.state !== 'done') {
+      throw createError('Multipart body ended before its closing boundary', 'INVALID_MULTIPART', 400);
+    }
+  }
+}
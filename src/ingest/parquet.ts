@@ -0,0 +1,696 @@
+import { gunzipSync, brotliDecompressSync } from 'zlib';
+import { PullRecord } from './pullMapping.js';
+import { createError } from '../util/index.js';
+
+// Parquet reading for bulk uploads. Files are read through a ParquetSource
+// (random access, so a file on disk or a buffer) a page at a time, and only
+// the columns asked for. Supported: flat columns (optional fields
+// inside structs included, lists and maps not), PLAIN and dictionary
+// encodings, data pages v1 and v2, and uncompressed, Snappy, gzip or Brotli
+// column chunks; that covers files written by pandas/pyarrow, Spark and
+// DuckDB with default settings. Values are returned as numbers, strings,
+// booleans or null; timestamps and dates as ISO strings.
+
+export interface ParquetSource {
+  size: number;
+  read(offset: number, length: number): Promise<Buffer>;
+}
+
+export interface ParquetColumn {
+  path: string; // dotted path of the leaf field
+  type: number; // physical type
+  typeLength: number;
+  maxDefinitionLevel: number;
+  maxRepetitionLevel: number;
+  convertedType?: number;
+  logicalType?: ThriftStruct;
+  scale: number; // of decimals
+}
+
+export interface ParquetFile {
+  numRows: number;
+  columns: ParquetColumn[];
+  rowGroups: ThriftStruct[];
+}
+
+const MAGIC = 'PAR1';
+
+// Physical types
+const BOOLEAN = 0;
+const INT32 = 1;
+const INT64 = 2;
+const INT96 = 3;
+const FLOAT = 4;
+const DOUBLE = 5;
+const BYTE_ARRAY = 6;
+const FIXED_LEN_BYTE_ARRAY = 7;
+
+// Converted types
+const DECIMAL = 5;
+const DATE = 6;
+const TIMESTAMP_MILLIS = 9;
+const TIMESTAMP_MICROS = 10;
+
+// Encodings
+const PLAIN = 0;
+const PLAIN_DICTIONARY = 2;
+const RLE = 3;
+const RLE_DICTIONARY = 8;
+
+// Page types
+const DATA_PAGE = 0;
+const DICTIONARY_PAGE = 2;
+const DATA_PAGE_V2 = 3;
+
+// Pages larger than this are rejected before they are read or decompressed,
+// whatever size their header declares; writers default to 1 MB pages
+const MAX_PAGE_BYTES = 16 * 1024 * 1024;
+const PAGE_HEADER_BYTES = 1024;
+const MAX_PAGE_HEADER_BYTES = 1024 * 1024;
+
+// Decompression of a page to its uncompressed size (from the page header,
+// at most MAX_PAGE_BYTES), which bounds the memory a corrupt or hostile file
+// can claim
+const CODECS: Record<number, (data: Buffer, size: number) => Buffer> = {
+  0: data => data,
+  1: (data, size) => snappyDecompress(data, size),
+  2: (data, size) => gunzipSync(data, { maxOutputLength: Math.max(size, 1) }),
+  4: (data, size) => brotliDecompressSync(data, { maxOutputLength: Math.max(size, 1) }),
+};
+
+const CODEC_NAMES = ['UNCOMPRESSED', 'SNAPPY', 'GZIP', 'LZO', 'BROTLI', 'LZ4', 'ZSTD', 'LZ4_RAW'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const JULIAN_DAY_OF_EPOCH = 2440588;
+
+const invalid = (message: string) => createError(message, 'INVALID_PARQUET', 400);
+
+// Thrift compact protocol, as Parquet metadata is encoded. Structs are read
+// generically as field id -> value.
+
+export type ThriftValue = boolean | number | bigint | Buffer | ThriftValue[] | ThriftStruct;
+export interface ThriftStruct { [fieldId: number]: ThriftValue }
+
+export class ThriftReader {
+  constructor(private readonly data: Buffer, public offset = 0) {}
+
+  private byte(): number {
+    if (this.offset >= this.data.length) throw invalid('Truncated Parquet metadata');
+    return this.data[this.offset++]!;
+  }
+
+  varint(): bigint {
+    let result = 0n;
+    let shift = 0n;
+    for (;;) {
+      const byte = this.byte();
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += 7n;
+      if (shift > 63n) throw invalid('Malformed Parquet metadata');
+    }
+  }
+
+  private zigzag(): bigint {
+    const value = this.varint();
+    return (value >> 1n) ^ -(value & 1n);
+  }
+
+  private value(type: number): ThriftValue {
+    switch (type) {
+      case 1: return true;
+      case 2: return false;
+      case 3: return (this.byte() << 24) >> 24;
+      case 4:
+      case 5: return Number(this.zigzag());
+      case 6: return this.zigzag();
+      case 7: {
+        if (this.offset + 8 > this.data.length) throw invalid('Truncated Parquet metadata');
+        const value = this.data.readDoubleLE(this.offset);
+        this.offset += 8;
+        return value;
+      }
+      case 8: {
+        const length = Number(this.varint());
+        if (this.offset + length > this.data.length) throw invalid('Truncated Parquet metadata');
+        const value = this.data.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return value;
+      }
+      case 9:
+      case 10: return this.list();
+      case 11: return this.map();
+      case 12: return this.struct();
+      default: throw invalid(`Unknown Thrift type ${type} in Parquet metadata`);
+    }
+  }
+
+  private list(): ThriftValue[] {
+    const header = this.byte();
+    const size = (header >> 4) === 15 ? Number(this.varint()) : header >> 4;
+    const type = header & 0x0f;
+    const values: ThriftValue[] = [];
+
+    for (let i = 0; i < size; i++) {
+      // Booleans in lists take a byte each
+      values.push(type === 1 || type === 2 ? this.byte() === 1 : this.value(type));
+    }
+    return values;
+  }
+
+  // Maps are not used by the structures read here; they are skipped
+  private map(): ThriftValue[] {
+    const size = Number(this.varint());
+    if (size === 0) return [];
+    const types = this.byte();
+    for (let i = 0; i < size; i++) {
+      this.value(types >> 4);
+      this.value(types & 0x0f);
+    }
+    return [];
+  }
+
+  struct(): ThriftStruct {
+    const struct: ThriftStruct = {};
+    let fieldId = 0;
+
+    for (;;) {
+      const header = this.byte();
+      if (header === 0) return struct;
+
+      const delta = header >> 4;
+      fieldId = delta === 0 ? Number(this.zigzag()) : fieldId + delta;
+      struct[fieldId] = this.value(header & 0x0f);
+    }
+  }
+}
+
+const int = (value: ThriftValue | undefined): number | undefined => {
+  return typeof value === 'number' ? value : typeof value === 'bigint' ? Number(value) : undefined;
+};
+
+const text = (value: ThriftValue | undefined): string | undefined => {
+  return Buffer.isBuffer(value) ? value.toString('utf8') : undefined;
+};
+
+const structs = (value: ThriftValue | undefined): ThriftStruct[] => {
+  return Array.isArray(value) ? value as ThriftStruct[] : [];
+};
+
+// Snappy raw format (the framing format is not used by Parquet)
+export const snappyDecompress = (data: Buffer, maxLength: number): Buffer => {
+  const fail = () => invalid('Corrupt Snappy data in Parquet file');
+
+  const reader = new ThriftReader(data);
+  const length = Number(reader.varint());
+  if (length > maxLength) throw fail();
+
+  const output = Buffer.alloc(length);
+  let offset = reader.offset;
+  let written = 0;
+
+  while (offset < data.length) {
+    const tag = data[offset++]!;
+
+    if ((tag & 3) === 0) {
+      let length = tag >> 2;
+      if (length >= 60) {
+        const bytes = length - 59;
+        if (offset + bytes > data.length) throw fail();
+        length = data.readUIntLE(offset, bytes);
+        offset += bytes;
+      }
+      length += 1;
+      if (offset + length > data.length || written + length > output.length) throw fail();
+      data.copy(output, written, offset, offset + length);
+      offset += length;
+      written += length;
+      continue;
+    }
+
+    let length: number;
+    let distance: number;
+
+    if ((tag & 3) === 1) {
+      if (offset + 1 > data.length) throw fail();
+      length = 4 + ((tag >> 2) & 7);
+      distance = ((tag >> 5) << 8) | data[offset++]!;
+    } else if ((tag & 3) === 2) {
+      if (offset + 2 > data.length) throw fail();
+      length = (tag >> 2) + 1;
+      distance = data.readUInt16LE(offset);
+      offset += 2;
+    } else {
+      if (offset + 4 > data.length) throw fail();
+      length = (tag >> 2) + 1;
+      distance = data.readUInt32LE(offset);
+      offset += 4;
+    }
+
+    if (distance === 0 || distance > written || written + length > output.length) throw fail();
+
+    // Copies may overlap their own output
+    for (let i = 0; i < length; i++, written++) {
+      output[written] = output[written - distance]!;
+    }
+  }
+
+  if (written !== output.length) throw fail();
+  return output;
+};
+
+const bitWidth = (maxValue: number): number => {
+  return maxValue === 0 ? 0 : 32 - Math.clz32(maxValue);
+};
+
+// RLE / bit-packing hybrid, as levels and dictionary indices are encoded
+export const decodeHybrid = (data: Buffer, width: number, count: number): number[] => {
+  const values: number[] = [];
+  const reader = new ThriftReader(data);
+  const valueBytes = Math.ceil(width / 8);
+
+  while (values.length < count) {
+    if (reader.offset >= data.length) throw invalid('Truncated Parquet levels');
+    const header = Number(reader.varint());
+    let offset = reader.offset;
+
+    if (header & 1) {
+      // Bit-packed groups of 8 values, least significant bit first
+      const total = (header >> 1) * 8;
+      for (let i = 0; i < total; i++) {
+        let value = 0;
+        for (let bit = 0; bit < width; bit++) {
+          const position = i * width + bit;
+          const byte = data[offset + (position >> 3)];
+          if (byte === undefined) throw invalid('Truncated Parquet levels');
+          value |= ((byte >> (position & 7)) & 1) << bit;
+        }
+        if (values.length < count) values.push(value);
+      }
+      offset += (header >> 1) * width;
+    } else {
+      if (offset + valueBytes > data.length) throw invalid('Truncated Parquet levels');
+      const value = valueBytes === 0 ? 0 : data.readUIntLE(offset, valueBytes);
+      offset += valueBytes;
+      for (let i = 0; i < header >> 1 && values.length < count; i++) values.push(value);
+    }
+
+    reader.offset = offset;
+  }
+
+  return values;
+};
+
+// Values of a PLAIN-encoded page (or dictionary)
+const decodePlain = (data: Buffer, column: ParquetColumn, count: number): unknown[] => {
+  const values: unknown[] = [];
+  let offset = 0;
+
+  const need = (bytes: number) => {
+    if (offset + bytes > data.length) throw invalid(`Truncated values in Parquet column ${column.path}`);
+  };
+
+  for (let i = 0; i < count; i++) {
+    switch (column.type) {
+      case BOOLEAN:
+        if (i >> 3 >= data.length) throw invalid(`Truncated values in Parquet column ${column.path}`);
+        values.push(((data[i >> 3]! >> (i & 7)) & 1) === 1);
+        break;
+      case INT32:
+        need(4);
+        values.push(data.readInt32LE(offset));
+        offset += 4;
+        break;
+      case INT64:
+        need(8);
+        values.push(data.readBigInt64LE(offset));
+        offset += 8;
+        break;
+      case INT96:
+        // Legacy timestamps: nanoseconds of the day, then the Julian day
+        need(12);
+        values.push((data.readInt32LE(offset + 8) - JULIAN_DAY_OF_EPOCH) * DAY_MS + Number(data.readBigInt64LE(offset) / 1000000n));
+        offset += 12;
+        break;
+      case FLOAT:
+        need(4);
+        values.push(data.readFloatLE(offset));
+        offset += 4;
+        break;
+      case DOUBLE:
+        need(8);
+        values.push(data.readDoubleLE(offset));
+        offset += 8;
+        break;
+      case BYTE_ARRAY: {
+        need(4);
+        const length = data.readUInt32LE(offset);
+        offset += 4;
+        need(length);
+        values.push(data.subarray(offset, offset + length));
+        offset += length;
+        break;
+      }
+      case FIXED_LEN_BYTE_ARRAY:
+        need(column.typeLength);
+        values.push(data.subarray(offset, offset + column.typeLength));
+        offset += column.typeLength;
+        break;
+      default:
+        throw invalid(`Unknown Parquet type ${column.type} in column ${column.path}`);
+    }
+  }
+
+  return values;
+};
+
+// Big-endian two's complement, as decimals in byte arrays are stored
+const signedBigInt = (bytes: Buffer): bigint => {
+  if (bytes.length === 0) return 0n;
+  const value = BigInt(`0x${bytes.toString('hex')}`);
+  return bytes[0]! & 0x80 ? value - (1n << BigInt(bytes.length * 8)) : value;
+};
+
+// Stored value to the value records carry
+const convertValue = (value: unknown, column: ParquetColumn): unknown => {
+  const logical = column.logicalType;
+
+  if (column.type === INT96) {
+    return new Date(value as number).toISOString();
+  }
+
+  const timestamp = logical?.[8] as ThriftStruct | undefined;
+  const unit = timestamp
+    ? Object.keys(timestamp[2] as ThriftStruct ?? {})[0]
+    : column.convertedType === TIMESTAMP_MILLIS ? '1' : column.convertedType === TIMESTAMP_MICROS ? '2' : undefined;
+
+  if (unit !== undefined && (typeof value === 'bigint' || typeof value === 'number')) {
+    const divisor = unit === '1' ? 1n : unit === '2' ? 1000n : 1000000n;
+    return new Date(Number(BigInt(value) / divisor)).toISOString();
+  }
+
+  if ((logical?.[6] !== undefined || column.convertedType === DATE) && typeof value === 'number') {
+    return new Date(value * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  if (logical?.[5] !== undefined || column.convertedType === DECIMAL) {
+    const unscaled = Buffer.isBuffer(value) ? signedBigInt(value) : BigInt(value as number | bigint);
+    return Number(unscaled) / 10 ** column.scale;
+  }
+
+  if (typeof value === 'bigint') return Number(value);
+  if (Buffer.isBuffer(value)) return value.toString('utf8');
+  return value;
+};
+
+const readFooter = async (source: ParquetSource): Promise<ThriftStruct> => {
+  if (source.size < 12) throw invalid('Not a Parquet file');
+
+  const tail = await source.read(source.size - 8, 8);
+  const header = await source.read(0, 4);
+
+  if (tail.subarray(4).toString('latin1') !== MAGIC || header.toString('latin1') !== MAGIC) {
+    throw invalid('Not a Parquet file');
+  }
+
+  const length = tail.readUInt32LE(0);
+  if (length > source.size - 12) throw invalid('Corrupt Parquet footer');
+
+  return new ThriftReader(await source.read(source.size - 8 - length, length)).struct();
+};
+
+// Leaf columns of the schema, a depth-first list of its elements
+const schemaColumns = (elements: ThriftStruct[]): ParquetColumn[] => {
+  const columns: ParquetColumn[] = [];
+  let index = 1;
+
+  const visit = (path: string[], definition: number, repetition: number) => {
+    const element = elements[index++];
+    if (!element) throw invalid('Corrupt Parquet schema');
+
+    const name = text(element[4]) ?? '';
+    const repetitionType = int(element[3]) ?? 0;
+    const def = definition + (repetitionType === 0 ? 0 : 1);
+    const rep = repetition + (repetitionType === 2 ? 1 : 0);
+    const children = int(element[5]) ?? 0;
+    const convertedType = int(element[6]);
+    const decimal = (element[10] as ThriftStruct | undefined)?.[5] as ThriftStruct | undefined;
+
+    if (children > 0) {
+      for (let i = 0; i < children; i++) visit([...path, name], def, rep);
+      return;
+    }
+
+    columns.push({
+      path: [...path, name].join('.'),
+      type: int(element[1]) ?? BYTE_ARRAY,
+      typeLength: int(element[2]) ?? 0,
+      maxDefinitionLevel: def,
+      maxRepetitionLevel: rep,
+      ...(convertedType !== undefined && { convertedType }),
+      ...(element[10] !== undefined && { logicalType: element[10] as ThriftStruct }),
+      scale: int(decimal?.[1]) ?? int(element[7]) ?? 0,
+    });
+  };
+
+  const root = elements[0];
+  for (let i = 0; i < (int(root?.[5]) ?? 0); i++) visit([], 0, 0);
+
+  return columns;
+};
+
+export const openParquet = async (source: ParquetSource): Promise<ParquetFile> => {
+  const footer = await readFooter(source);
+
+  return {
+    numRows: int(footer[3]) ?? 0,
+    columns: schemaColumns(structs(footer[2])),
+    rowGroups: structs(footer[4]),
+  };
+};
+
+// Page header at offset, read with a window that grows when the header
+// (statistics included) does not fit
+const readPageHeader = async (
+  source: ParquetSource,
+  column: ParquetColumn,
+  offset: number,
+  end: number
+): Promise<{ header: ThriftStruct; length: number }> => {
+  for (let window = PAGE_HEADER_BYTES; ; window *= 2) {
+    const length = Math.min(window, MAX_PAGE_HEADER_BYTES, end - offset);
+    const reader = new ThriftReader(await source.read(offset, length));
+
+    try {
+      return { header: reader.struct(), length: reader.offset };
+    } catch (error) {
+      if (length === window) continue;
+      if (error instanceof Error && 'statusCode' in error) {
+        throw invalid(`Corrupt page header in Parquet column ${column.path}`);
+      }
+      throw error;
+    }
+  }
+};
+
+const decompressPage = (
+  decompress: (data: Buffer, size: number) => Buffer,
+  data: Buffer,
+  size: number,
+  column: ParquetColumn
+): Buffer => {
+  try {
+    return decompress(data, size);
+  } catch (error) {
+    // zlib fails with its own errors on corrupt or oversized data
+    if (error instanceof Error && 'statusCode' in error) throw error;
+    throw invalid(`Corrupt compressed page in Parquet column ${column.path}`);
+  }
+};
+
+// Values of one column chunk, null where a value is absent, a data page at
+// a time. Only the page being decoded (and the dictionary) is held.
+async function* readColumnPages(
+  source: ParquetSource,
+  column: ParquetColumn,
+  metadata: ThriftStruct
+): AsyncGenerator<unknown[]> {
+  const codec = int(metadata[4]) ?? 0;
+  const decompress = CODECS[codec];
+
+  if (!decompress) {
+    throw invalid(`Parquet compression ${CODEC_NAMES[codec] ?? codec} is not supported (column ${column.path})`);
+  }
+
+  const dataOffset = int(metadata[9]) ?? 0;
+  const dictionaryOffset = int(metadata[11]);
+  const start = dictionaryOffset !== undefined && dictionaryOffset > 0 ? Math.min(dictionaryOffset, dataOffset) : dataOffset;
+  const end = start + (int(metadata[7]) ?? 0);
+
+  if (start < 4 || end > source.size) throw invalid(`Corrupt Parquet column chunk ${column.path}`);
+
+  const defWidth = bitWidth(column.maxDefinitionLevel);
+  let dictionary: unknown[] | undefined;
+  let offset = start;
+
+  while (offset < end) {
+    const { header, length } = await readPageHeader(source, column, offset, end);
+    const type = int(header[1]);
+    const uncompressedSize = int(header[2]) ?? 0;
+    const compressedSize = int(header[3]) ?? 0;
+
+    // Sizes come from the file; they are checked before anything is allocated
+    if (uncompressedSize < 0 || compressedSize < 0 || offset + length + compressedSize > end) {
+      throw invalid(`Corrupt page header in Parquet column ${column.path}`);
+    }
+    if (uncompressedSize > MAX_PAGE_BYTES || compressedSize > MAX_PAGE_BYTES) {
+      throw invalid(`Parquet page in column ${column.path} is larger than ${MAX_PAGE_BYTES / 1024 / 1024} MB`);
+    }
+
+    const page = await source.read(offset + length, compressedSize);
+    offset += length + compressedSize;
+
+    if (type === DICTIONARY_PAGE) {
+      const count = int((header[7] as ThriftStruct)?.[1]) ?? 0;
+      dictionary = decodePlain(decompressPage(decompress, page, uncompressedSize, column), column, count);
+      continue;
+    }
+
+    let count: number;
+    let encoding: number;
+    let levels: number[] | undefined;
+    let body: Buffer;
+
+    if (type === DATA_PAGE) {
+      const pageHeader = header[5] as ThriftStruct;
+      count = int(pageHeader?.[1]) ?? 0;
+      encoding = int(pageHeader?.[2]) ?? PLAIN;
+      body = decompressPage(decompress, page, uncompressedSize, column);
+
+      if (column.maxDefinitionLevel > 0) {
+        if (body.length < 4) throw invalid(`Truncated levels in Parquet column ${column.path}`);
+        const levelsLength = body.readUInt32LE(0);
+        levels = decodeHybrid(body.subarray(4, 4 + levelsLength), defWidth, count);
+        body = body.subarray(4 + levelsLength);
+      }
+    } else if (type === DATA_PAGE_V2) {
+      const pageHeader = header[8] as ThriftStruct;
+      count = int(pageHeader?.[1]) ?? 0;
+      encoding = int(pageHeader?.[4]) ?? PLAIN;
+      const defLength = int(pageHeader?.[5]) ?? 0;
+      const repLength = int(pageHeader?.[6]) ?? 0;
+
+      // Levels are never compressed in v2 pages
+      if (column.maxDefinitionLevel > 0) {
+        levels = decodeHybrid(page.subarray(repLength, repLength + defLength), defWidth, count);
+      }
+      const values = page.subarray(repLength + defLength);
+      body = pageHeader?.[7] === false ? values : decompressPage(decompress, values, uncompressedSize - repLength - defLength, column);
+    } else {
+      continue;
+    }
+
+    const present = levels ? levels.filter(level => level === column.maxDefinitionLevel).length : count;
+    let pageValues: unknown[];
+
+    if (encoding === PLAIN) {
+      pageValues = decodePlain(body, column, present);
+    } else if (encoding === PLAIN_DICTIONARY || encoding === RLE_DICTIONARY) {
+      if (!dictionary) throw invalid(`Parquet column ${column.path} has no dictionary page`);
+      pageValues = decodeHybrid(body.subarray(1), body[0] ?? 0, present).map(index => {
+        if (index >= dictionary!.length) throw invalid(`Corrupt dictionary index in Parquet column ${column.path}`);
+        return dictionary![index];
+      });
+    } else if (encoding === RLE && column.type === BOOLEAN) {
+      pageValues = decodeHybrid(body.subarray(4), 1, present).map(value => value === 1);
+    } else {
+      throw invalid(`Parquet encoding ${encoding} is not supported (column ${column.path})`);
+    }
+
+    const values: unknown[] = [];
+    let next = 0;
+    for (let i = 0; i < count; i++) {
+      values.push(!levels || levels[i] === column.maxDefinitionLevel ? convertValue(pageValues[next++], column) : null);
+    }
+
+    yield values;
+  }
+}
+
+// Values of a column chunk taken in runs that need not line up with its pages
+class ColumnCursor {
+  private page: unknown[] = [];
+  private position = 0;
+
+  constructor(private readonly column: ParquetColumn, private readonly pages: AsyncGenerator<unknown[]>) {}
+
+  async take(count: number): Promise<unknown[]> {
+    const values: unknown[] = [];
+
+    while (values.length < count) {
+      if (this.position === this.page.length) {
+        const next = await this.pages.next();
+        if (next.done) throw invalid(`Parquet column ${this.column.path} has fewer values than rows`);
+        this.page = next.value;
+        this.position = 0;
+        continue;
+      }
+
+      const end = Math.min(this.page.length, this.position + count - values.length);
+      values.push(...this.page.slice(this.position, end));
+      this.position = end;
+    }
+
+    return values;
+  }
+}
+
+// Records of the file with the given columns, in batches of up to
+// batchRows; a batch does not span row groups
+export async function* readParquetRows(
+  source: ParquetSource,
+  file: ParquetFile,
+  paths: string[],
+  batchRows: number
+): AsyncGenerator<PullRecord[]> {
+  const columns = file.columns.filter(column => paths.includes(column.path));
+
+  for (const column of columns) {
+    if (column.maxRepetitionLevel > 0) {
+      throw invalid(`Parquet column ${column.path} is repeated; only flat columns are supported`);
+    }
+  }
+
+  for (const rowGroup of file.rowGroups) {
+    const numRows = int(rowGroup[3]) ?? 0;
+    const chunks = structs(rowGroup[1]);
+
+    const cursors = columns.map(column => {
+      const chunk = chunks.find(candidate => {
+        const path = (candidate[3] as ThriftStruct | undefined)?.[3];
+        return Array.isArray(path) && path.map(part => text(part)).join('.') === column.path;
+      });
+
+      if (!chunk) throw invalid(`Parquet row group without column ${column.path}`);
+      if (chunk[1] !== undefined) throw invalid('Parquet files with external column chunks are not supported');
+
+      return new ColumnCursor(column, readColumnPages(source, column, chunk[3] as ThriftStruct));
+    });
+
+    for (let start = 0; start < numRows; start += batchRows) {
+      const count = Math.min(batchRows, numRows - start);
+      const values: unknown[][] = [];
+
+      for (const cursor of cursors) {
+        values.push(await cursor.take(count));
+      }
+
+      const records: PullRecord[] = [];
+      for (let row = 0; row < count; row++) {
+        records.push(Object.fromEntries(columns.map((column, i) => [column.path, values[i]![row]])));
+      }
+
+      yield records;
+    }
+  }
+}
@@ -0,0 +1,627 @@
+import { prisma } from '../db.js';
+import {
+  validateTelemetryBatch,
+  clampValues,
+  normalizeTelemetry,
+  normalizeNumber,
+  generateRowHash,
+  storedRowHashInput,
+  findOutOfRangeValue,
+  NormalizedTelemetry,
+  RawTelemetryInput,
+  StoredTelemetry,
+  REGISTER_DECIMALS,
+  SITE_DEVICE_ID,
+} from '../model/telemetry.js';
+import { verifyRowSignature, isSignatureAlgorithm } from '../model/signature.js';
+import { IngestScope, isSiteInScope } from '../model/credentials.js';
+import { convertRegisterReading, DEFAULT_METER_SETTINGS, MeterSettings, RegisterConversion } from '../model/meter.js';
+import { createError, formatDate, getDigestPeriod } from '../util/index.js';
+
+// Ingestion pipeline shared by the HTTP, MQTT and pull sources:
+// device check -> clamp -> cumulative register conversion -> normalize and
+// hash -> signature check -> insert or revise. Steps take the client to run on, so a batch can
+// run them inside one transaction.
+
+// created: new row; unchanged: identical to the stored row; duplicate: uniqKey
+// already ingested with the same content; revised: replaced the stored row,
+// whose version was kept in TelemetryRevision; rejected: see reason
+export type IngestRowStatus = 'created' | 'unchanged' | 'duplicate' | 'revised' | 'rejected';
+
+// Who replaced a row version: an ingestion source or an admin correction
+export type ChangeSource = 'http' | 'mqtt' | 'pull' | 'modbus' | 'admin';
+
+// Values an admin correction may set; null clears a value
+export interface TelemetryCorrection {
+  acEnergyKWh?: number | null | undefined;
+  acPowerKw?: number | null | undefined;
+  poaIrrWm2?: number | null | undefined;
+  tempC?: number | null | undefined;
+  windMps?: number | null | undefined;
+  status?: 'OK' | 'OUTAGE' | 'CURTAILED' | null | undefined;
+}
+
+export interface CorrectionResult {
+  siteId: string;
+  deviceId: string;
+  tsUtc: Date;
+  revision: number; // version number of the corrected row
+  rowHash: string;
+  previousRowHash: string;
+  anchoredDay?: string | undefined; // anchored digest still committing the previous version
+}
+
+interface SigningDevice {
+  publicKey: string | null;
+  keyAlgorithm: string | null;
+}
+
+interface AnchoredDigest {
+  siteId: string;
+  dayUtc: Date;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  timezone: string;
+}
+
+// Outcome of one item of an ingest batch, by its index in the request
+export interface IngestRowResult {
+  index: number;
+  status: IngestRowStatus;
+  siteId?: string;
+  deviceId?: string;
+  tsUtc?: string;
+  rowHash?: string;
+  reason?: string; // rejected rows only
+}
+
+const rowKey = (siteId: string, deviceId: string, tsUtc: Date): string => {
+  return `${siteId}|${deviceId}|${tsUtc.toISOString()}`;
+};
+
+// Interval energy for a cumulative register reading, derived from the
+// previous stored reading of the same device
+const convertRegister = async (
+  input: RawTelemetryInput & { acEnergyRegisterKWh: number },
+  deviceId: string,
+  meterSerial: string | undefined,
+  settings: MeterSettings,
+  db = prisma
+): Promise<RegisterConversion> => {
+  const tsUtc = new Date(input.tsUtc);
+
+  const [previous, existing, later] = await Promise.all([
+    db.rawTelemetry.findFirst({
+      where: {
+        siteId: input.siteId,
+        deviceId,
+        tsUtc: { lt: tsUtc },
+        acEnergyRegisterKWh: { not: null },
+      },
+      orderBy: { tsUtc: 'desc' },
+    }),
+    db.rawTelemetry.findUnique({
+      where: {
+        siteId_deviceId_tsUtc: {
+          siteId: input.siteId,
+          deviceId,
+          tsUtc,
+        },
+      },
+    }),
+    db.rawTelemetry.count({
+      where: {
+        siteId: input.siteId,
+        deviceId,
+        tsUtc: { gt: tsUtc },
+        acEnergyRegisterKWh: { not: null },
+      },
+    }),
+  ]);
+
+  // A re-sent reading keeps the conversion it was stored with
+  if (
+    existing &&
+    existing.acEnergyRegisterKWh === normalizeNumber(input.acEnergyRegisterKWh, REGISTER_DECIMALS) &&
+    (existing.meterSerial ?? undefined) === meterSerial
+  ) {
+    return {
+      acEnergyKWh: existing.acEnergyKWh ?? undefined,
+      event: existing.registerEvent ?? undefined,
+    };
+  }
+
+  return convertRegisterReading(
+    { tsUtc, registerKWh: input.acEnergyRegisterKWh, meterSerial },
+    previous ? {
+      tsUtc: previous.tsUtc,
+      registerKWh: previous.acEnergyRegisterKWh,
+      meterSerial: previous.meterSerial,
+    } : null,
+    settings,
+    later > 0
+  );
+};
+
+// Clamp, convert a register reading and normalize. The device must already
+// be known to be registered. Signed rows are stored as signed: they are not
+// clamped and get no meter serial from the site's meter config.
+const prepareTelemetry = async (input: RawTelemetryInput, db = prisma): Promise<NormalizedTelemetry> => {
+  const signed = input.signature !== undefined;
+  const clamped = signed ? input : clampValues(input);
+  const deviceId = clamped.deviceId ?? SITE_DEVICE_ID;
+
+  if (clamped.acEnergyRegisterKWh === undefined) {
+    return normalizeTelemetry(clamped);
+  }
+
+  const meter = await db.meterConfig.findUnique({
+    where: { siteId: clamped.siteId },
+  });
+
+  // Readings without a serial belong to the meter configured for the site
+  const meterSerial = clamped.meterSerial ?? (signed ? undefined : meter?.meterSerial ?? undefined);
+
+  const conversion = await convertRegister(
+    { ...clamped, acEnergyRegisterKWh: clamped.acEnergyRegisterKWh },
+    deviceId,
+    meterSerial,
+    meter ? {
+      registerMaxKWh: meter.registerMaxKWh,
+      multiplier: meter.multiplier,
+      maxIntervalKWh: meter.maxIntervalKWh,
+    } : DEFAULT_METER_SETTINGS,
+    db
+  );
+
+  return {
+    ...normalizeTelemetry({ ...clamped, meterSerial, acEnergyKWh: conversion.acEnergyKWh }),
+    registerEvent: conversion.event,
+  };
+};
+
+// Stored columns of a normalized row besides its key. Absent values are
+// null so a revision clears them.
+const rowData = (normalized: NormalizedTelemetry, credentialId: string | null) => {
+  return {
+    poaIrrWm2: normalized.poaIrrWm2 ?? null,
+    tempC: normalized.tempC ?? null,
+    windMps: normalized.windMps ?? null,
+    acPowerKw: normalized.acPowerKw ?? null,
+    acEnergyKWh: normalized.acEnergyKWh ?? null,
+    acEnergyRegisterKWh: normalized.acEnergyRegisterKWh ?? null,
+    meterSerial: normalized.meterSerial ?? null,
+    registerEvent: normalized.registerEvent ?? null,
+    status: normalized.status ?? null,
+    rowHash: normalized.rowHash,
+    hashVersion: normalized.hashVersion,
+    source: normalized.source,
+    uniqKey: normalized.uniqKey ?? null,
+    signature: normalized.signature ?? null,
+    credentialId,
+  };
+};
+
+// Reason to reject a row over its signature, if any. Rows of a device with
+// a registered key must be signed by it, as must every row of a site that
+// requires signed telemetry.
+const checkSignature = (
+  normalized: NormalizedTelemetry,
+  device: SigningDevice | undefined,
+  signatureRequired: boolean
+): string | undefined => {
+  if (normalized.signature === undefined) {
+    if (device?.publicKey) {
+      return `Rows of device ${normalized.deviceId} must be signed`;
+    }
+    return signatureRequired ? `Site ${normalized.siteId} requires signed telemetry` : undefined;
+  }
+
+  if (!device?.publicKey || !isSignatureAlgorithm(device.keyAlgorithm)) {
+    return `Device ${normalized.deviceId} has no registered public key`;
+  }
+
+  if (!verifyRowSignature(storedRowHashInput(normalized), normalized.signature, device.publicKey, device.keyAlgorithm)) {
+    return `Invalid signature for device ${normalized.deviceId}`;
+  }
+
+  return undefined;
+};
+
+// Insert a normalized row
+const storeTelemetry = async (normalized: NormalizedTelemetry, credentialId: string | null, db = prisma) => {
+  return db.rawTelemetry.create({
+    data: {
+      siteId: normalized.siteId,
+      deviceId: normalized.deviceId,
+      tsUtc: normalized.tsUtc,
+      ...rowData(normalized, credentialId),
+    },
+  });
+};
+
+// Replace a stored row, appending the version it replaces to the row's
+// history. Stored rows are never changed any other way.
+const reviseTelemetry = async (
+  stored: StoredTelemetry,
+  normalized: NormalizedTelemetry,
+  changeSource: ChangeSource,
+  reason: string,
+  credentialId: string | null,
+  db = prisma
+) => {
+  const supersededAt = new Date();
+
+  await db.telemetryRevision.create({
+    data: {
+      siteId: stored.siteId,
+      deviceId: stored.deviceId,
+      tsUtc: stored.tsUtc,
+      revision: stored.revision,
+      poaIrrWm2: stored.poaIrrWm2,
+      tempC: stored.tempC,
+      windMps: stored.windMps,
+      acPowerKw: stored.acPowerKw,
+      acEnergyKWh: stored.acEnergyKWh,
+      acEnergyRegisterKWh: stored.acEnergyRegisterKWh,
+      meterSerial: stored.meterSerial,
+      registerEvent: stored.registerEvent,
+      status: stored.status,
+      rowHash: stored.rowHash,
+      hashVersion: stored.hashVersion,
+      source: stored.source,
+      uniqKey: stored.uniqKey,
+      signature: stored.signature,
+      credentialId: stored.credentialId,
+      recordedAt: stored.revisedAt ?? stored.createdAt,
+      supersededAt,
+      changeSource,
+      reason,
+    },
+  });
+
+  return db.rawTelemetry.update({
+    where: { id: stored.id },
+    data: {
+      ...rowData(normalized, credentialId),
+      revision: stored.revision + 1,
+      revisedAt: supersededAt,
+    },
+  });
+};
+
+// Anchored digests of the given sites that may cover [from, to]. Local-day
+// digests are labelled by their local date, so the day range is widened.
+const loadAnchoredDigests = async (
+  siteIds: string[],
+  from: Date,
+  to: Date,
+  db = prisma
+): Promise<AnchoredDigest[]> => {
+  const day = 24 * 60 * 60 * 1000;
+  return db.dailyDigest.findMany({
+    where: {
+      siteId: { in: siteIds },
+      anchored: true,
+      dayUtc: {
+        gte: new Date(from.getTime() - 2 * day),
+        lte: new Date(to.getTime() + day),
+      },
+    },
+    select: { siteId: true, dayUtc: true, periodStart: true, periodEnd: true, timezone: true },
+  });
+};
+
+// Day of the anchored digest whose period contains tsUtc, if any
+const findAnchoredDay = (digests: AnchoredDigest[], siteId: string, tsUtc: Date): string | undefined => {
+  const digest = digests.find(d => {
+    if (d.siteId !== siteId) return false;
+    const period = getDigestPeriod(d);
+    return tsUtc >= period.start && tsUtc < period.end;
+  });
+  return digest ? formatDate(digest.dayUtc) : undefined;
+};
+
+// Ingest a batch. Items are validated and rejected individually; accepted
+// rows are written in one transaction with a single createMany. Re-sent
+// identical rows are reported unchanged (or duplicate, when matched by
+// uniqKey). A row with different values revises the stored row. New and
+// revised rows of a period an anchored digest covers are rejected: the digest
+// is final and stored rows only change through an admin correction.
+// With a scope, rows of sites outside it are rejected and stored rows record
+// the submitting credential.
+export const ingestBatch = async (items: unknown[], scope?: IngestScope): Promise<IngestRowResult[]> => {
+  const { accepted: validated, rejected } = validateTelemetryBatch(items);
+  const results: IngestRowResult[] = [];
+  const credentialId = scope?.credentialId ?? null;
+
+  for (const { index, reason } of rejected) {
+    results[index] = { index, status: 'rejected', reason };
+  }
+
+  const inScope = validated.filter(({ index, input }) => {
+    if (scope && !isSiteInScope(scope, input.siteId)) {
+      results[index] = { index, status: 'rejected', reason: `Site ${input.siteId} is outside the credential's scope` };
+      return false;
+    }
+    return true;
+  });
+
+  const accepted = inScope.map(({ index, input }) => ({
+    index,
+    input,
+    key: rowKey(input.siteId, input.deviceId ?? SITE_DEVICE_ID, new Date(input.tsUtc)),
+  }));
+
+  if (accepted.length === 0) {
+    return results;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    // Sites, registered devices and stored rows of the whole batch (by key
+    // or by uniqKey), one query each
+    const siteIds = [...new Set(accepted.map(a => a.input.siteId))];
+    const sites = await tx.site.findMany({
+      where: { id: { in: siteIds }, requireSignedTelemetry: true },
+      select: { id: true },
+    });
+    const signedSites = new Set(sites.map(site => site.id));
+
+    const devices = await tx.device.findMany({
+      where: { siteId: { in: siteIds } },
+      select: { siteId: true, deviceId: true, publicKey: true, keyAlgorithm: true },
+    });
+    const knownDevices = new Map<string, SigningDevice>(devices.map(d => [`${d.siteId}|${d.deviceId}`, d]));
+
+    const existing = await tx.rawTelemetry.findMany({
+      where: {
+        OR: accepted.flatMap(({ input }) => [
+          {
+            siteId: input.siteId,
+            deviceId: input.deviceId ?? SITE_DEVICE_ID,
+            tsUtc: new Date(input.tsUtc),
+          },
+          ...(input.uniqKey !== undefined ? [{ siteId: input.siteId, uniqKey: input.uniqKey }] : []),
+        ]),
+      },
+    });
+    const byKey = new Map<string, StoredTelemetry>(existing.map(r => [rowKey(r.siteId, r.deviceId, r.tsUtc), r]));
+    const byUniqKey = new Map<string, StoredTelemetry>(existing.filter(r => r.uniqKey !== null).map(r => [`${r.siteId}|${r.uniqKey}`, r]));
+
+    const times = accepted.map(a => Date.parse(a.input.tsUtc));
+    const anchored = await loadAnchoredDigests(siteIds, new Date(Math.min(...times)), new Date(Math.max(...times)), tx);
+
+    const classify = (index: number, key: string, normalized: NormalizedTelemetry): IngestRowStatus => {
+      const sameContent = (row: StoredTelemetry) =>
+        generateRowHash(storedRowHashInput(row), normalized.hashVersion) === normalized.rowHash;
+
+      const original = normalized.uniqKey !== undefined
+        ? byUniqKey.get(`${normalized.siteId}|${normalized.uniqKey}`)
+        : undefined;
+      const stored = byKey.get(key);
+
+      if (original) {
+        if (rowKey(original.siteId, original.deviceId, original.tsUtc) !== key || !sameContent(original)) {
+          results[index] = {
+            index,
+            status: 'rejected',
+            reason: `uniqKey ${normalized.uniqKey} was already used for a different row (${original.tsUtc.toISOString()}, rowHash ${original.rowHash})`,
+          };
+          return 'rejected';
+        }
+
+        // Replay: report the row stored for this uniqKey
+        results[index] = {
+          index,
+          status: 'duplicate',
+          siteId: original.siteId,
+          deviceId: original.deviceId,
+          tsUtc: original.tsUtc.toISOString(),
+          rowHash: original.rowHash,
+        };
+        return 'duplicate';
+      }
+
+      if (!stored || !sameContent(stored)) {
+        const anchoredDay = findAnchoredDay(anchored, normalized.siteId, normalized.tsUtc);
+        if (anchoredDay) {
+          results[index] = {
+            index,
+            status: 'rejected',
+            reason: stored
+              ? `Conflicts with the stored row (rowHash ${stored.rowHash}) of anchored digest ${anchoredDay}; anchored rows only change through admin corrections`
+              : `Falls within anchored digest ${anchoredDay}; anchored days take no new rows`,
+          };
+          return 'rejected';
+        }
+      }
+
+      const status = !stored ? 'created' : sameContent(stored) ? 'unchanged' : 'revised';
+      results[index] = {
+        index,
+        status,
+        siteId: normalized.siteId,
+        deviceId: normalized.deviceId,
+        tsUtc: normalized.tsUtc.toISOString(),
+        rowHash: stored && status === 'unchanged' ? stored.rowHash : normalized.rowHash,
+      };
+      return status;
+    };
+
+    const verified = (index: number, normalized: NormalizedTelemetry): boolean => {
+      const reason = checkSignature(
+        normalized,
+        knownDevices.get(`${normalized.siteId}|${normalized.deviceId}`),
+        signedSites.has(normalized.siteId)
+      );
+      if (reason) {
+        results[index] = { index, status: 'rejected', reason };
+        return false;
+      }
+      return true;
+    };
+
+    const revise = (key: string, normalized: NormalizedTelemetry) => {
+      return reviseTelemetry(byKey.get(key)!, normalized, normalized.source as ChangeSource, 'Re-sent with different values', credentialId, tx);
+    };
+
+    const creates: NormalizedTelemetry[] = [];
+    const revisions: { key: string; normalized: NormalizedTelemetry }[] = [];
+    const registerReadings: typeof accepted = [];
+
+    for (const item of accepted) {
+      const deviceId = item.input.deviceId ?? SITE_DEVICE_ID;
+      if (deviceId !== SITE_DEVICE_ID && !knownDevices.has(`${item.input.siteId}|${deviceId}`)) {
+        results[item.index] = {
+          index: item.index,
+          status: 'rejected',
+          reason: `Unknown device ${deviceId} for site ${item.input.siteId}`,
+        };
+        continue;
+      }
+
+      // Signed rows are stored as signed, so they are rejected rather than
+      // clamped
+      const signed = item.input.signature !== undefined;
+      const outOfRange = signed ? findOutOfRangeValue(item.input) : undefined;
+      if (outOfRange) {
+        results[item.index] = {
+          index: item.index,
+          status: 'rejected',
+          reason: `${outOfRange} is outside the accepted range`,
+        };
+        continue;
+      }
+
+      if (item.input.acEnergyRegisterKWh !== undefined) {
+        registerReadings.push(item);
+        continue;
+      }
+
+      const normalized = normalizeTelemetry(signed ? item.input : clampValues(item.input));
+      if (!verified(item.index, normalized)) {
+        continue;
+      }
+
+      const status = classify(item.index, item.key, normalized);
+      if (status === 'created') {
+        creates.push(normalized);
+      } else if (status === 'revised') {
+        revisions.push({ key: item.key, normalized });
+      }
+    }
+
+    if (creates.length > 0) {
+      await tx.rawTelemetry.createMany({
+        data: creates.map(normalized => ({
+          siteId: normalized.siteId,
+          deviceId: normalized.deviceId,
+          tsUtc: normalized.tsUtc,
+          ...rowData(normalized, credentialId),
+        })),
+      });
+    }
+
+    for (const { key, normalized } of revisions) {
+      await revise(key, normalized);
+    }
+
+    // A register reading is converted against the previous reading of its
+    // device, which may be an earlier item of this batch: convert and write
+    // them one at a time in timestamp order
+    registerReadings.sort((a, b) => Date.parse(a.input.tsUtc) - Date.parse(b.input.tsUtc));
+
+    for (const item of registerReadings) {
+      const normalized = await prepareTelemetry(item.input, tx);
+      if (!verified(item.index, normalized)) {
+        continue;
+      }
+
+      const status = classify(item.index, item.key, normalized);
+      if (status === 'created') {
+        await storeTelemetry(normalized, credentialId, tx);
+      } else if (status === 'revised') {
+        await revise(item.key, normalized);
+      }
+    }
+  });
+
+  return results;
+};
+
+// Ingest a single untrusted record, throwing when it is rejected
+export const ingestRecord = async (input: unknown): Promise<IngestRowResult> => {
+  const [result] = await ingestBatch([input]);
+
+  if (!result || result.status === 'rejected') {
+    throw createError(result?.reason ?? 'Telemetry rejected', 'TELEMETRY_REJECTED', 400);
+  }
+
+  return result;
+};
+
+// Correct a stored row on behalf of an admin. This is the only way to change
+// a row covered by an anchored digest; the digest is never recomputed and
+// keeps committing the previous version. The corrected row carries no
+// device signature; the signed version stays in the row's history.
+export const correctTelemetry = async (
+  siteId: string,
+  deviceId: string,
+  tsUtc: Date,
+  changes: TelemetryCorrection,
+  reason: string
+): Promise<CorrectionResult> => {
+  return prisma.$transaction(async (tx) => {
+    const stored = await tx.rawTelemetry.findUnique({
+      where: {
+        siteId_deviceId_tsUtc: { siteId, deviceId, tsUtc },
+      },
+    });
+
+    if (!stored) {
+      throw createError('Telemetry row not found', 'TELEMETRY_NOT_FOUND', 404);
+    }
+
+    const pick = <T>(change: T | null | undefined, current: T | null): T | undefined => {
+      return change === undefined ? current ?? undefined : change ?? undefined;
+    };
+
+    // Register readings keep their register and conversion event; only the
+    // values below can be corrected
+    const normalized: NormalizedTelemetry = {
+      ...normalizeTelemetry({
+        siteId,
+        deviceId,
+        tsUtc: tsUtc.toISOString(),
+        acEnergyKWh: pick(changes.acEnergyKWh, stored.acEnergyKWh),
+        acPowerKw: pick(changes.acPowerKw, stored.acPowerKw),
+        poaIrrWm2: pick(changes.poaIrrWm2, stored.poaIrrWm2),
+        tempC: pick(changes.tempC, stored.tempC),
+        windMps: pick(changes.windMps, stored.windMps),
+        acEnergyRegisterKWh: stored.acEnergyRegisterKWh ?? undefined,
+        meterSerial: stored.meterSerial ?? undefined,
+        status: pick(changes.status, stored.status),
+        source: stored.source,
+        uniqKey: stored.uniqKey ?? undefined,
+      }),
+      registerEvent: stored.registerEvent ?? undefined,
+    };
+
+    if (generateRowHash(storedRowHashInput(stored), normalized.hashVersion) === normalized.rowHash) {
+      throw createError('Correction does not change the row', 'NO_CHANGE', 400);
+    }
+
+    const anchored = await loadAnchoredDigests([siteId], tsUtc, tsUtc, tx);
+    const row = await reviseTelemetry(stored, normalized, 'admin', reason, null, tx);
+
+    return {
+      siteId,
+      deviceId,
+      tsUtc,
+      revision: row.revision,
+      rowHash: row.rowHash,
+      previousRowHash: stored.rowHash,
+      anchoredDay: findAnchoredDay(anchored, siteId, tsUtc),
+    };
+  });
+};
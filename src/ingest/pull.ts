@@ -1,112 +1,94 @@
-import { env } from '../config/index.js';
-import { getSiteConfig, getAllSiteConfigs } from '../config/sites.js';
-import { 
-  validateTelemetryInput, 
-  clampValues, 
-  normalizeTelemetry,
-  RawTelemetryInput 
-} from '../model/telemetry.js';
 import { prisma } from '../db.js';
-import { generateRequestId, retryWithBackoff } from '../util/index.js';
+import { env } from '../config/index.js';
+import { ingestRecord } from './pipeline.js';
+import { getPullConnector } from './connectors.js';
+import { mapPullRecord } from './pullMapping.js';
+import { planCatchUp, advanceWatermark } from './watermark.js';
+import { generateRequestId } from '../util/index.js';
+
+export interface PullResult {
+  processedCount: number;
+  latestTsUtc?: Date; // latest row ingested
+}
 
+// Pull ingestion: sites with a pullSource are pulled through the connector
+// of its type (see src/ingest/connectors.ts), either for an explicit window
+// (backfills) or incrementally from the site's watermark (the scheduled
+// pull job, see src/ingest/watermark.ts)
 export class PullIngester {
   constructor(private logger: any) {}
 
-  async pullFromSim(siteId: string, from: Date, to: Date): Promise<number> {
+  // Records that are rejected are logged and skipped; anything else (the
+  // database being unavailable) fails the pull
+  async pullSite(siteId: string, from: Date, to: Date): Promise<PullResult> {
     const requestId = generateRequestId();
-    
+
     try {
-      const siteConfig = getSiteConfig(siteId);
-      if (!siteConfig || !siteConfig.pullEnabled) {
+      const site = await prisma.site.findUnique({
+        where: { id: siteId },
+        select: { id: true, pullSource: true },
+      });
+
+      if (!site || site.pullSource === null) {
         this.logger.warn({ siteId, requestId }, 'Site not configured for pull ingestion');
-        return 0;
+        return { processedCount: 0 };
       }
 
-      if (!env.SIM_BASE_URL) {
-        this.logger.warn({ siteId, requestId }, 'SIM_BASE_URL not configured');
-        return 0;
-      }
+      const connector = getPullConnector(site.pullSource.type);
+      const config = connector.parseConfig(site.pullSource);
 
       this.logger.info({
         siteId,
+        connector: connector.type,
         from: from.toISOString(),
         to: to.toISOString(),
         requestId,
-      }, 'Starting pull from iot-solar-sim');
+      }, 'Starting pull');
 
-      // Fetch data from sim API
-      const simData = await this.fetchFromSim(siteId, from, to);
-      
       let processedCount = 0;
-      
-      for (const dataPoint of simData) {
-        try {
-          const telemetryInput: RawTelemetryInput = {
-            siteId,
-            source: 'pull',
-            tsUtc: dataPoint.timestamp,
-            poaIrrWm2: dataPoint.poaIrrWm2,
-            tempC: dataPoint.tempC,
-            windMps: dataPoint.windMps,
-            acPowerKw: dataPoint.acPowerKw,
-            acEnergyKWh: dataPoint.acEnergyKWh,
-            status: dataPoint.status,
-          };
-
-          const validated = validateTelemetryInput(telemetryInput);
-          const clamped = clampValues(validated);
-          const normalized = normalizeTelemetry(clamped);
-
-          await prisma.rawTelemetry.upsert({
-            where: {
-              siteId_tsUtc: {
-                siteId: normalized.siteId,
-                tsUtc: normalized.tsUtc,
-              },
-            },
-            update: {
-              poaIrrWm2: normalized.poaIrrWm2,
-              tempC: normalized.tempC,
-              windMps: normalized.windMps,
-              acPowerKw: normalized.acPowerKw,
-              acEnergyKWh: normalized.acEnergyKWh,
-              status: normalized.status,
-              rowHash: normalized.rowHash,
-              source: normalized.source,
-            },
-            create: {
-              siteId: normalized.siteId,
-              tsUtc: normalized.tsUtc,
-              poaIrrWm2: normalized.poaIrrWm2,
-              tempC: normalized.tempC,
-              windMps: normalized.windMps,
-              acPowerKw: normalized.acPowerKw,
-              acEnergyKWh: normalized.acEnergyKWh,
-              status: normalized.status,
-              rowHash: normalized.rowHash,
-              source: normalized.source,
-            },
-          });
-
-          processedCount++;
-
-        } catch (error) {
-          this.logger.error({
-            siteId,
-            dataPoint,
-            error: error instanceof Error ? error.message : 'Unknown error',
-            requestId,
-          }, 'Failed to process sim data point');
+      let skippedCount = 0;
+      let latestTsUtc: Date | undefined;
+
+      for await (const records of connector.fetch(siteId, config, { from, to })) {
+        for (const record of records) {
+          try {
+            const telemetryInput = mapPullRecord(siteId, record, config.fields);
+
+            const tsUtc = new Date(telemetryInput.tsUtc);
+            if (tsUtc < from || tsUtc > to) {
+              skippedCount++;
+              continue;
+            }
+
+            await ingestRecord(telemetryInput);
+
+            processedCount++;
+            latestTsUtc = advanceWatermark(latestTsUtc ?? null, tsUtc) ?? undefined;
+
+          } catch (error) {
+            if (!(error instanceof Error && 'statusCode' in error)) {
+              throw error;
+            }
+
+            this.logger.error({
+              siteId,
+              record,
+              error: error instanceof Error ? error.message : 'Unknown error',
+              requestId,
+            }, 'Failed to process pulled record');
+          }
         }
       }
 
       this.logger.info({
         siteId,
+        connector: connector.type,
         processedCount,
+        skippedCount,
         requestId,
-      }, 'Pull from sim completed');
+      }, 'Pull completed');
 
-      return processedCount;
+      return latestTsUtc ? { processedCount, latestTsUtc } : { processedCount };
 
     } catch (error) {
       this.logger.error({
@@ -115,48 +97,104 @@ export class PullIngester {
         to: to.toISOString(),
         error: error instanceof Error ? error.message : 'Unknown error',
         requestId,
-      }, 'Pull from sim failed');
+      }, 'Pull failed');
       throw error;
     }
   }
 
-  private async fetchFromSim(siteId: string, from: Date, to: Date): Promise<any[]> {
-    const url = `${env.SIM_BASE_URL}/api/sites/${siteId}/telemetry`;
-    const params = new URLSearchParams({
-      from: from.toISOString(),
-      to: to.toISOString(),
+  // Pull a site from its watermark up to now, window by window, moving the
+  // watermark on after each. The outcome of the run is recorded with the
+  // watermark for GET /v1/pull/status.
+  async catchUp(siteId: string, now = new Date()): Promise<PullResult> {
+    const state = await prisma.pullWatermark.findUnique({ where: { siteId } });
+    let watermark: Date | null = state?.watermark ?? null;
+
+    const plan = planCatchUp(watermark, now, {
+      overlapMinutes: env.PULL_OVERLAP_MINUTES,
+      initialLookbackHours: env.PULL_INITIAL_LOOKBACK_HOURS,
+      maxWindowHours: env.PULL_MAX_WINDOW_HOURS,
+      maxCatchUpHours: env.PULL_MAX_CATCHUP_HOURS,
     });
 
-    const response = await retryWithBackoff(async () => {
-      const res = await fetch(`${url}?${params}`);
-      if (!res.ok) {
-        throw new Error(`Sim API returned ${res.status}: ${res.statusText}`);
+    if (plan.capped) {
+      this.logger.warn({
+        siteId,
+        watermark: watermark?.toISOString(),
+        maxCatchUpHours: env.PULL_MAX_CATCHUP_HOURS,
+      }, 'Pull gap exceeds PULL_MAX_CATCHUP_HOURS; older data needs a backfill');
+    }
+
+    let processedCount = 0;
+
+    const record = (data: { lastError: string | null; lastSuccessAt?: Date }) => prisma.pullWatermark.upsert({
+      where: { siteId },
+      update: { watermark, lastRunAt: now, lastCount: processedCount, ...data },
+      create: { siteId, watermark, lastRunAt: now, lastCount: processedCount, ...data },
+    });
+
+    try {
+      for (const window of plan.windows) {
+        const result = await this.pullSite(siteId, window.from, window.to);
+        processedCount += result.processedCount;
+        watermark = advanceWatermark(watermark, result.latestTsUtc);
+
+        await prisma.pullWatermark.upsert({
+          where: { siteId },
+          update: { watermark },
+          create: { siteId, watermark },
+        });
       }
-      return res;
+    } catch (error) {
+      await record({ lastError: error instanceof Error ? error.message : 'Unknown error' });
+      throw error;
+    }
+
+    await record({ lastError: null, lastSuccessAt: now });
+
+    return watermark ? { processedCount, latestTsUtc: watermark } : { processedCount };
+  }
+
+  // Incremental pull of every site with a pullSource
+  async catchUpAllSites(now = new Date()): Promise<Record<string, number>> {
+    const results: Record<string, number> = {};
+    const sites = await prisma.site.findMany({
+      select: { id: true, pullSource: true },
+      orderBy: { id: 'asc' },
     });
 
-    const data = await response.json();
-    
-    if (!Array.isArray(data)) {
-      throw new Error('Sim API returned invalid data format');
+    for (const site of sites) {
+      if (site.pullSource !== null) {
+        try {
+          results[site.id] = (await this.catchUp(site.id, now)).processedCount;
+        } catch (error) {
+          this.logger.error({
+            siteId: site.id,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          }, 'Incremental pull failed for site');
+          results[site.id] = 0;
+        }
+      }
     }
 
-    return data;
+    return results;
   }
 
   async pullAllSites(from: Date, to: Date): Promise<Record<string, number>> {
     const results: Record<string, number> = {};
-    const sites = getAllSiteConfigs();
+    const sites = await prisma.site.findMany({
+      select: { id: true, pullSource: true },
+      orderBy: { id: 'asc' },
+    });
 
     for (const site of sites) {
-      if (site.pullEnabled) {
+      if (site.pullSource !== null) {
         try {
-          results[site.id] = await this.pullFromSim(site.id, from, to);
+          results[site.id] = (await this.pullSite(site.id, from, to)).processedCount;
         } catch (error) {
           this.logger.error({
             siteId: site.id,
             error: error instanceof Error ? error.message : 'Unknown error',
-          }, 'Failed to pull from sim for site');
+          }, 'Failed to pull for site');
           results[site.id] = 0;
         }
       }
@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import { RawTelemetryInput } from '../model/telemetry.js';
+import { createError } from '../util/index.js';
+
+// Field mapping of pull sources: which field of a source record (a JSON
+// object or CSV row) holds each telemetry field, and in which unit. A field
+// is given by its path ("data.power", "values.0") or by an object adding the
+// unit, a scale factor and, for tsUtc, the timestamp format:
+//
+//   { "tsUtc": { "path": "time", "format": "epoch-s" },
+//     "acPowerKw": { "path": "P_AC", "unit": "W" },
+//     "acEnergyRegisterKWh": { "path": "E_total", "unit": "MWh" },
+//     "tempC": "temperature" }
+//
+// Timestamps without an offset are taken as UTC.
+
+export type PullRecord = Record<string, unknown>;
+
+const NUMERIC_FIELDS = ['poaIrrWm2', 'tempC', 'windMps', 'acPowerKw', 'acEnergyKWh', 'acEnergyRegisterKWh'] as const;
+const TEXT_FIELDS = ['deviceId', 'meterSerial', 'status', 'uniqKey', 'signature'] as const;
+
+type NumericField = typeof NUMERIC_FIELDS[number];
+
+// Units a source may report each numeric field in, as conversions to the
+// telemetry unit (first entry)
+const FIELD_UNITS: Record<NumericField, Record<string, (value: number) => number>> = {
+  poaIrrWm2: { 'W/m2': v => v, 'kW/m2': v => v * 1000 },
+  tempC: { C: v => v, F: v => (v - 32) * 5 / 9, K: v => v - 273.15 },
+  windMps: { 'm/s': v => v, 'km/h': v => v / 3.6, mph: v => v * 0.44704, kn: v => v * 1852 / 3600 },
+  acPowerKw: { kW: v => v, W: v => v / 1000, MW: v => v * 1000 },
+  acEnergyKWh: { kWh: v => v, Wh: v => v / 1000, MWh: v => v * 1000 },
+  acEnergyRegisterKWh: { kWh: v => v, Wh: v => v / 1000, MWh: v => v * 1000 },
+};
+
+const FieldSourceSchema = z.union([
+  z.string().min(1),
+  z.object({
+    path: z.string().min(1),
+    unit: z.string().min(1).optional(),
+    scale: z.number().finite().optional(),
+  }),
+]);
+
+const TimestampSourceSchema = z.union([
+  z.string().min(1),
+  z.object({
+    path: z.string().min(1),
+    format: z.enum(['iso', 'epoch-s', 'epoch-ms']).default('iso'),
+  }),
+]);
+
+export const FieldMappingSchema = z.object({
+  tsUtc: TimestampSourceSchema,
+  ...Object.fromEntries(NUMERIC_FIELDS.map(field => [field, FieldSourceSchema.optional()])) as Record<NumericField, z.ZodOptional<typeof FieldSourceSchema>>,
+  ...Object.fromEntries(TEXT_FIELDS.map(field => [field, z.string().min(1).optional()])) as Record<typeof TEXT_FIELDS[number], z.ZodOptional<z.ZodString>>,
+}).superRefine((mapping, ctx) => {
+  for (const field of NUMERIC_FIELDS) {
+    const source = mapping[field];
+    if (typeof source === 'object' && source.unit !== undefined && !(source.unit in FIELD_UNITS[field])) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [field, 'unit'],
+        message: `Unit of ${field} must be one of ${Object.keys(FIELD_UNITS[field]).join(', ')}`,
+      });
+    }
+  }
+});
+
+export type FieldMapping = z.infer<typeof FieldMappingSchema>;
+
+// Value at a dotted path; record keys containing dots (CSV headers) are
+// matched whole first
+export const getPath = (record: unknown, path: string): unknown => {
+  if (record !== null && typeof record === 'object' && path in record) {
+    return (record as Record<string, unknown>)[path];
+  }
+
+  return path.split('.').reduce<unknown>((value, key) => {
+    return value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+  }, record);
+};
+
+const isBlank = (value: unknown): boolean => {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+};
+
+const toNumber = (value: unknown, path: string): number => {
+  const number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value.trim()) : NaN;
+  if (!Number.isFinite(number)) {
+    throw createError(`Field ${path} is not a number`, 'INVALID_PULL_RECORD', 400);
+  }
+  return number;
+};
+
+const toTimestamp = (value: unknown, format: 'iso' | 'epoch-s' | 'epoch-ms', path: string): string => {
+  let ms: number;
+
+  if (format === 'iso') {
+    const text = String(value).trim().replace(' ', 'T');
+    ms = Date.parse(/(Z|[+-]\d{2}:?\d{2})$/i.test(text) || !text.includes('T') ? text : `${text}Z`);
+  } else {
+    ms = toNumber(value, path) * (format === 'epoch-s' ? 1000 : 1);
+  }
+
+  if (!Number.isFinite(ms)) {
+    throw createError(`Field ${path} is not a timestamp`, 'INVALID_PULL_RECORD', 400);
+  }
+
+  return new Date(ms).toISOString();
+};
+
+// Paths of the source fields a mapping reads
+export const mappedPaths = (mapping: FieldMapping): string[] => {
+  const paths = [typeof mapping.tsUtc === 'string' ? mapping.tsUtc : mapping.tsUtc.path];
+
+  for (const field of NUMERIC_FIELDS) {
+    const source = mapping[field];
+    if (source !== undefined) paths.push(typeof source === 'string' ? source : source.path);
+  }
+
+  for (const field of TEXT_FIELDS) {
+    const path = mapping[field];
+    if (path !== undefined) paths.push(path);
+  }
+
+  return [...new Set(paths)];
+};
+
+// Telemetry input for one source record; blank fields are left out
+export const mapPullRecord = (siteId: string, record: PullRecord, mapping: FieldMapping): RawTelemetryInput => {
+  const tsSource = typeof mapping.tsUtc === 'string' ? { path: mapping.tsUtc, format: 'iso' as const } : mapping.tsUtc;
+  const tsValue = getPath(record, tsSource.path);
+
+  if (isBlank(tsValue)) {
+    throw createError(`Field ${tsSource.path} is missing`, 'INVALID_PULL_RECORD', 400);
+  }
+
+  const input: RawTelemetryInput = {
+    siteId,
+    source: 'pull',
+    tsUtc: toTimestamp(tsValue, tsSource.format, tsSource.path),
+  };
+
+  for (const field of NUMERIC_FIELDS) {
+    const fieldSource = mapping[field];
+    if (fieldSource === undefined) continue;
+
+    const source = typeof fieldSource === 'string' ? { path: fieldSource } : fieldSource;
+    const value = getPath(record, source.path);
+    if (isBlank(value)) continue;
+
+    const convert = FIELD_UNITS[field][source.unit ?? Object.keys(FIELD_UNITS[field])[0]!]!;
+    input[field] = convert(toNumber(value, source.path) * (source.scale ?? 1));
+  }
+
+  for (const field of TEXT_FIELDS) {
+    const path = mapping[field];
+    if (path === undefined) continue;
+
+    const value = getPath(record, path);
+    if (isBlank(value)) continue;
+
+    (input as Record<string, unknown>)[field] = String(value).trim();
+  }
+
+  return input;
+};
@@ -0,0 +1,128 @@
+import { createHash, createHmac } from 'crypto';
+
+// Requests to S3-compatible object stores (AWS S3, MinIO, Ceph, R2), signed
+// with AWS Signature Version 4. Only what pulling objects needs: listing a
+// prefix (ListObjectsV2) and reading objects.
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export interface S3Object {
+  key: string;
+  lastModified: Date;
+  size: number;
+}
+
+export interface S3ObjectList {
+  objects: S3Object[];
+  nextContinuationToken?: string;
+}
+
+const EMPTY_PAYLOAD_SHA256 = createHash('sha256').update('').digest('hex');
+
+// RFC 3986 encoding, as SigV4 canonical requests use it
+const uriEncode = (value: string): string => {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+};
+
+const hmac = (key: Buffer | string, value: string): Buffer => {
+  return createHmac('sha256', key).update(value, 'utf8').digest();
+};
+
+// Object URL; path-style (endpoint/bucket/key) unless virtual-hosted
+export const s3ObjectUrl = (endpoint: string, bucket: string, key: string, pathStyle: boolean): URL => {
+  const base = new URL(endpoint);
+  const encodedKey = key.split('/').map(uriEncode).join('/');
+
+  if (pathStyle) {
+    return new URL(`${base.origin}/${uriEncode(bucket)}${key ? `/${encodedKey}` : ''}`);
+  }
+
+  return new URL(`${base.protocol}//${bucket}.${base.host}/${encodedKey}`);
+};
+
+// Headers of a SigV4-signed GET request
+export const signS3Request = (
+  url: URL,
+  region: string,
+  credentials: S3Credentials,
+  now = new Date()
+): Record<string, string> => {
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    'x-amz-content-sha256': EMPTY_PAYLOAD_SHA256,
+    'x-amz-date': amzDate,
+  };
+
+  const signedHeaders = Object.keys(headers).sort();
+  const canonicalQuery = [...url.searchParams.entries()]
+    .map(([name, value]) => [uriEncode(name), uriEncode(value)])
+    .sort(([a, x], [b, y]) => a! < b! ? -1 : a! > b! ? 1 : x! < y! ? -1 : x! > y! ? 1 : 0)
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    'GET',
+    url.pathname || '/',
+    canonicalQuery,
+    ...signedHeaders.map(name => `${name}:${headers[name]!.trim()}`),
+    '',
+    signedHeaders.join(';'),
+    EMPTY_PAYLOAD_SHA256,
+  ].join('\n');
+
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    createHash('sha256').update(canonicalRequest, 'utf8').digest('hex'),
+  ].join('\n');
+
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), region)
+  );
+
+  const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+  return {
+    'x-amz-content-sha256': headers['x-amz-content-sha256']!,
+    'x-amz-date': amzDate,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+  };
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXml = (text: string): string => {
+  return text.replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);/gi, (_, entity: string) => {
+    if (entity[0] !== '#') return XML_ENTITIES[entity.toLowerCase()] ?? '';
+    return String.fromCodePoint(entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+  });
+};
+
+const xmlElement = (xml: string, name: string): string | undefined => {
+  const match = xml.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`));
+  return match ? decodeXml(match[1]!) : undefined;
+};
+
+// Objects of a ListObjectsV2 response
+export const parseListObjects = (xml: string): S3ObjectList => {
+  const objects = [...xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)].map(([, contents]) => ({
+    key: xmlElement(contents!, 'Key') ?? '',
+    lastModified: new Date(xmlElement(contents!, 'LastModified') ?? 0),
+    size: Number(xmlElement(contents!, 'Size') ?? 0),
+  }));
+
+  const nextContinuationToken = xmlElement(xml, 'IsTruncated') === 'true'
+    ? xmlElement(xml, 'NextContinuationToken')
+    : undefined;
+
+  return nextContinuationToken === undefined ? { objects } : { objects, nextContinuationToken };
+};
@@ -0,0 +1,410 @@
+import { ChildProcess, spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough, Readable, Writable } from 'stream';
+
+// SFTP (protocol version 3, draft-ietf-secsh-filexfer-02) client. Only what
+// pulling files needs: listing a directory and reading files. The SSH
+// transport is the OpenSSH client started for the sftp subsystem; this
+// module speaks SFTP over its stdin and stdout.
+
+export interface SftpEntry {
+  name: string;
+  size?: number | undefined;
+  modified?: Date | undefined;
+  isFile: boolean;
+}
+
+// Byte streams to and from the server
+export interface SftpChannel {
+  input: Readable;
+  output: Writable;
+  // Why the channel went away, e.g. the last error line of ssh
+  reason?(): string;
+  close?(): Promise<void>;
+}
+
+export interface SftpConnectOptions {
+  host: string;
+  port: number;
+  username: string;
+  privateKey: string;
+  // The server's public key as in known_hosts, e.g. "ssh-ed25519 AAAA..."
+  hostKey: string;
+}
+
+const SFTP_VERSION = 3;
+
+const FXP_INIT = 1;
+const FXP_VERSION = 2;
+const FXP_OPEN = 3;
+const FXP_CLOSE = 4;
+const FXP_READ = 5;
+const FXP_OPENDIR = 11;
+const FXP_READDIR = 12;
+const FXP_STATUS = 101;
+const FXP_HANDLE = 102;
+const FXP_DATA = 103;
+const FXP_NAME = 104;
+
+const FX_OK = 0;
+const FX_EOF = 1;
+const STATUS_NAMES = ['ok', 'end of file', 'no such file', 'permission denied', 'failure', 'bad message', 'no connection', 'connection lost', 'operation unsupported'];
+
+const FXF_READ = 0x1;
+
+const ATTR_SIZE = 0x1;
+const ATTR_UIDGID = 0x2;
+const ATTR_PERMISSIONS = 0x4;
+const ATTR_ACMODTIME = 0x8;
+const ATTR_EXTENDED = 0x80000000;
+
+const S_IFMT = 0o170000;
+const S_IFREG = 0o100000;
+
+// Bytes asked for per READ; servers must answer requests up to 32 KiB
+const READ_BYTES = 32 * 1024;
+// Largest packet accepted from the server
+const MAX_PACKET_BYTES = 1024 * 1024;
+
+const uint32 = (value: number): Buffer => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+};
+
+const uint64 = (value: number): Buffer => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(value));
+  return buffer;
+};
+
+const string = (value: string | Buffer): Buffer => {
+  const bytes = typeof value === 'string' ? Buffer.from(value, 'utf8') : value;
+  return Buffer.concat([uint32(bytes.length), bytes]);
+};
+
+// uint32 length, byte type, then the fields
+export const encodeSftpPacket = (type: number, ...fields: Buffer[]): Buffer => {
+  const body = Buffer.concat([Buffer.from([type]), ...fields]);
+  return Buffer.concat([uint32(body.length), body]);
+};
+
+export class SftpReader {
+  offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  private take(length: number): Buffer {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error('Truncated SFTP packet');
+    }
+    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  byte(): number {
+    return this.take(1).readUInt8(0);
+  }
+
+  uint32(): number {
+    return this.take(4).readUInt32BE(0);
+  }
+
+  uint64(): number {
+    return Number(this.take(8).readBigUInt64BE(0));
+  }
+
+  bytes(): Buffer {
+    return this.take(this.uint32());
+  }
+
+  text(): string {
+    return this.bytes().toString('utf8');
+  }
+
+  // File attributes; only the fields their flags announce are present
+  attrs(): { size?: number; permissions?: number; modified?: Date } {
+    const flags = this.uint32();
+    const attrs: { size?: number; permissions?: number; modified?: Date } = {};
+
+    if (flags & ATTR_SIZE) attrs.size = this.uint64();
+    if (flags & ATTR_UIDGID) this.take(8);
+    if (flags & ATTR_PERMISSIONS) attrs.permissions = this.uint32();
+    if (flags & ATTR_ACMODTIME) {
+      this.uint32();
+      attrs.modified = new Date(this.uint32() * 1000);
+    }
+    if (flags & ATTR_EXTENDED) {
+      for (let count = this.uint32(); count > 0; count--) {
+        this.bytes();
+        this.bytes();
+      }
+    }
+
+    return attrs;
+  }
+}
+
+interface SftpResponse {
+  type: number;
+  reader: SftpReader;
+}
+
+// Whether the response is a STATUS with the given code; other codes are
+// left to be read
+const isStatus = (response: SftpResponse, code: number): boolean => {
+  if (response.type !== FXP_STATUS) return false;
+
+  const start = response.reader.offset;
+  if (response.reader.uint32() === code) return true;
+
+  response.reader.offset = start;
+  return false;
+};
+
+export class SftpSession {
+  private received = Buffer.alloc(0);
+  private nextId = 1;
+  // Requests awaiting their response by id; the VERSION reply goes to 0
+  private readonly pending = new Map<number, { resolve(response: SftpResponse): void; reject(error: Error): void }>();
+  private failure: Error | undefined;
+
+  constructor(private readonly channel: SftpChannel) {
+    channel.input.on('data', (chunk: Buffer) => this.receive(chunk));
+    channel.input.on('end', () => this.fail(new Error('SFTP session closed')));
+    channel.input.on('error', error => this.fail(error));
+    channel.output.on('error', error => this.fail(error));
+  }
+
+  async init(): Promise<void> {
+    const { reader } = await this.send(0, encodeSftpPacket(FXP_INIT, uint32(SFTP_VERSION)));
+    const version = reader.uint32();
+
+    if (version !== SFTP_VERSION) {
+      throw new Error(`SFTP server speaks protocol version ${version}; version ${SFTP_VERSION} is required`);
+    }
+  }
+
+  // Entries of a directory, without . and ..
+  async list(directory: string): Promise<SftpEntry[]> {
+    const handle = this.handle(await this.request(FXP_OPENDIR, string(directory)), 'open directory', directory);
+    const entries: SftpEntry[] = [];
+
+    try {
+      for (;;) {
+        const response = await this.request(FXP_READDIR, string(handle));
+        if (isStatus(response, FX_EOF)) break;
+        if (response.type !== FXP_NAME) throw this.error(response, 'read directory', directory);
+
+        for (let count = response.reader.uint32(); count > 0; count--) {
+          const name = response.reader.text();
+          const longname = response.reader.text();
+          const attrs = response.reader.attrs();
+          if (name === '.' || name === '..') continue;
+
+          entries.push({
+            name,
+            size: attrs.size,
+            modified: attrs.modified,
+            // ls -l style longname when the server sends no permissions
+            isFile: attrs.permissions !== undefined ? (attrs.permissions & S_IFMT) === S_IFREG : longname.startsWith('-'),
+          });
+        }
+      }
+    } finally {
+      await this.closeHandle(handle, directory);
+    }
+
+    return entries;
+  }
+
+  async readFile(file: string): Promise<Buffer> {
+    const handle = this.handle(await this.request(FXP_OPEN, string(file), uint32(FXF_READ), uint32(0)), 'open', file);
+    const chunks: Buffer[] = [];
+    let offset = 0;
+
+    try {
+      for (;;) {
+        const response = await this.request(FXP_READ, string(handle), uint64(offset), uint32(READ_BYTES));
+        if (isStatus(response, FX_EOF)) break;
+        if (response.type !== FXP_DATA) throw this.error(response, 'read', file);
+
+        const data = response.reader.bytes();
+        if (data.length === 0) break;
+        chunks.push(data);
+        offset += data.length;
+      }
+    } finally {
+      await this.closeHandle(handle, file);
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  async close(): Promise<void> {
+    this.fail(new Error('SFTP session closed'));
+    this.channel.output.end();
+    await this.channel.close?.();
+  }
+
+  private receive(chunk: Buffer): void {
+    this.received = Buffer.concat([this.received, chunk]);
+
+    while (this.received.length >= 4) {
+      const length = this.received.readUInt32BE(0);
+      if (length < 1 || length > MAX_PACKET_BYTES) {
+        this.fail(new Error(`SFTP packet of ${length} bytes is invalid or too large`));
+        return;
+      }
+      if (this.received.length < 4 + length) return;
+
+      const reader = new SftpReader(this.received.subarray(4, 4 + length));
+      this.received = this.received.subarray(4 + length);
+
+      try {
+        const type = reader.byte();
+        const id = type === FXP_VERSION ? 0 : reader.uint32();
+        const request = this.pending.get(id);
+        if (!request) throw new Error(`Unexpected SFTP response ${type} for request ${id}`);
+
+        this.pending.delete(id);
+        request.resolve({ type, reader });
+      } catch (error) {
+        this.fail(error instanceof Error ? error : new Error(String(error)));
+        return;
+      }
+    }
+  }
+
+  // Rejects everything in flight; later requests fail with the same error
+  private fail(error: Error): void {
+    if (this.failure) return;
+
+    const reason = this.channel.reason?.();
+    this.failure = reason ? new Error(`${error.message}: ${reason}`) : error;
+
+    for (const request of this.pending.values()) {
+      request.reject(this.failure);
+    }
+    this.pending.clear();
+  }
+
+  private send(id: number, packet: Buffer): Promise<SftpResponse> {
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.channel.output.write(packet);
+    });
+  }
+
+  private request(type: number, ...fields: Buffer[]): Promise<SftpResponse> {
+    const id = this.nextId;
+    this.nextId = (this.nextId % 0xffffffff) + 1;
+    return this.send(id, encodeSftpPacket(type, uint32(id), ...fields));
+  }
+
+  // Error of a failed request: the server's status message, or the
+  // response it should not have sent
+  private error(response: SftpResponse, operation: string, target: string): Error {
+    if (response.type !== FXP_STATUS) {
+      return new Error(`SFTP ${operation} ${target} failed: unexpected response ${response.type}`);
+    }
+
+    const code = response.reader.uint32();
+    const message = response.reader.text();
+    return new Error(`SFTP ${operation} ${target} failed: ${message || STATUS_NAMES[code] || `status ${code}`}`);
+  }
+
+  private handle(response: SftpResponse, operation: string, target: string): Buffer {
+    if (response.type !== FXP_HANDLE) throw this.error(response, operation, target);
+    return response.reader.bytes();
+  }
+
+  private async closeHandle(handle: Buffer, target: string): Promise<void> {
+    const response = await this.request(FXP_CLOSE, string(handle));
+    if (!isStatus(response, FX_OK)) throw this.error(response, 'close', target);
+  }
+}
+
+// known_hosts names a host on another port than 22 as [host]:port
+const knownHostsEntry = (host: string, port: number, hostKey: string): string => {
+  return `${port === 22 ? host : `[${host}]:${port}`} ${hostKey}\n`;
+};
+
+// Arguments of ssh for the sftp subsystem: key authentication only, no
+// prompts, no user or system configuration, and only the pinned host key
+export const sshArguments = (options: SftpConnectOptions, keyFile: string, knownHostsFile: string): string[] => {
+  return [
+    '-F', '/dev/null',
+    '-s',
+    '-p', String(options.port),
+    '-l', options.username,
+    '-i', keyFile,
+    '-o', 'BatchMode=yes',
+    '-o', 'IdentitiesOnly=yes',
+    '-o', 'StrictHostKeyChecking=yes',
+    '-o', `UserKnownHostsFile=${knownHostsFile}`,
+    '-o', 'GlobalKnownHostsFile=/dev/null',
+    '-o', 'UpdateHostKeys=no',
+    '-o', 'ConnectTimeout=30',
+    '-o', 'ServerAliveInterval=15',
+    '-o', 'ServerAliveCountMax=3',
+    '-o', 'LogLevel=ERROR',
+    '--', options.host,
+    'sftp',
+  ];
+};
+
+// SFTP session over ssh. The key and known_hosts files only live until the
+// session is established.
+export const openSftpSession = async (options: SftpConnectOptions): Promise<SftpSession> => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'sftp-'));
+  let child: ChildProcess | undefined;
+  let session: SftpSession | undefined;
+
+  try {
+    const keyFile = path.join(directory, 'id');
+    const knownHostsFile = path.join(directory, 'known_hosts');
+    await fs.writeFile(keyFile, options.privateKey.endsWith('\n') ? options.privateKey : `${options.privateKey}\n`, { mode: 0o600 });
+    await fs.writeFile(knownHostsFile, knownHostsEntry(options.host, options.port, options.hostKey), { mode: 0o600 });
+
+    const ssh = spawn('ssh', sshArguments(options, keyFile, knownHostsFile), { stdio: ['pipe', 'pipe', 'pipe'] });
+    child = ssh;
+
+    let stderr = '';
+    ssh.stderr.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString('utf8')).slice(-2000);
+    });
+
+    // The session ends once ssh has exited and its error output is read
+    const input = new PassThrough();
+    ssh.stdout.pipe(input, { end: false });
+    ssh.on('close', () => input.end());
+    // ssh not installed, for one
+    ssh.on('error', error => {
+      stderr = error.message;
+      input.end();
+    });
+
+    session = new SftpSession({
+      input,
+      output: ssh.stdin,
+      reason: () => stderr.trim().split('\n').at(-1) ?? '',
+      close: async () => {
+        if (ssh.exitCode === null && ssh.signalCode === null) ssh.kill();
+      },
+    });
+    await session.init();
+    return session;
+  } catch (error) {
+    if (session) await session.close();
+    else child?.kill();
+    throw new Error(`SFTP connection to ${options.host}:${options.port} failed: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+};
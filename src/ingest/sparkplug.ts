@@ -0,0 +1,440 @@
+import { z } from 'zod';
+import { RawTelemetryInput } from '../model/telemetry.js';
+import { createError } from '../util/index.js';
+
+// Sparkplug B (spBv1.0) support for SCADA gateways. Edge nodes publish on
+//
+//   spBv1.0/<group>/NBIRTH|NDEATH|NDATA/<edge node>
+//   spBv1.0/<group>/DBIRTH|DDEATH|DDATA/<edge node>/<device>
+//
+// protobuf payloads holding a list of metrics. Birth certificates name every
+// metric and may give it a numeric alias that later data messages send
+// instead of the name; a death certificate marks the node (and its devices)
+// offline. A site maps Sparkplug metrics to telemetry fields through its
+// sparkplug configuration:
+//
+//   { "groupId": "solar", "edgeNodeId": "gw-01",
+//     "metrics": { "Inverter/AC Power": { "field": "acPowerKw", "scale": 0.001 } } }
+
+export const SPARKPLUG_NAMESPACE = 'spBv1.0';
+
+// Metric Node Control/Rebirth asks an edge node to publish its births again
+export const REBIRTH_METRIC = 'Node Control/Rebirth';
+
+// Birth/death sequence number pairing an NDEATH with its NBIRTH
+export const BD_SEQ_METRIC = 'bdSeq';
+
+export type SparkplugMessageType = 'NBIRTH' | 'NDEATH' | 'NDATA' | 'NCMD' | 'DBIRTH' | 'DDEATH' | 'DDATA' | 'DCMD';
+
+const NODE_MESSAGE_TYPES: readonly SparkplugMessageType[] = ['NBIRTH', 'NDEATH', 'NDATA', 'NCMD'];
+const DEVICE_MESSAGE_TYPES: readonly SparkplugMessageType[] = ['DBIRTH', 'DDEATH', 'DDATA', 'DCMD'];
+
+export interface SparkplugTopic {
+  groupId: string;
+  messageType: SparkplugMessageType;
+  edgeNodeId: string;
+  deviceId?: string; // device messages only
+}
+
+// Sparkplug data types (Sparkplug B specification, DataType enum)
+const DataType = {
+  Int8: 1,
+  Int16: 2,
+  Int32: 3,
+  Int64: 4,
+  Boolean: 11,
+} as const;
+
+export interface SparkplugMetric {
+  name?: string; // absent when the metric is sent by alias
+  alias?: number;
+  timestamp?: number; // ms since epoch
+  datatype?: number;
+  isHistorical: boolean;
+  isNull: boolean;
+  value?: number | boolean | string; // absent for null and unsupported values
+}
+
+export interface SparkplugPayload {
+  timestamp?: number; // ms since epoch
+  seq?: number;
+  metrics: SparkplugMetric[];
+}
+
+// Telemetry fields a metric can be mapped to
+export const SPARKPLUG_FIELDS = [
+  'poaIrrWm2',
+  'tempC',
+  'windMps',
+  'acPowerKw',
+  'acEnergyKWh',
+  'acEnergyRegisterKWh',
+  'status',
+] as const;
+
+export type SparkplugField = typeof SPARKPLUG_FIELDS[number];
+
+// Group and edge node IDs are topic levels
+const sparkplugId = z.string().min(1).refine(id => !/[+#/]/.test(id), {
+  message: 'Sparkplug group and edge node IDs cannot contain "/", "+" or "#"',
+});
+
+export const SparkplugSiteConfigSchema = z.object({
+  groupId: sparkplugId,
+  edgeNodeId: sparkplugId.optional(), // all edge nodes of the group when absent
+  metrics: z.record(z.string().min(1), z.object({
+    field: z.enum(SPARKPLUG_FIELDS),
+    scale: z.number().finite().positive().optional(), // multiplies numeric values, e.g. 0.001 for W to kW
+  })).refine(metrics => Object.keys(metrics).length > 0, {
+    message: 'At least one Sparkplug metric mapping is required',
+  }),
+});
+
+export type SparkplugSiteConfig = z.infer<typeof SparkplugSiteConfigSchema>;
+
+export interface SparkplugSite {
+  siteId: string;
+  config: SparkplugSiteConfig;
+}
+
+export const parseSparkplugTopic = (topic: string): SparkplugTopic | null => {
+  const [namespace, groupId, messageType, edgeNodeId, deviceId, ...rest] = topic.split('/');
+
+  if (namespace !== SPARKPLUG_NAMESPACE || !groupId || !edgeNodeId || rest.length > 0) {
+    return null;
+  }
+
+  if (NODE_MESSAGE_TYPES.includes(messageType as SparkplugMessageType) && deviceId === undefined) {
+    return { groupId, messageType: messageType as SparkplugMessageType, edgeNodeId };
+  }
+
+  if (DEVICE_MESSAGE_TYPES.includes(messageType as SparkplugMessageType) && deviceId) {
+    return { groupId, messageType: messageType as SparkplugMessageType, edgeNodeId, deviceId };
+  }
+
+  return null;
+};
+
+// Topic filter covering a site's edge nodes
+export const sparkplugFilter = (config: SparkplugSiteConfig): string => {
+  return config.edgeNodeId
+    ? `${SPARKPLUG_NAMESPACE}/${config.groupId}/+/${config.edgeNodeId}/#`
+    : `${SPARKPLUG_NAMESPACE}/${config.groupId}/#`;
+};
+
+// Site an edge node reports for: one configured for the node itself, else
+// one taking the whole group
+export const matchSparkplugSite = (sites: SparkplugSite[], topic: SparkplugTopic): SparkplugSite | undefined => {
+  const inGroup = sites.filter(site => site.config.groupId === topic.groupId);
+  return inGroup.find(site => site.config.edgeNodeId === topic.edgeNodeId)
+    ?? inGroup.find(site => site.config.edgeNodeId === undefined);
+};
+
+// Minimal protobuf wire format reader, enough for the Sparkplug B payload
+class ProtobufReader {
+  private pos = 0;
+
+  constructor(private readonly buf: Buffer, private readonly end = buf.length) {}
+
+  get done(): boolean {
+    return this.pos >= this.end;
+  }
+
+  private take(length: number): number {
+    if (this.pos + length > this.end) {
+      throw createError('Truncated Sparkplug payload', 'INVALID_SPARKPLUG_PAYLOAD', 400);
+    }
+    const start = this.pos;
+    this.pos += length;
+    return start;
+  }
+
+  varint(): bigint {
+    let result = 0n;
+
+    for (let shift = 0n; shift < 70n; shift += 7n) {
+      const byte = this.buf[this.take(1)]!;
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) {
+        return BigInt.asUintN(64, result);
+      }
+    }
+
+    throw createError('Malformed varint in Sparkplug payload', 'INVALID_SPARKPLUG_PAYLOAD', 400);
+  }
+
+  // Field number and wire type of the next field
+  key(): { field: number; wireType: number } {
+    const key = Number(this.varint());
+    return { field: key >>> 3, wireType: key & 0x07 };
+  }
+
+  float(): number {
+    return this.buf.readFloatLE(this.take(4));
+  }
+
+  double(): number {
+    return this.buf.readDoubleLE(this.take(8));
+  }
+
+  // Reader over a length-delimited field
+  sub(): ProtobufReader {
+    const length = Number(this.varint());
+    const start = this.take(length);
+    const reader = new ProtobufReader(this.buf, start + length);
+    reader.pos = start;
+    return reader;
+  }
+
+  string(): string {
+    const length = Number(this.varint());
+    const start = this.take(length);
+    return this.buf.toString('utf8', start, start + length);
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case 0: this.varint(); break;
+      case 1: this.take(8); break;
+      case 2: this.take(Number(this.varint())); break;
+      case 5: this.take(4); break;
+      default:
+        throw createError(`Unsupported protobuf wire type ${wireType}`, 'INVALID_SPARKPLUG_PAYLOAD', 400);
+    }
+  }
+}
+
+// Integer values arrive unsigned; signed data types are two's complement
+const signedBits: Record<number, number> = {
+  [DataType.Int8]: 8,
+  [DataType.Int16]: 16,
+  [DataType.Int32]: 32,
+  [DataType.Int64]: 64,
+};
+
+const decodeMetric = (reader: ProtobufReader): SparkplugMetric => {
+  const metric: SparkplugMetric = { isHistorical: false, isNull: false };
+  let integer: bigint | undefined;
+
+  while (!reader.done) {
+    const { field, wireType } = reader.key();
+
+    if ((field === 1 || field === 15) && wireType === 2) {
+      const text = reader.string();
+      if (field === 1) metric.name = text;
+      else metric.value = text;
+    } else if (field === 2 && wireType === 0) {
+      metric.alias = Number(reader.varint());
+    } else if (field === 3 && wireType === 0) {
+      metric.timestamp = Number(reader.varint());
+    } else if (field === 4 && wireType === 0) {
+      metric.datatype = Number(reader.varint());
+    } else if (field === 5 && wireType === 0) {
+      metric.isHistorical = reader.varint() !== 0n;
+    } else if (field === 7 && wireType === 0) {
+      metric.isNull = reader.varint() !== 0n;
+    } else if ((field === 10 || field === 11) && wireType === 0) {
+      integer = reader.varint();
+    } else if (field === 12 && wireType === 5) {
+      metric.value = reader.float();
+    } else if (field === 13 && wireType === 1) {
+      metric.value = reader.double();
+    } else if (field === 14 && wireType === 0) {
+      metric.value = reader.varint() !== 0n;
+    } else {
+      // transient flag, metadata, properties, datasets, templates
+      reader.skip(wireType);
+    }
+  }
+
+  if (integer !== undefined) {
+    const bits = metric.datatype === undefined ? undefined : signedBits[metric.datatype];
+    metric.value = Number(bits ? BigInt.asIntN(bits, integer) : integer);
+  }
+
+  if (metric.isNull) {
+    delete metric.value;
+  }
+
+  return metric;
+};
+
+export const decodeSparkplugPayload = (message: Buffer): SparkplugPayload => {
+  const reader = new ProtobufReader(message);
+  const payload: SparkplugPayload = { metrics: [] };
+
+  while (!reader.done) {
+    const { field, wireType } = reader.key();
+
+    if (field === 1 && wireType === 0) {
+      payload.timestamp = Number(reader.varint());
+    } else if (field === 2 && wireType === 2) {
+      payload.metrics.push(decodeMetric(reader.sub()));
+    } else if (field === 3 && wireType === 0) {
+      payload.seq = Number(reader.varint());
+    } else {
+      // uuid, body
+      reader.skip(wireType);
+    }
+  }
+
+  return payload;
+};
+
+const encodeVarint = (value: number): Buffer => {
+  const bytes: number[] = [];
+  let rest = BigInt(value);
+
+  do {
+    const byte = Number(rest & 0x7fn);
+    rest >>= 7n;
+    bytes.push(rest > 0n ? byte | 0x80 : byte);
+  } while (rest > 0n);
+
+  return Buffer.from(bytes);
+};
+
+const encodeField = (field: number, wireType: number, body: Buffer): Buffer => {
+  const key = encodeVarint(field * 8 + wireType);
+  return wireType === 2
+    ? Buffer.concat([key, encodeVarint(body.length), body])
+    : Buffer.concat([key, body]);
+};
+
+// NCMD payload asking an edge node to publish its births again, sent when
+// it reports by alias without us having seen its birth
+export const encodeRebirthRequest = (now = Date.now()): Buffer => {
+  const metric = Buffer.concat([
+    encodeField(1, 2, Buffer.from(REBIRTH_METRIC, 'utf8')),
+    encodeField(3, 0, encodeVarint(now)),
+    encodeField(4, 0, encodeVarint(DataType.Boolean)),
+    encodeField(14, 0, encodeVarint(1)),
+  ]);
+
+  return Buffer.concat([
+    encodeField(1, 0, encodeVarint(now)),
+    encodeField(2, 2, metric),
+  ]);
+};
+
+interface EdgeNodeState {
+  bdSeq?: number;
+  aliases: Map<number, string>; // metric names by alias, across the node's devices
+  devices: Set<string>; // devices born since the node's birth
+}
+
+// Birth state of the edge nodes seen: the aliases their births declared,
+// the bdSeq of their current session and the devices that are online
+export class SparkplugNodeRegistry {
+  private nodes = new Map<string, EdgeNodeState>();
+
+  private static key(groupId: string, edgeNodeId: string): string {
+    return `${groupId}/${edgeNodeId}`;
+  }
+
+  private learnAliases(state: EdgeNodeState, payload: SparkplugPayload): void {
+    for (const metric of payload.metrics) {
+      if (metric.name !== undefined && metric.alias !== undefined) {
+        state.aliases.set(metric.alias, metric.name);
+      }
+    }
+  }
+
+  isBorn(groupId: string, edgeNodeId: string): boolean {
+    return this.nodes.has(SparkplugNodeRegistry.key(groupId, edgeNodeId));
+  }
+
+  // An NBIRTH starts a new session: aliases and devices of the previous
+  // one no longer apply
+  nodeBirth(groupId: string, edgeNodeId: string, payload: SparkplugPayload): void {
+    const bdSeq = payload.metrics.find(metric => metric.name === BD_SEQ_METRIC)?.value;
+    const state: EdgeNodeState = { aliases: new Map(), devices: new Set() };
+
+    if (typeof bdSeq === 'number') {
+      state.bdSeq = bdSeq;
+    }
+
+    this.learnAliases(state, payload);
+    this.nodes.set(SparkplugNodeRegistry.key(groupId, edgeNodeId), state);
+  }
+
+  // False when the node's birth has not been seen
+  deviceBirth(groupId: string, edgeNodeId: string, deviceId: string, payload: SparkplugPayload): boolean {
+    const state = this.nodes.get(SparkplugNodeRegistry.key(groupId, edgeNodeId));
+    if (!state) return false;
+
+    this.learnAliases(state, payload);
+    state.devices.add(deviceId);
+    return true;
+  }
+
+  deviceDeath(groupId: string, edgeNodeId: string, deviceId: string): void {
+    this.nodes.get(SparkplugNodeRegistry.key(groupId, edgeNodeId))?.devices.delete(deviceId);
+  }
+
+  // Devices taken offline with the node; null when the NDEATH belongs to an
+  // earlier session than the current birth (the broker publishes the will of
+  // a connection the node has already replaced)
+  nodeDeath(groupId: string, edgeNodeId: string, payload: SparkplugPayload): string[] | null {
+    const key = SparkplugNodeRegistry.key(groupId, edgeNodeId);
+    const state = this.nodes.get(key);
+    const bdSeq = payload.metrics.find(metric => metric.name === BD_SEQ_METRIC)?.value;
+
+    if (state?.bdSeq !== undefined && typeof bdSeq === 'number' && bdSeq !== state.bdSeq) {
+      return null;
+    }
+
+    this.nodes.delete(key);
+    return state ? [...state.devices] : [];
+  }
+
+  // Metric name, resolving aliases through the node's births
+  metricName(groupId: string, edgeNodeId: string, metric: SparkplugMetric): string | undefined {
+    if (metric.name !== undefined) return metric.name;
+    if (metric.alias === undefined) return undefined;
+    return this.nodes.get(SparkplugNodeRegistry.key(groupId, edgeNodeId))?.aliases.get(metric.alias);
+  }
+}
+
+const TELEMETRY_STATUSES = ['OK', 'OUTAGE', 'CURTAILED'];
+
+// Telemetry rows for the mapped metrics of a message, one per timestamp.
+// Metrics take the payload's timestamp when they have none; metrics that are
+// unmapped, null or of the wrong type for their field are left out.
+export const mapSparkplugMetrics = (
+  site: SparkplugSite,
+  deviceId: string | undefined,
+  payload: SparkplugPayload,
+  metricName: (metric: SparkplugMetric) => string | undefined,
+  now = Date.now()
+): RawTelemetryInput[] => {
+  const rows = new Map<number, RawTelemetryInput>();
+
+  for (const metric of payload.metrics) {
+    const name = metricName(metric);
+    const mapping = name === undefined ? undefined : site.config.metrics[name];
+    if (!mapping || metric.value === undefined) continue;
+
+    const timestamp = metric.timestamp ?? payload.timestamp ?? now;
+    const row = rows.get(timestamp) ?? {
+      siteId: site.siteId,
+      ...(deviceId !== undefined && { deviceId }),
+      source: 'mqtt' as const,
+      tsUtc: new Date(timestamp).toISOString(),
+    };
+
+    if (mapping.field === 'status') {
+      if (typeof metric.value !== 'string' || !TELEMETRY_STATUSES.includes(metric.value)) continue;
+      row.status = metric.value as RawTelemetryInput['status'];
+    } else {
+      if (typeof metric.value !== 'number') continue;
+      row[mapping.field] = metric.value * (mapping.scale ?? 1);
+    }
+
+    rows.set(timestamp, row);
+  }
+
+  return [...rows.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, row]) => row);
+};
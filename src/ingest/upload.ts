@@ -0,0 +1,511 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { ZodError } from 'zod';
+import { prisma } from '../db.js';
+import { env } from '../config/index.js';
+import { IngestScope } from '../model/credentials.js';
+import { IngestUploadResult, UploadFormat, UploadMapping, UploadMappingSchema } from '../model/api.js';
+import { ingestBatch } from './pipeline.js';
+import { MultipartParser, multipartBoundary } from './multipart.js';
+import { CsvParser, csvRecord, formatCsvRow } from './csv.js';
+import { openParquet, readParquetRows, ParquetSource } from './parquet.js';
+import { PullRecord, getPath, mapPullRecord, mappedPaths } from './pullMapping.js';
+import { generateRequestId, createError } from '../util/index.js';
+
+// Bulk upload of CSV or Parquet files (POST /v1/ingest/uploads), e.g.
+// commissioning exports. The multipart body is read as it arrives: a
+// "mapping" field (UploadMappingSchema) followed by a "file" part. CSV rows
+// are ingested as they are parsed; Parquet, which is read from its footer,
+// is spooled to a temporary file first and read a page at a time.
+// Rows go through ingestBatch a chunk at a time, and rejected rows are kept
+// for the rejection report (GET /v1/ingest/uploads/:id/rejections).
+
+const CHUNK_ROWS = 500;
+const MAX_MAPPING_BYTES = 64 * 1024;
+const REPORT_PAGE_ROWS = 1000;
+
+interface UploadRow {
+  row: number;
+  record: PullRecord;
+}
+
+interface UploadCounts {
+  rows: number;
+  created: number;
+  unchanged: number;
+  duplicate: number;
+  revised: number;
+  rejected: number;
+}
+
+// A file being received; records are passed on as they are read
+interface UploadFile {
+  columns: string[];
+  write(data: Buffer): Promise<void>;
+  finish(): Promise<void>;
+  close(): Promise<void>;
+}
+
+type RecordHandler = (records: PullRecord[]) => Promise<void>;
+
+const invalidUpload = (message: string) => createError(message, 'INVALID_UPLOAD', 400);
+
+const checkColumns = (columns: string[], paths: string[]): void => {
+  const missing = paths.filter(path => !columns.includes(path));
+  if (missing.length > 0) {
+    throw invalidUpload(`Column${missing.length > 1 ? 's' : ''} ${missing.join(', ')} not found in the file`);
+  }
+};
+
+class CsvUpload implements UploadFile {
+  columns: string[] = [];
+  private readonly parser: CsvParser;
+  private readonly decoder = new StringDecoder('utf8');
+  private header: string[] | undefined;
+
+  constructor(delimiter: string, private readonly paths: string[], private readonly onRecords: RecordHandler) {
+    this.parser = new CsvParser(delimiter);
+  }
+
+  private async rows(rows: string[][]): Promise<void> {
+    if (!this.header) {
+      const header = rows.shift();
+      if (!header) return;
+
+      // Excel writes a byte order mark
+      this.header = header.map((name, i) => (i === 0 ? name.replace(/^\uFEFF/, '') : name).trim());
+      this.columns = this.header;
+      checkColumns(this.columns, this.paths);
+    }
+
+    if (rows.length > 0) {
+      await this.onRecords(rows.map(row => csvRecord(this.header!, row)));
+    }
+  }
+
+  async write(data: Buffer): Promise<void> {
+    await this.rows(this.parser.push(this.decoder.write(data)));
+  }
+
+  async finish(): Promise<void> {
+    await this.rows([...this.parser.push(this.decoder.end()), ...this.parser.end()]);
+  }
+
+  async close(): Promise<void> {}
+}
+
+class ParquetUpload implements UploadFile {
+  columns: string[] = [];
+
+  private constructor(
+    private readonly directory: string,
+    private readonly handle: fs.FileHandle,
+    private readonly paths: string[],
+    private readonly onRecords: RecordHandler
+  ) {}
+
+  static async create(paths: string[], onRecords: RecordHandler): Promise<ParquetUpload> {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'iot-oracle-upload-'));
+    const handle = await fs.open(join(directory, 'upload.parquet'), 'w+');
+    return new ParquetUpload(directory, handle, paths, onRecords);
+  }
+
+  async write(data: Buffer): Promise<void> {
+    await this.handle.write(data);
+  }
+
+  async finish(): Promise<void> {
+    const { size } = await this.handle.stat();
+    const source: ParquetSource = {
+      size,
+      read: async (offset, length) => {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await this.handle.read(buffer, 0, length, offset);
+        return buffer.subarray(0, bytesRead);
+      },
+    };
+
+    const file = await openParquet(source);
+    checkColumns(file.columns.map(column => column.path), this.paths);
+
+    // Only the mapped columns are read, and reported
+    this.columns = this.paths;
+
+    for await (const records of readParquetRows(source, file, this.paths, CHUNK_ROWS)) {
+      await this.onRecords(records);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.handle.close();
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+}
+
+const uploadFormat = (mapping: UploadMapping, filename?: string, contentType?: string): UploadFormat => {
+  if (mapping.format) return mapping.format;
+
+  const name = filename?.toLowerCase() ?? '';
+  if (name.endsWith('.parquet')) return 'parquet';
+  if (name.endsWith('.csv') || name.endsWith('.txt')) return 'csv';
+  if (contentType && /parquet/i.test(contentType)) return 'parquet';
+  if (contentType && /^text\/(csv|plain)/i.test(contentType)) return 'csv';
+
+  throw invalidUpload('Upload format could not be determined from the file; set format in the mapping');
+};
+
+// Ingest a chunk of rows. Rows that do not map or are rejected by the
+// pipeline are stored for the report; anything else fails the upload.
+const ingestChunk = async (
+  uploadId: string,
+  rows: UploadRow[],
+  mapping: UploadMapping,
+  scope: IngestScope,
+  counts: UploadCounts
+): Promise<void> => {
+  const items: unknown[] = [];
+  const itemRows: UploadRow[] = [];
+  const rejections: { uploadId: string; row: number; reason: string; record: PullRecord }[] = [];
+
+  for (const row of rows) {
+    try {
+      const siteId = mapping.siteId ?? String(getPath(row.record, mapping.siteIdColumn!) ?? '').trim();
+      items.push({ ...mapPullRecord(siteId, row.record, mapping.fields), source: 'http' });
+      itemRows.push(row);
+    } catch (error) {
+      if (!(error instanceof Error && 'statusCode' in error)) throw error;
+      rejections.push({ uploadId, row: row.row, reason: error.message, record: row.record });
+    }
+  }
+
+  const results = items.length > 0 ? await ingestBatch(items, scope) : [];
+
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      const { row, record } = itemRows[result.index]!;
+      rejections.push({ uploadId, row, reason: result.reason ?? 'Telemetry rejected', record });
+    } else {
+      counts[result.status]++;
+    }
+  }
+
+  if (rejections.length > 0) {
+    await prisma.ingestUploadRejection.createMany({ data: rejections });
+  }
+
+  counts.rows += rows.length;
+  counts.rejected += rejections.length;
+};
+
+const parseMapping = (data: Buffer): UploadMapping => {
+  let value: unknown;
+  try {
+    value = JSON.parse(data.toString('utf8'));
+  } catch {
+    throw invalidUpload('Upload mapping is not valid JSON');
+  }
+  return UploadMappingSchema.parse(value);
+};
+
+export const uploadTelemetry = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+) => {
+  const requestId = generateRequestId();
+  const scope = request.ingestScope;
+  const counts: UploadCounts = { rows: 0, created: 0, unchanged: 0, duplicate: 0, revised: 0, rejected: 0 };
+  let uploadId: string | undefined;
+  let file: UploadFile | undefined;
+
+  try {
+    if (!scope) {
+      throw createError('Ingest credentials are required', 'UNAUTHORIZED', 401);
+    }
+
+    const boundary = multipartBoundary(request.headers['content-type']);
+
+    if (!boundary) {
+      throw invalidUpload('Uploads must be sent as multipart/form-data');
+    }
+
+    const parser = new MultipartParser(boundary);
+    const maxBytes = env.UPLOAD_MAX_MB * 1024 * 1024;
+    const mappingData: Buffer[] = [];
+    let mappingBytes = 0;
+    let mapping: UploadMapping | undefined;
+    let format: UploadFormat | undefined;
+    let part: 'mapping' | 'file' | undefined;
+    let fileDone = false;
+    let received = 0;
+    let pending: UploadRow[] = [];
+
+    const onRecords = async (records: PullRecord[]) => {
+      for (const record of records) {
+        pending.push({ row: counts.rows + pending.length + 1, record });
+
+        if (pending.length >= CHUNK_ROWS) {
+          const rows = pending;
+          pending = [];
+          await ingestChunk(uploadId!, rows, mapping!, scope, counts);
+        }
+      }
+    };
+
+    // The body is read as it arrives; awaiting each chunk's rows holds back
+    // the rest of the upload
+    for await (const chunk of request.raw) {
+      received += chunk.length;
+
+      if (received > maxBytes) {
+        throw createError(`Uploads are limited to ${env.UPLOAD_MAX_MB} MB`, 'UPLOAD_TOO_LARGE', 413);
+      }
+
+      for (const event of parser.push(chunk as Buffer)) {
+        if (event.type === 'part') {
+          if (event.name === 'mapping') {
+            part = 'mapping';
+          } else if (event.name === 'file') {
+            if (file) {
+              throw invalidUpload('Only one file can be uploaded at a time');
+            }
+            if (!mapping) {
+              throw invalidUpload('The mapping field must be sent before the file');
+            }
+
+            format = uploadFormat(mapping, event.filename, event.contentType);
+            const paths = [...new Set([...mappedPaths(mapping.fields), ...(mapping.siteIdColumn ? [mapping.siteIdColumn] : [])])];
+
+            const upload = await prisma.ingestUpload.create({
+              data: {
+                credentialId: scope.credentialId,
+                filename: event.filename ?? null,
+                format,
+              },
+            });
+            uploadId = upload.id;
+
+            file = format === 'csv'
+              ? new CsvUpload(mapping.delimiter, paths, onRecords)
+              : await ParquetUpload.create(paths, onRecords);
+            part = 'file';
+          } else {
+            part = undefined; // other fields are ignored
+          }
+        } else if (event.type === 'data') {
+          if (part === 'mapping') {
+            mappingBytes += event.data.length;
+            if (mappingBytes > MAX_MAPPING_BYTES) {
+              throw invalidUpload('Upload mapping is too large');
+            }
+            mappingData.push(event.data);
+          } else if (part === 'file') {
+            await file!.write(event.data);
+          }
+        } else {
+          if (part === 'mapping') {
+            mapping = parseMapping(Buffer.concat(mappingData));
+          } else if (part === 'file') {
+            await file!.finish();
+            fileDone = true;
+          }
+          part = undefined;
+        }
+      }
+    }
+
+    parser.end();
+
+    if (!fileDone || !uploadId || !mapping || !format) {
+      throw invalidUpload('No file was uploaded');
+    }
+
+    if (pending.length > 0) {
+      await ingestChunk(uploadId, pending, mapping, scope, counts);
+    }
+
+    if (counts.rows === 0) {
+      throw invalidUpload('The file has no data rows');
+    }
+
+    await prisma.ingestUpload.update({
+      where: { id: uploadId },
+      data: {
+        status: 'completed',
+        columns: file!.columns,
+        rowCount: counts.rows,
+        createdCount: counts.created,
+        unchangedCount: counts.unchanged,
+        duplicateCount: counts.duplicate,
+        revisedCount: counts.revised,
+        rejectedCount: counts.rejected,
+        completedAt: new Date(),
+      },
+    });
+
+    request.log.info({
+      requestId,
+      credentialId: scope.credentialId,
+      uploadId,
+      format,
+      ...counts,
+    }, 'Telemetry upload completed');
+
+    const allRejected = counts.rejected === counts.rows;
+    const result: IngestUploadResult = {
+      uploadId,
+      format,
+      ...counts,
+      ...(counts.rejected > 0 && { rejectionReport: `/v1/ingest/uploads/${uploadId}/rejections` }),
+    };
+
+    return reply.code(allRejected ? 400 : 200).send({
+      success: !allRejected,
+      requestId,
+      ...result,
+    });
+
+  } catch (error) {
+    request.log.error({
+      requestId,
+      uploadId,
+      rows: counts.rows,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 'Telemetry upload failed');
+
+    // Rows ingested before the failure stay; re-uploading the file reports
+    // them unchanged
+    if (uploadId) {
+      await prisma.ingestUpload.update({
+        where: { id: uploadId },
+        data: {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          columns: file?.columns ?? [],
+          rowCount: counts.rows,
+          createdCount: counts.created,
+          unchangedCount: counts.unchanged,
+          duplicateCount: counts.duplicate,
+          revisedCount: counts.revised,
+          rejectedCount: counts.rejected,
+          completedAt: new Date(),
+        },
+      }).catch((updateError: unknown) => {
+        request.log.error({
+          requestId,
+          uploadId,
+          error: updateError instanceof Error ? updateError.message : 'Unknown error',
+        }, 'Failed to record upload failure');
+      });
+    }
+
+    if (error instanceof ZodError) {
+      return reply.code(400).send({
+        success: false,
+        requestId,
+        error: 'Invalid upload mapping',
+        details: error.errors,
+      });
+    }
+
+    if (error instanceof Error && 'statusCode' in error && typeof error.statusCode === 'number') {
+      return reply.code(error.statusCode).send({
+        success: false,
+        requestId,
+        uploadId,
+        error: error.message,
+        code: 'code' in error ? error.code : undefined,
+      });
+    }
+
+    return reply.code(500).send({
+      success: false,
+      requestId,
+      error: 'Internal server error',
+    });
+  } finally {
+    await file?.close().catch(() => undefined);
+  }
+};
+
+const cellText = (value: unknown): string => {
+  return value === null || value === undefined ? '' : String(value);
+};
+
+// Lines of the rejection report: the file's columns, so fixed rows can be
+// uploaded again with the same mapping, then the row number and reason
+async function* rejectionReport(uploadId: string, columns: string[]): AsyncGenerator<string> {
+  yield formatCsvRow([...columns, '_row', '_error']);
+
+  let lastRow = 0;
+
+  for (;;) {
+    const rejections = await prisma.ingestUploadRejection.findMany({
+      where: { uploadId, row: { gt: lastRow } },
+      orderBy: { row: 'asc' },
+      take: REPORT_PAGE_ROWS,
+    });
+
+    for (const { row, reason, record } of rejections) {
+      yield formatCsvRow([...columns.map(column => cellText((record as PullRecord)[column])), String(row), reason]);
+      lastRow = row;
+    }
+
+    if (rejections.length < REPORT_PAGE_ROWS) return;
+  }
+}
+
+// Download the rejected rows of an upload as CSV
+export const getUploadRejections = async (
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+) => {
+  const requestId = generateRequestId();
+  const scope = request.ingestScope;
+  const { id } = request.params;
+
+  try {
+    if (!scope) {
+      throw createError('Ingest credentials are required', 'UNAUTHORIZED', 401);
+    }
+
+    // Uploads of other credentials are not found
+    const upload = await prisma.ingestUpload.findUnique({
+      where: { id },
+    });
+
+    if (!upload || upload.credentialId !== scope.credentialId) {
+      throw createError('Upload not found', 'UPLOAD_NOT_FOUND', 404);
+    }
+
+    return reply
+      .header('Content-Type', 'text/csv; charset=utf-8')
+      .header('Content-Disposition', `attachment; filename="upload-${id}-rejections.csv"`)
+      .send(Readable.from(rejectionReport(id, upload.columns)));
+
+  } catch (error) {
+    if (error instanceof Error && 'statusCode' in error && typeof error.statusCode === 'number') {
+      return reply.code(error.statusCode).send({
+        success: false,
+        requestId,
+        error: error.message,
+        code: 'code' in error ? error.code : undefined,
+      });
+    }
+
+    request.log.error({
+      requestId,
+      uploadId: id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 'Failed to read upload rejections');
+
+    return reply.code(500).send({
+      success: false,
+      requestId,
+      error: 'Internal server error',
+    });
+  }
+};
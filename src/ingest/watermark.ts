@@ -0,0 +1,44 @@
+// Incremental pulls. A site's watermark is the latest timestamp ingested
+// from its pull source; each scheduled pull reads from the watermark, less
+// an overlap for records the source publishes late, up to now. After an
+// outage the gap is caught up in windows of at most maxWindowHours, each
+// moving the watermark on once ingested, so a failure part way resumes
+// where it stopped. Gaps longer than maxCatchUpHours are cut to the most
+// recent part; older data needs an explicit backfill.
+
+export interface CatchUpOptions {
+  overlapMinutes: number;
+  initialLookbackHours: number; // window of a site's first pull
+  maxWindowHours: number;
+  maxCatchUpHours: number;
+}
+
+export interface CatchUpPlan {
+  windows: { from: Date; to: Date }[];
+  capped: boolean; // the gap was longer than maxCatchUpHours
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const planCatchUp = (watermark: Date | null, now: Date, options: CatchUpOptions): CatchUpPlan => {
+  const earliest = now.getTime() - options.maxCatchUpHours * HOUR_MS;
+  const start = watermark
+    ? watermark.getTime() - options.overlapMinutes * MINUTE_MS
+    : now.getTime() - options.initialLookbackHours * HOUR_MS;
+
+  const capped = start < earliest;
+  const windows: { from: Date; to: Date }[] = [];
+
+  for (let from = Math.max(start, earliest); from < now.getTime(); from += options.maxWindowHours * HOUR_MS) {
+    windows.push({ from: new Date(from), to: new Date(Math.min(from + options.maxWindowHours * HOUR_MS, now.getTime())) });
+  }
+
+  return { windows, capped };
+};
+
+// Watermark after ingesting rows up to latest; it never moves back
+export const advanceWatermark = (watermark: Date | null, latest: Date | undefined): Date | null => {
+  if (!latest) return watermark;
+  return !watermark || latest > watermark ? latest : watermark;
+};
@@ -0,0 +1,156 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+// Admin access control. Admin keys are named, stored as their SHA-256 only,
+// carry one role and optionally a list of site IDs they are limited to (an
+// empty list means all sites). ADMIN_API_KEY, when set, acts as an unscoped
+// admin key for bootstrapping.
+//
+// admin:        everything, including admin key management
+// site-manager: site, device, meter and emission factor configuration,
+//               telemetry corrections and ingest credentials
+// operator:     backfill, recompute, anchor, purge, MQTT reloads and the
+//               pull status
+// auditor:      read-only access to credentials, admin keys, the audit log
+//               and the pull status
+
+export type AdminRole = 'admin' | 'site-manager' | 'operator' | 'auditor';
+
+export const ADMIN_ROLES: readonly AdminRole[] = ['admin', 'site-manager', 'operator', 'auditor'];
+
+export type AdminAction =
+  | 'site.upsert'
+  | 'emission-factor.create'
+  | 'device.register'
+  | 'meter.configure'
+  | 'telemetry.correct'
+  | 'ingest-credential.create'
+  | 'ingest-credential.list'
+  | 'ingest-credential.revoke'
+  | 'backfill'
+  | 'recompute'
+  | 'anchor'
+  | 'raw.purge'
+  | 'mqtt.reload'
+  | 'pull.status'
+  | 'admin-key.create'
+  | 'admin-key.list'
+  | 'admin-key.rotate'
+  | 'admin-key.revoke'
+  | 'audit-log.read';
+
+const SITE_MANAGER_ACTIONS: readonly AdminAction[] = [
+  'site.upsert',
+  'emission-factor.create',
+  'device.register',
+  'meter.configure',
+  'telemetry.correct',
+  'ingest-credential.create',
+  'ingest-credential.list',
+  'ingest-credential.revoke',
+];
+
+const OPERATOR_ACTIONS: readonly AdminAction[] = ['backfill', 'recompute', 'anchor', 'raw.purge', 'mqtt.reload', 'pull.status'];
+
+// Actions that change nothing; they are not audited and scoped keys may
+// perform them, seeing only their sites
+export const READ_ONLY_ADMIN_ACTIONS: readonly AdminAction[] = [
+  'ingest-credential.list',
+  'admin-key.list',
+  'audit-log.read',
+  'pull.status',
+];
+
+const ROLE_ACTIONS: Record<Exclude<AdminRole, 'admin'>, readonly AdminAction[]> = {
+  'site-manager': SITE_MANAGER_ACTIONS,
+  operator: OPERATOR_ACTIONS,
+  auditor: READ_ONLY_ADMIN_ACTIONS,
+};
+
+export const ADMIN_KEY_PREFIX = 'ak_';
+
+// Caller of an admin request
+export interface AdminActor {
+  id: string; // AdminKey id, or "env" for ADMIN_API_KEY
+  name: string;
+  role: AdminRole;
+  siteIds: string[]; // empty: all sites
+}
+
+export const isAdminRole = (value: unknown): value is AdminRole => {
+  return typeof value === 'string' && (ADMIN_ROLES as readonly string[]).includes(value);
+};
+
+export const isReadOnlyAdminAction = (action: AdminAction): boolean => {
+  return READ_ONLY_ADMIN_ACTIONS.includes(action);
+};
+
+export const generateAdminKey = (): string => {
+  return `${ADMIN_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+};
+
+// Compare two secrets in constant time (digests have equal length)
+export const secretsEqual = (a: string, b: string): boolean => {
+  const digest = (value: string) => createHash('sha256').update(value, 'utf8').digest();
+  return timingSafeEqual(digest(a), digest(b));
+};
+
+const SECRET_FIELD = /password|secret|token|api[-_]?key|private[-_]?key|authorization|credential/i;
+const SECRET_REFERENCE = /^env:[A-Za-z_][A-Za-z0-9_]*$/;
+// Fields of an auth block that name the scheme, header or user rather than
+// hold the credential
+const AUTH_NAME_FIELDS = ['type', 'name', 'username'];
+
+export const REDACTED = '[redacted]';
+
+// Copy of a request's body, query or params for the audit log with the
+// values of credential-bearing fields replaced, including everything in an
+// auth block but its names. env:NAME references name no secret and are kept.
+export const redactSecrets = (value: unknown, secret = false): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item, secret));
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      key === 'auth' && !secret && typeof item === 'object' && item !== null && !Array.isArray(item)
+        ? Object.fromEntries(Object.entries(item).map(([field, v]) => [field, AUTH_NAME_FIELDS.includes(field) ? v : redactSecrets(v, true)]))
+        : redactSecrets(item, secret || SECRET_FIELD.test(key)),
+    ]));
+  }
+
+  if (secret && value !== null && value !== undefined && !(typeof value === 'string' && SECRET_REFERENCE.test(value))) {
+    return REDACTED;
+  }
+
+  return value;
+};
+
+// Whether the actor's sites include siteId
+export const isSiteInAdminScope = (actor: AdminActor, siteId: string): boolean => {
+  return actor.siteIds.length === 0 || actor.siteIds.includes(siteId);
+};
+
+// Reason the actor may not perform an action, if any. targetSiteIds are the
+// sites the action touches; undefined means it is not tied to sites, which
+// scoped keys may only do for read-only actions.
+export const checkAdminAccess = (
+  actor: AdminActor,
+  action: AdminAction,
+  targetSiteIds?: string[]
+): string | undefined => {
+  if (actor.role !== 'admin' && !ROLE_ACTIONS[actor.role].includes(action)) {
+    return `Role ${actor.role} may not perform ${action}`;
+  }
+
+  if (actor.siteIds.length === 0) {
+    return undefined;
+  }
+
+  if (targetSiteIds === undefined) {
+    return isReadOnlyAdminAction(action) ? undefined : `${action} requires a key for all sites`;
+  }
+
+  const outside = targetSiteIds.find(siteId => !isSiteInAdminScope(actor, siteId));
+  return outside === undefined ? undefined : `Site ${outside} is outside the key's scope`;
+};
@@ -1,19 +1,54 @@
 import { z } from 'zod';
+import { MerkleVersion, ProofStep, KeyedLeaf } from './merkle.js';
+import { DigestDayBoundary, isValidTimeZone } from '../util/index.js';
+import { AppliedEmissionFactor } from '../aggregate/emissionFactors.js';
+import { CompletenessReport } from '../aggregate/completeness.js';
+import { GapFillStrategy, GAP_FILL_STRATEGIES } from '../aggregate/gapFill.js';
+import { EmissionsBreakdown, MethodologyParams, DEFAULT_METHODOLOGY_ID } from '../aggregate/methodology.js';
+import { DeviceRole, DEVICE_KINDS, DeviceKind } from '../aggregate/devices.js';
+import { SITE_DEVICE_ID } from './telemetry.js';
+import { SignatureAlgorithm, SIGNATURE_ALGORITHMS, parsePublicKey } from './signature.js';
+import { AdminRole, ADMIN_ROLES } from './adminAccess.js';
+import { validateTopicTemplate, isValidTopicSiteId } from '../ingest/mqttTopics.js';
+import { SparkplugSiteConfig, SparkplugSiteConfigSchema } from '../ingest/sparkplug.js';
+import { ModbusSiteConfig, ModbusSiteConfigSchema } from '../ingest/modbusRegisters.js';
+import { FieldMappingSchema } from '../ingest/pullMapping.js';
 
 // API response types
 export interface DailyDigest {
   id: string;
   siteId: string;
   day: string; // YYYY-MM-DD format
-  energyKWh: number;
+  energyKWh: number; // measured
+  estimatedEnergyKWh: number; // gap-filled, reported separately
+  estimatedRows: number;
+  estimatedRoot?: string | undefined; // Merkle root over estimated rows
+  gapFillStrategy: GapFillStrategy;
   avoidedTco2e: number;
+  emissionFactors: AppliedEmissionFactor[];
+  methodologyId: string;
+  methodologyParams: MethodologyParams;
+  emissionsBreakdown?: EmissionsBreakdown | undefined; // absent on digests built before methodologies
   rows: number;
+  completenessScore?: number | undefined;
+  completeness?: CompletenessReport | undefined; // missing/duplicate/out-of-order intervals and gaps
+  devices: DeviceRole[]; // device roles the day was combined with
   merkleRoot: string;
-  csvUrl?: string;
-  jsonUrl?: string;
+  merkleVersion: MerkleVersion;
+  dayBoundary: DigestDayBoundary;
+  timezone: string;
+  // Covered period, end exclusive; local times carry the zone's offset
+  period: {
+    localStart: string;
+    localEnd: string;
+    utcStart: string;
+    utcEnd: string;
+  };
+  csvUrl?: string | undefined;
+  jsonUrl?: string | undefined;
   anchored: boolean;
-  adapterTxId?: string;
-  txHash?: string;
+  adapterTxId?: string | undefined;
+  txHash?: string | undefined;
   createdAt: string;
   updatedAt: string;
 }
@@ -26,7 +61,10 @@ export interface HourlySummary {
   maxPowerKw?: number;
   avgTempC?: number;
   avgIrrWm2?: number;
+  avoidedTco2e: number;
   rows: number;
+  completenessScore?: number;
+  completeness?: CompletenessReport;
   createdAt: string;
 }
 
@@ -35,15 +73,176 @@ export interface Site {
   name: string;
   country: string;
   timezone: string;
+  digestDayBoundary: DigestDayBoundary;
+  methodologyId: string;
+  intervalMinutes: number;
+  gapFillStrategy: GapFillStrategy;
+  requireSignedTelemetry: boolean;
+  mqttTopic?: string; // topic template; MQTT_TOPIC_TEMPLATE when absent
+  mqttEnabled: boolean;
+  sparkplug?: SparkplugSiteConfig;
+  modbus?: ModbusSiteConfig; // admin responses only: it names plant network hosts
+  pullSource?: { type: string } & Record<string, unknown>; // admin responses only: it may hold credentials
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Device {
+  siteId: string;
+  deviceId: string;
+  kind: string;
+  revenueMeter: boolean;
+  name?: string;
+  publicKey?: string; // PEM; the device's rows must be signed with it
+  keyAlgorithm?: SignatureAlgorithm;
+  online?: boolean; // Sparkplug devices only
+  onlineChangedAt?: string;
+  createdAt: string;
+}
+
+export interface IngestCredential {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  siteIds: string[];
+  lastUsedAt?: string | undefined;
+  revokedAt?: string | undefined;
+  createdAt: string;
+}
+
+export interface AdminKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  role: AdminRole;
+  siteIds: string[]; // empty: all sites
+  rotatedToId?: string | undefined;
+  lastUsedAt?: string | undefined;
+  revokedAt?: string | undefined;
+  createdAt: string;
+}
+
+export interface AdminAuditEntry {
+  id: string;
+  actorId: string;
+  actorName: string;
+  role: string;
+  action: string;
+  siteIds: string[];
+  params: unknown;
+  statusCode: number;
+  requestId: string;
+  createdAt: string;
+}
+
+export interface EmissionFactor {
+  id: string;
+  siteId: string;
+  version: number;
+  effectiveFrom: string;
+  effectiveTo?: string;
+  kgPerKWh: number;
+  hourlyKgPerKWh?: number[];
+  source: string;
   createdAt: string;
+}
+
+export interface MeterConfig {
+  siteId: string;
+  meterSerial?: string;
+  registerMaxKWh?: number;
+  multiplier: number;
+  maxIntervalKWh?: number;
   updatedAt: string;
 }
 
+// Outcome of a bulk upload. Rows are counted from 1, after a CSV header.
+export interface IngestUploadResult {
+  uploadId: string;
+  format: UploadFormat;
+  rows: number;
+  created: number;
+  unchanged: number;
+  duplicate: number;
+  revised: number;
+  rejected: number;
+  rejectionReport?: string; // URL of the CSV of rejected rows
+}
+
+// Incremental pull state of a site with a pull source
+export interface PullStatus {
+  siteId: string;
+  connector: string;
+  watermark?: string; // latest timestamp ingested; absent before the first rows
+  lastRunAt?: string;
+  lastSuccessAt?: string;
+  lastError?: string; // of the last run
+  lastCount: number; // rows ingested by the last run
+}
+
+// One version of a raw telemetry row. superseded* and the change fields
+// describe the change that replaced it and are absent on the current version.
+export interface TelemetryVersion {
+  revision: number;
+  acEnergyKWh?: number | undefined;
+  acPowerKw?: number | undefined;
+  poaIrrWm2?: number | undefined;
+  tempC?: number | undefined;
+  windMps?: number | undefined;
+  acEnergyRegisterKWh?: number | undefined;
+  meterSerial?: string | undefined;
+  registerEvent?: string | undefined;
+  status?: string | undefined;
+  source: string;
+  uniqKey?: string | undefined;
+  credentialId?: string | undefined; // ingest credential that submitted this version
+  rowHash: string;
+  hashVersion: number;
+  recordedAt: string;
+  supersededAt?: string | undefined;
+  changeSource?: string | undefined;
+  reason?: string | undefined;
+}
+
+export interface TelemetryHistory {
+  siteId: string;
+  deviceId: string;
+  tsUtc: string;
+  current: boolean; // false when the row was purged, versions are then all superseded
+  versions: TelemetryVersion[]; // oldest first
+}
+
 export interface Proof {
   included: boolean;
+  version: MerkleVersion;
+  root: string;
+  leafCount?: number;
+  tsUtc?: string;
+  // Inclusion
+  deviceId?: string;
+  leafIndex?: number;
   leafHash?: string;
-  branch?: string[];
+  signature?: string; // device signature committed by v4 leaves
+  branch?: ProofStep[];
+  // Non-inclusion (v3): adjacent leaves bracketing tsUtc and their multiproof
+  neighbours?: KeyedLeaf[];
+  proof?: string[];
+}
+
+export interface RangeProof {
+  version: MerkleVersion;
   root: string;
+  leafCount: number;
+  from: string;
+  to: string;
+  leaves: {
+    index: number;
+    tsUtc: string;
+    deviceId: string;
+    leafHash: string;
+    signature?: string;
+  }[];
+  proof: string[];
 }
 
 export interface PreviewToday {
@@ -56,12 +255,121 @@ export interface PreviewToday {
 }
 
 // Request schemas
-export const CreateSiteSchema = z.object({
+const SiteFieldsSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1),
   country: z.string().min(1),
-  timezone: z.string().min(1),
+  timezone: z.string().min(1).refine(isValidTimeZone, 'Unknown IANA time zone'),
   baselineKgPerKWh: z.number().positive(),
+  digestDayBoundary: z.enum(['utc', 'local']).default('utc'),
+  methodologyId: z.string().min(1).default(DEFAULT_METHODOLOGY_ID),
+  methodologyParams: z.record(z.number()).optional(),
+  intervalMinutes: z.number().int().positive().refine(minutes => (24 * 60) % minutes === 0, {
+    message: 'intervalMinutes must divide a day',
+  }).default(15),
+  gapFillStrategy: z.enum(GAP_FILL_STRATEGIES as [GapFillStrategy, ...GapFillStrategy[]]).default('none'),
+  gapFillMaxIntervals: z.number().int().nonnegative().default(4),
+  requireSignedTelemetry: z.boolean().default(false),
+  mqttTopic: z.string().superRefine((template, ctx) => {
+    const reason = validateTopicTemplate(template);
+    if (reason) ctx.addIssue({ code: z.ZodIssueCode.custom, message: reason });
+  }).nullable().optional(),
+  mqttEnabled: z.boolean().default(true),
+  sparkplug: SparkplugSiteConfigSchema.nullable().optional(),
+  modbus: ModbusSiteConfigSchema.nullable().optional(),
+  pullSource: z.object({ type: z.string().min(1) }).passthrough().nullable().optional(), // checked by its connector, see src/ingest/connectors.ts
+});
+
+export const CreateSiteSchema = SiteFieldsSchema.refine(site => isValidTopicSiteId(site.id), {
+  message: 'Site id cannot contain "/", "+" or "#"',
+});
+
+// Changes to an existing site: fields left out keep their stored value (no
+// defaults apply) and null clears an optional one
+export const UpdateSiteSchema = SiteFieldsSchema.partial().required({ id: true });
+
+export const CreateEmissionFactorSchema = z.object({
+  effectiveFrom: z.string().datetime(),
+  effectiveTo: z.string().datetime().optional(),
+  kgPerKWh: z.number().nonnegative(),
+  hourlyKgPerKWh: z.array(z.number().nonnegative()).length(24).optional(),
+  source: z.string().min(1),
+}).refine(factor => !factor.effectiveTo || new Date(factor.effectiveFrom) < new Date(factor.effectiveTo), {
+  message: 'effectiveFrom must be before effectiveTo',
+});
+
+export const CreateDeviceSchema = z.object({
+  deviceId: z.string().min(1).refine(id => id !== SITE_DEVICE_ID, `"${SITE_DEVICE_ID}" is reserved for site-level rows`),
+  kind: z.enum(DEVICE_KINDS as [DeviceKind, ...DeviceKind[]]),
+  revenueMeter: z.boolean().default(false),
+  name: z.string().min(1).optional(),
+  publicKey: z.string().min(1).optional(),
+  keyAlgorithm: z.enum(SIGNATURE_ALGORITHMS as [SignatureAlgorithm, ...SignatureAlgorithm[]]).optional(),
+}).refine(device => !device.revenueMeter || device.kind === 'meter', {
+  message: 'Only meters can be revenue meters',
+}).refine(device => (device.publicKey === undefined) === (device.keyAlgorithm === undefined), {
+  message: 'publicKey and keyAlgorithm go together',
+}).refine(device => {
+  if (device.publicKey === undefined || device.keyAlgorithm === undefined) return true;
+  try {
+    parsePublicKey(device.publicKey, device.keyAlgorithm);
+    return true;
+  } catch {
+    return false;
+  }
+}, {
+  message: 'publicKey must be a PEM public key of keyAlgorithm',
+});
+
+export const CreateIngestCredentialSchema = z.object({
+  name: z.string().min(1),
+  siteIds: z.array(z.string().min(1)).min(1),
+});
+
+export const CreateAdminKeySchema = z.object({
+  name: z.string().min(1),
+  role: z.enum(ADMIN_ROLES as [AdminRole, ...AdminRole[]]),
+  siteIds: z.array(z.string().min(1)).default([]),
+});
+
+export const RotateAdminKeySchema = z.object({
+  // How long the replaced key keeps working
+  graceMinutes: z.number().int().nonnegative().max(7 * 24 * 60).default(0),
+});
+
+export const MeterConfigSchema = z.object({
+  meterSerial: z.string().min(1).optional(),
+  registerMaxKWh: z.number().positive().optional(),
+  multiplier: z.number().positive().default(1),
+  maxIntervalKWh: z.number().positive().optional(),
+});
+
+const correctedNumber = z.number().finite().nonnegative().nullable().optional();
+
+export const TelemetryCorrectionSchema = z.object({
+  deviceId: z.string().min(1).default(SITE_DEVICE_ID),
+  acEnergyKWh: correctedNumber,
+  acPowerKw: correctedNumber,
+  poaIrrWm2: correctedNumber,
+  tempC: z.number().finite().nullable().optional(),
+  windMps: correctedNumber,
+  status: z.enum(['OK', 'OUTAGE', 'CURTAILED']).nullable().optional(),
+  reason: z.string().min(1),
+});
+
+export const UPLOAD_FORMATS = ['csv', 'parquet'] as const;
+
+export type UploadFormat = typeof UPLOAD_FORMATS[number];
+
+// Column mapping of a bulk upload (the "mapping" field, sent before the file)
+export const UploadMappingSchema = z.object({
+  format: z.enum(UPLOAD_FORMATS).optional(), // from the file name when absent
+  siteId: z.string().min(1).optional(), // site of every row
+  siteIdColumn: z.string().min(1).optional(), // or the column naming it
+  delimiter: z.string().length(1).default(','),
+  fields: FieldMappingSchema,
+}).refine(mapping => (mapping.siteId === undefined) !== (mapping.siteIdColumn === undefined), {
+  message: 'Exactly one of siteId and siteIdColumn is required',
 });
 
 export const BackfillRequestSchema = z.object({
@@ -95,23 +403,68 @@ export const DateRangeQuerySchema = z.object({
 export const ProofQuerySchema = z.object({
   day: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   ts: z.string().datetime(),
+  deviceId: z.string().min(1).optional(), // required when several devices reported at ts
+});
+
+export const TelemetryHistoryQuerySchema = z.object({
+  deviceId: z.string().min(1).optional(), // required when several devices reported at ts
+});
+
+export const RangeProofQuerySchema = z.object({
+  day: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  from: z.string().datetime(),
+  to: z.string().datetime(),
+}).refine(query => new Date(query.from) <= new Date(query.to), {
+  message: 'from must not be after to',
+});
+
+export const AdminAuditLogQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  actorId: z.string().min(1).optional(),
+  siteId: z.string().min(1).optional(),
+  action: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
 });
 
 // Type exports
 export type CreateSiteRequest = z.infer<typeof CreateSiteSchema>;
+export type UpdateSiteRequest = z.infer<typeof UpdateSiteSchema>;
+export type CreateEmissionFactorRequest = z.infer<typeof CreateEmissionFactorSchema>;
+export type CreateDeviceRequest = z.infer<typeof CreateDeviceSchema>;
+export type CreateIngestCredentialRequest = z.infer<typeof CreateIngestCredentialSchema>;
+export type CreateAdminKeyRequest = z.infer<typeof CreateAdminKeySchema>;
+export type RotateAdminKeyRequest = z.infer<typeof RotateAdminKeySchema>;
+export type AdminAuditLogQuery = z.infer<typeof AdminAuditLogQuerySchema>;
+export type MeterConfigRequest = z.infer<typeof MeterConfigSchema>;
+export type TelemetryCorrectionRequest = z.infer<typeof TelemetryCorrectionSchema>;
+export type UploadMapping = z.infer<typeof UploadMappingSchema>;
 export type BackfillRequest = z.infer<typeof BackfillRequestSchema>;
 export type RecomputeRequest = z.infer<typeof RecomputeRequestSchema>;
 export type AnchorRequest = z.infer<typeof AnchorRequestSchema>;
 export type PurgeRawRequest = z.infer<typeof PurgeRawRequestSchema>;
 export type DateRangeQuery = z.infer<typeof DateRangeQuerySchema>;
 export type ProofQuery = z.infer<typeof ProofQuerySchema>;
+export type TelemetryHistoryQuery = z.infer<typeof TelemetryHistoryQuerySchema>;
+export type RangeProofQuery = z.infer<typeof RangeProofQuerySchema>;
 
 // Response schemas
+export const MqttStatusSchema = z.object({
+  state: z.enum(['connecting', 'connected', 'reconnecting', 'disconnected']),
+  clientId: z.string(),
+  reconnectAttempts: z.number(), // since the last successful connect
+  subscriptions: z.number(),
+  lastConnectedAt: z.string().optional(),
+  lastMessageAt: z.string().optional(),
+});
+
 export const HealthResponseSchema = z.object({
   ok: z.boolean(),
   db: z.boolean(),
   mqtt: z.boolean(),
   adapter: z.boolean(),
+  mqttStatus: MqttStatusSchema.optional(),
 });
 
+export type MqttStatus = z.infer<typeof MqttStatusSchema>;
 export type HealthResponse = z.infer<typeof HealthResponseSchema>;
@@ -0,0 +1,100 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { createError } from '../util/index.js';
+
+// Ingest credentials. Callers of POST /v1/ingest present a bearer token:
+// either an API key issued through the admin API (stored as its SHA-256
+// only) or an HS256 JWT signed with JWT_SECRET. Both are scoped to a list of
+// site IDs; rows for other sites are rejected.
+//
+// JWT claims: sub (caller name, required), sites (site IDs, required),
+// exp and nbf (seconds, optional).
+
+export const API_KEY_PREFIX = 'ik_';
+
+// Shown in listings so a key can be recognised without storing it
+export const API_KEY_DISPLAY_LENGTH = 8;
+
+// Caller of an ingest request
+export interface IngestScope {
+  credentialId: string; // IngestCredential id, or "jwt:<sub>" for tokens
+  siteIds: string[];
+}
+
+export interface IngestTokenClaims {
+  sub: string;
+  sites: string[];
+  exp?: number | undefined;
+  nbf?: number | undefined;
+}
+
+export const generateApiKey = (): string => {
+  return `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+};
+
+export const hashApiKey = (key: string): string => {
+  return createHash('sha256').update(key, 'utf8').digest('hex');
+};
+
+export const isJwt = (token: string): boolean => {
+  return token.split('.').length === 3;
+};
+
+const decodeJwtPart = (part: string): Record<string, unknown> => {
+  try {
+    const value = JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('not an object');
+    }
+    return value;
+  } catch {
+    throw createError('Malformed token', 'INVALID_TOKEN', 401);
+  }
+};
+
+// Verify an HS256 JWT and return its ingest claims
+export const verifyIngestToken = (token: string, secret: string, now: number = Date.now()): IngestTokenClaims => {
+  const [header, payload, signature] = token.split('.');
+  if (header === undefined || payload === undefined || signature === undefined) {
+    throw createError('Malformed token', 'INVALID_TOKEN', 401);
+  }
+
+  if (decodeJwtPart(header).alg !== 'HS256') {
+    throw createError('Unsupported token algorithm', 'INVALID_TOKEN', 401);
+  }
+
+  const expected = createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw createError('Invalid token signature', 'INVALID_TOKEN', 401);
+  }
+
+  const claims = decodeJwtPart(payload);
+  const { sub, sites, exp, nbf } = claims;
+
+  if (typeof sub !== 'string' || sub.length === 0) {
+    throw createError('Token has no subject', 'INVALID_TOKEN', 401);
+  }
+
+  if (!Array.isArray(sites) || sites.length === 0 || !sites.every(site => typeof site === 'string')) {
+    throw createError('Token has no site scope', 'INVALID_TOKEN', 401);
+  }
+
+  if (typeof exp === 'number' && exp * 1000 <= now) {
+    throw createError('Token expired', 'INVALID_TOKEN', 401);
+  }
+
+  if (typeof nbf === 'number' && nbf * 1000 > now) {
+    throw createError('Token not yet valid', 'INVALID_TOKEN', 401);
+  }
+
+  return {
+    sub,
+    sites,
+    exp: typeof exp === 'number' ? exp : undefined,
+    nbf: typeof nbf === 'number' ? nbf : undefined,
+  };
+};
+
+export const isSiteInScope = (scope: IngestScope, siteId: string): boolean => {
+  return scope.siteIds.includes(siteId);
+};
@@ -1,76 +1,267 @@
 import { createHash } from 'crypto';
 
+// Tree format versions
+//
+// v1: legacy format. Leaves are sorted lexicographically, the hex strings of
+//     each pair are concatenated and hashed, and the last hash is duplicated
+//     on odd levels. No leaf/node domain separation.
+// v2: leaves are kept in the order given (ascending tsUtc for digests).
+//     leaf = sha256(0x00 || utf8(rowHash)), node = sha256(0x01 || left || right)
+//     over the raw 32-byte digests. An odd node is promoted unchanged.
+// v3: v2 tree over leaves keyed on tsUtc ("<tsUtc ISO>|<rowHash>", ascending
+//     tsUtc), with the leaf count committed in the root:
+//     root = sha256(0x02 || uint64be(leafCount) || treeRoot). Supports
+//     non-inclusion proofs for a timestamp.
+// v4: v3 with leaves also committing the reporting device and its signature:
+//     "<tsUtc ISO>|<rowHash>|<signature base64 or empty>|<deviceId>".
+export type MerkleVersion = 'v1' | 'v2' | 'v3' | 'v4';
+
+export const MERKLE_VERSIONS: readonly MerkleVersion[] = ['v1', 'v2', 'v3', 'v4'];
+export const CURRENT_MERKLE_VERSION: MerkleVersion = 'v4';
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+const ROOT_PREFIX = Buffer.from([0x02]);
+
+export interface ProofStep {
+  hash: string;
+  position: 'left' | 'right'; // side the sibling sits on
+}
+
+// Multiproof: proves several leaves at once. `proof` holds only the node
+// hashes that cannot be derived from the proven leaves, in the order the
+// verifier consumes them (level by level, ascending index within a level).
+export interface MultiProofLeaf {
+  index: number;
+  leaf: string;
+}
+
+// Device fields committed by v4 leaves
+export interface LeafDevice {
+  deviceId: string;
+  signature?: string | null | undefined;
+}
+
+// Neighbouring leaf revealed by a non-inclusion proof; v4 leaves also
+// reveal their device fields
+export interface KeyedLeaf {
+  index: number;
+  tsUtc: string;
+  rowHash: string;
+  deviceId?: string;
+  signature?: string;
+}
+
+export const isMerkleVersion = (value: unknown): value is MerkleVersion => {
+  return typeof value === 'string' && (MERKLE_VERSIONS as readonly string[]).includes(value);
+};
+
+// v3 and later: leaves keyed on tsUtc, leaf count committed in the root
+export const isTimestampKeyed = (version: MerkleVersion): boolean => {
+  return version === 'v3' || version === 'v4';
+};
+
+// Hash primitives, exported so verifiers can be built without a tree
+export const hashLeaf = (leaf: string, version: MerkleVersion): string => {
+  if (version === 'v1') {
+    return leaf;
+  }
+
+  return createHash('sha256')
+    .update(LEAF_PREFIX)
+    .update(Buffer.from(leaf, 'utf8'))
+    .digest('hex');
+};
+
+export const hashNode = (left: string, right: string, version: MerkleVersion): string => {
+  if (version === 'v1') {
+    return createHash('sha256').update(left + right).digest('hex');
+  }
+
+  return createHash('sha256')
+    .update(NODE_PREFIX)
+    .update(Buffer.from(left, 'hex'))
+    .update(Buffer.from(right, 'hex'))
+    .digest('hex');
+};
+
+// Leaf payload for a row: v3 keys the row hash on its timestamp, v4 adds
+// the device and its signature
+export const encodeMerkleLeaf = (
+  version: MerkleVersion,
+  rowHash: string,
+  tsUtc: string,
+  device?: LeafDevice
+): string => {
+  if (version === 'v4') {
+    if (!device) {
+      throw new Error('v4 leaves require the device');
+    }
+    return `${tsUtc}|${rowHash}|${device.signature ?? ''}|${device.deviceId}`;
+  }
+
+  return version === 'v3' ? `${tsUtc}|${rowHash}` : rowHash;
+};
+
+// v3 and later bind the leaf count into the root so boundary leaves can be
+// proven
+export const finalizeRoot = (treeRoot: string, leafCount: number, version: MerkleVersion): string => {
+  if (!isTimestampKeyed(version)) {
+    return treeRoot;
+  }
+
+  const count = Buffer.alloc(8);
+  count.writeBigUInt64BE(BigInt(leafCount));
+
+  return createHash('sha256')
+    .update(ROOT_PREFIX)
+    .update(count)
+    .update(Buffer.from(treeRoot, 'hex'))
+    .digest('hex');
+};
+
 // Merkle tree implementation
 export class MerkleTree {
   private leaves: string[];
   private tree: string[][];
+  private positions?: Map<string, number>; // leaf -> first index, built on first lookup
 
-  constructor(leaves: string[]) {
-    this.leaves = [...leaves].sort(); // Sort lexicographically for deterministic ordering
+  constructor(leaves: string[], private version: MerkleVersion = CURRENT_MERKLE_VERSION) {
+    // v1 sorts lexicographically; v2 and later keep caller order (ascending tsUtc)
+    this.leaves = version === 'v1' ? [...leaves].sort() : [...leaves];
     this.tree = this.buildTree();
   }
 
   private buildTree(): string[][] {
     const tree: string[][] = [];
-    tree.push([...this.leaves]);
+    let currentLevel = this.leaves.map(leaf => hashLeaf(leaf, this.version));
+    tree.push(currentLevel);
 
-    let currentLevel = this.leaves;
-    
     while (currentLevel.length > 1) {
       const nextLevel: string[] = [];
-      
+
       for (let i = 0; i < currentLevel.length; i += 2) {
-        const left = currentLevel[i];
-        const right = currentLevel[i + 1] || left; // Duplicate last hash if odd cardinality
-        
-        const combined = left + right;
-        const hash = createHash('sha256').update(combined).digest('hex');
-        nextLevel.push(hash);
+        const left = currentLevel[i] as string;
+        const right = currentLevel[i + 1];
+
+        if (right === undefined) {
+          // Odd cardinality: v1 duplicates the last hash, v2 and later promote it
+          nextLevel.push(this.version === 'v1' ? hashNode(left, left, this.version) : left);
+        } else {
+          nextLevel.push(hashNode(left, right, this.version));
+        }
       }
-      
+
       tree.push(nextLevel);
       currentLevel = nextLevel;
     }
-    
+
     return tree;
   }
 
+  getVersion(): MerkleVersion {
+    return this.version;
+  }
+
   getRoot(): string {
-    return this.tree[this.tree.length - 1][0];
+    const top = this.tree[this.tree.length - 1];
+    if (!top || top.length === 0) {
+      throw new Error('Cannot compute root of an empty tree');
+    }
+    return finalizeRoot(top[0] as string, this.leaves.length, this.version);
   }
 
-  getProof(leaf: string): string[] {
-    const leafIndex = this.leaves.indexOf(leaf);
+  // Index of a leaf in tree order, in constant time so callers can look up
+  // every leaf of a day
+  indexOf(leaf: string): number {
+    if (!this.positions) {
+      const positions = new Map<string, number>();
+      this.leaves.forEach((value, index) => {
+        if (!positions.has(value)) positions.set(value, index);
+      });
+      this.positions = positions;
+    }
+
+    return this.positions.get(leaf) ?? -1;
+  }
+
+  getProof(leaf: string): ProofStep[] {
+    const leafIndex = this.indexOf(leaf);
     if (leafIndex === -1) {
       throw new Error('Leaf not found in tree');
     }
 
-    const proof: string[] = [];
+    return this.getProofByIndex(leafIndex);
+  }
+
+  getProofByIndex(leafIndex: number): ProofStep[] {
+    if (leafIndex < 0 || leafIndex >= this.leaves.length) {
+      throw new Error(`Leaf index ${leafIndex} out of range`);
+    }
+
+    const proof: ProofStep[] = [];
     let currentIndex = leafIndex;
 
     for (let level = 0; level < this.tree.length - 1; level++) {
-      const currentLevel = this.tree[level];
-      const siblingIndex = currentIndex % 2 === 0 ? currentIndex + 1 : currentIndex - 1;
-      
-      if (siblingIndex < currentLevel.length) {
-        proof.push(currentLevel[siblingIndex]);
+      const currentLevel = this.tree[level] as string[];
+      const isRightChild = currentIndex % 2 === 1;
+      const siblingIndex = isRightChild ? currentIndex - 1 : currentIndex + 1;
+      const sibling = currentLevel[siblingIndex];
+
+      if (sibling !== undefined) {
+        proof.push({ hash: sibling, position: isRightChild ? 'left' : 'right' });
+      } else if (this.version === 'v1') {
+        // v1 paired the last node with itself
+        proof.push({ hash: currentLevel[currentIndex] as string, position: 'right' });
       }
-      
+
       currentIndex = Math.floor(currentIndex / 2);
     }
 
     return proof;
   }
 
-  verifyProof(leaf: string, proof: string[], root: string): boolean {
-    let hash = leaf;
-    
-    for (const sibling of proof) {
-      const combined = hash + sibling;
-      hash = createHash('sha256').update(combined).digest('hex');
+  getLeafCount(): number {
+    return this.leaves.length;
+  }
+
+  getMultiProof(leafIndices: number[]): string[] {
+    let known = [...new Set(leafIndices)].sort((a, b) => a - b);
+    if (known.length === 0) {
+      throw new Error('At least one leaf index is required');
+    }
+    for (const index of known) {
+      if (index < 0 || index >= this.leaves.length) {
+        throw new Error(`Leaf index ${index} out of range`);
+      }
     }
-    
-    return hash === root;
+
+    const proof: string[] = [];
+
+    for (let level = 0; level < this.tree.length - 1; level++) {
+      const currentLevel = this.tree[level] as string[];
+      const knownSet = new Set(known);
+      const parents: number[] = [];
+
+      for (const index of known) {
+        const parent = Math.floor(index / 2);
+        if (parents[parents.length - 1] === parent) continue; // sibling already handled
+
+        const siblingIndex = index ^ 1;
+        if (siblingIndex < currentLevel.length && !knownSet.has(siblingIndex)) {
+          proof.push(currentLevel[siblingIndex] as string);
+        }
+        parents.push(parent);
+      }
+
+      known = parents;
+    }
+
+    return proof;
+  }
+
+  verifyProof(leaf: string, proof: ProofStep[], root: string): boolean {
+    return verifyMerkleProof(leaf, proof, root, this.version, this.leaves.length);
   }
 
   getLeaves(): string[] {
@@ -83,25 +274,160 @@ export class MerkleTree {
 }
 
 // Utility functions for Merkle operations
-export const buildMerkleTree = (rowHashes: string[]): MerkleTree => {
-  return new MerkleTree(rowHashes);
+export const buildMerkleTree = (
+  rowHashes: string[],
+  version: MerkleVersion = CURRENT_MERKLE_VERSION
+): MerkleTree => {
+  return new MerkleTree(rowHashes, version);
 };
 
-export const generateMerkleRoot = (rowHashes: string[]): string => {
-  const tree = buildMerkleTree(rowHashes);
+export const generateMerkleRoot = (
+  rowHashes: string[],
+  version: MerkleVersion = CURRENT_MERKLE_VERSION
+): string => {
+  const tree = buildMerkleTree(rowHashes, version);
   return tree.getRoot();
 };
 
-export const generateMerkleProof = (rowHashes: string[], targetHash: string): string[] => {
-  const tree = buildMerkleTree(rowHashes);
+export const generateMerkleProof = (
+  rowHashes: string[],
+  targetHash: string,
+  version: MerkleVersion = CURRENT_MERKLE_VERSION
+): ProofStep[] => {
+  const tree = buildMerkleTree(rowHashes, version);
   return tree.getProof(targetHash);
 };
 
+// Standalone verifier: depends on nothing but sha256, so auditors can run it
+// offline against the root published in the anchor transaction. v3 proofs
+// and later also need the leaf count committed in the root.
 export const verifyMerkleProof = (
   leaf: string,
+  proof: ProofStep[],
+  root: string,
+  version: MerkleVersion = CURRENT_MERKLE_VERSION,
+  leafCount?: number
+): boolean => {
+  if (isTimestampKeyed(version) && leafCount === undefined) {
+    return false;
+  }
+
+  let hash = hashLeaf(leaf, version);
+
+  for (const step of proof) {
+    hash = step.position === 'left'
+      ? hashNode(step.hash, hash, version)
+      : hashNode(hash, step.hash, version);
+  }
+
+  return finalizeRoot(hash, leafCount ?? 0, version) === root;
+};
+
+export const verifyMerkleMultiProof = (
+  leaves: MultiProofLeaf[],
+  proof: string[],
+  leafCount: number,
+  root: string,
+  version: MerkleVersion = CURRENT_MERKLE_VERSION
+): boolean => {
+  if (leaves.length === 0 || leafCount < 1) {
+    return false;
+  }
+
+  let nodes = new Map<number, string>();
+  for (const { index, leaf } of leaves) {
+    if (!Number.isInteger(index) || index < 0 || index >= leafCount || nodes.has(index)) {
+      return false;
+    }
+    nodes.set(index, hashLeaf(leaf, version));
+  }
+
+  let cursor = 0;
+
+  for (let levelLength = leafCount; levelLength > 1; levelLength = Math.ceil(levelLength / 2)) {
+    const parents = new Map<number, string>();
+    const indices = [...nodes.keys()].sort((a, b) => a - b);
+
+    for (const index of indices) {
+      const parent = Math.floor(index / 2);
+      if (parents.has(parent)) continue; // sibling already handled
+
+      const hash = nodes.get(index) as string;
+      const siblingIndex = index ^ 1;
+
+      if (siblingIndex >= levelLength) {
+        // Odd cardinality: v1 duplicates the last hash, v2 and later promote it
+        parents.set(parent, version === 'v1' ? hashNode(hash, hash, version) : hash);
+        continue;
+      }
+
+      const sibling = nodes.get(siblingIndex) ?? proof[cursor++];
+      if (sibling === undefined) {
+        return false;
+      }
+
+      parents.set(parent, index % 2 === 0
+        ? hashNode(hash, sibling, version)
+        : hashNode(sibling, hash, version));
+    }
+
+    nodes = parents;
+  }
+
+  const treeRoot = nodes.get(0);
+  return cursor === proof.length && treeRoot !== undefined &&
+    finalizeRoot(treeRoot, leafCount, version) === root;
+};
+
+// Proves that no leaf of a v3/v4 tree has the given tsUtc: the revealed leaves
+// must be adjacent and bracket the timestamp, or be the first/last leaf with
+// the timestamp outside the covered range.
+export const verifyNonInclusionProof = (
+  tsUtc: string,
+  neighbours: KeyedLeaf[],
   proof: string[],
-  root: string
+  leafCount: number,
+  root: string,
+  version: MerkleVersion = CURRENT_MERKLE_VERSION
 ): boolean => {
-  const tree = new MerkleTree([leaf]); // Create minimal tree for verification
-  return tree.verifyProof(leaf, proof, root);
+  if (!isTimestampKeyed(version) || neighbours.length === 0 || neighbours.length > 2) {
+    return false;
+  }
+
+  const target = Date.parse(tsUtc);
+  const sorted = [...neighbours].sort((a, b) => a.index - b.index);
+  const first = sorted[0] as KeyedLeaf;
+  const last = sorted[sorted.length - 1] as KeyedLeaf;
+
+  if (Number.isNaN(target) || sorted.some(leaf => Number.isNaN(Date.parse(leaf.tsUtc)))) {
+    return false;
+  }
+
+  let bracketed: boolean;
+  if (sorted.length === 2) {
+    bracketed = last.index === first.index + 1 &&
+      Date.parse(first.tsUtc) < target && target < Date.parse(last.tsUtc);
+  } else if (first.index === 0 && target < Date.parse(first.tsUtc)) {
+    bracketed = true;
+  } else {
+    bracketed = first.index === leafCount - 1 && Date.parse(first.tsUtc) < target;
+  }
+
+  if (!bracketed) {
+    return false;
+  }
+
+  if (version === 'v4' && sorted.some(leaf => leaf.deviceId === undefined)) {
+    return false;
+  }
+
+  const leaves = sorted.map(leaf => ({
+    index: leaf.index,
+    leaf: encodeMerkleLeaf(version, leaf.rowHash, leaf.tsUtc, {
+      deviceId: leaf.deviceId ?? '',
+      signature: leaf.signature,
+    }),
+  }));
+
+  return verifyMerkleMultiProof(leaves, proof, leafCount, root, version);
 };
@@ -0,0 +1,86 @@
+// Cumulative energy register conversion. Revenue meters report a running
+// kWh register; interval energy is the difference to the previous reading of
+// the same meter, with rollover, resets and meter replacement detected here.
+// The register value itself is kept on the row so the conversion can be
+// re-derived by an auditor.
+
+export type RegisterEvent =
+  | 'initial'       // first reading, no previous reading to difference against
+  | 'rollover'      // register wrapped past registerMaxKWh
+  | 'reset'         // register went backwards without a plausible rollover
+  | 'replacement'   // meter serial changed
+  | 'discontinuity' // increase above maxIntervalKWh
+  | 'late';         // arrived after a later reading, energy already counted there
+
+export interface MeterSettings {
+  registerMaxKWh?: number | null | undefined; // register wraps to 0 past this value
+  multiplier: number;                         // register units to kWh (CT/PT ratio)
+  maxIntervalKWh?: number | null | undefined; // larger increases are not trusted
+}
+
+export interface RegisterReading {
+  tsUtc: Date;
+  registerKWh: number;
+  meterSerial?: string | null | undefined;
+}
+
+export interface RegisterConversion {
+  acEnergyKWh: number | undefined; // undefined when the interval cannot be derived
+  event: RegisterEvent | undefined; // undefined for a regular increase
+}
+
+export const DEFAULT_METER_SETTINGS: MeterSettings = {
+  multiplier: 1,
+};
+
+// Interval kWh between the previous reading and the current one. `hasLater`
+// is true when a reading after the current one is already stored: its
+// interval then already covers this one, so nothing is counted twice.
+export const convertRegisterReading = (
+  current: RegisterReading,
+  previous: RegisterReading | null,
+  settings: MeterSettings,
+  hasLater: boolean = false
+): RegisterConversion => {
+  if (hasLater) {
+    return { acEnergyKWh: undefined, event: 'late' };
+  }
+
+  if (!previous) {
+    return { acEnergyKWh: undefined, event: 'initial' };
+  }
+
+  if (current.meterSerial && previous.meterSerial && current.meterSerial !== previous.meterSerial) {
+    return { acEnergyKWh: undefined, event: 'replacement' };
+  }
+
+  const multiplier = settings.multiplier;
+  const delta = current.registerKWh - previous.registerKWh;
+
+  if (delta >= 0) {
+    const energy = delta * multiplier;
+    if (settings.maxIntervalKWh && energy > settings.maxIntervalKWh) {
+      return { acEnergyKWh: undefined, event: 'discontinuity' };
+    }
+    return { acEnergyKWh: energy, event: undefined };
+  }
+
+  // Register went backwards: a rollover if the wrapped delta is small
+  // relative to the register size, otherwise a reset to zero
+  if (settings.registerMaxKWh) {
+    const wrapped = (settings.registerMaxKWh - previous.registerKWh + current.registerKWh) * multiplier;
+    const plausible = wrapped < (settings.registerMaxKWh * multiplier) / 2 &&
+      (!settings.maxIntervalKWh || wrapped <= settings.maxIntervalKWh);
+    if (plausible) {
+      return { acEnergyKWh: wrapped, event: 'rollover' };
+    }
+  }
+
+  // After a reset the register counts from zero, so the reading is a lower
+  // bound for the energy since the previous reading
+  const sinceReset = current.registerKWh * multiplier;
+  if (settings.maxIntervalKWh && sinceReset > settings.maxIntervalKWh) {
+    return { acEnergyKWh: undefined, event: 'reset' };
+  }
+  return { acEnergyKWh: sinceReset, event: 'reset' };
+};
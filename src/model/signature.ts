@@ -0,0 +1,64 @@
+import { createPublicKey, verify, KeyObject } from 'crypto';
+import { canonicalRowEncoding, RowHashInput, RowHashVersion } from './telemetry.js';
+
+// Device signatures. A device with a registered public key signs every row
+// it reports; the signature covers the row's canonical encoding (row hash
+// version 4, see src/model/telemetry.ts) as reported, so it can be checked
+// against the stored row by anyone holding the device's public key.
+//
+// ed25519:    Ed25519 over the UTF-8 encoding
+// ecdsa-p256: ECDSA on P-256 with SHA-256, DER-encoded signature
+//
+// Public keys are PEM (SPKI), signatures base64.
+
+export type SignatureAlgorithm = 'ed25519' | 'ecdsa-p256';
+
+export const SIGNATURE_ALGORITHMS: readonly SignatureAlgorithm[] = ['ed25519', 'ecdsa-p256'];
+
+// Encoding version devices sign; it is the first to commit the deviceId
+export const SIGNED_ROW_HASH_VERSION: RowHashVersion = 4;
+
+export const isSignatureAlgorithm = (value: unknown): value is SignatureAlgorithm => {
+  return typeof value === 'string' && (SIGNATURE_ALGORITHMS as readonly string[]).includes(value);
+};
+
+// Parse a PEM public key, checking it is a key of the given algorithm
+export const parsePublicKey = (pem: string, algorithm: SignatureAlgorithm): KeyObject => {
+  const key = createPublicKey(pem);
+
+  const matches = algorithm === 'ed25519'
+    ? key.asymmetricKeyType === 'ed25519'
+    : key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1';
+
+  if (!matches) {
+    throw new Error(`Public key is not a ${algorithm} key`);
+  }
+
+  return key;
+};
+
+// Message a device signs for a row. Register readings are signed without
+// acEnergyKWh, which is derived on ingestion.
+export const signedRowEncoding = (data: RowHashInput): string => {
+  const reported = data.acEnergyRegisterKWh !== null && data.acEnergyRegisterKWh !== undefined
+    ? { ...data, acEnergyKWh: undefined }
+    : data;
+
+  return canonicalRowEncoding(reported, SIGNED_ROW_HASH_VERSION);
+};
+
+// Check a base64 signature over a row; malformed keys or signatures fail
+export const verifyRowSignature = (
+  data: RowHashInput,
+  signature: string,
+  publicKey: string,
+  algorithm: SignatureAlgorithm
+): boolean => {
+  try {
+    const key = parsePublicKey(publicKey, algorithm);
+    const message = Buffer.from(signedRowEncoding(data), 'utf8');
+    return verify(algorithm === 'ed25519' ? null : 'sha256', message, key, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+};
@@ -1,18 +1,29 @@
+import { createHash } from 'crypto';
 import { z } from 'zod';
 import { precisionConfig } from '../config/index.js';
 
+// Device id of rows reported for the site as a whole (and of rows ingested
+// before devices were introduced)
+export const SITE_DEVICE_ID = 'site';
+
 // Raw telemetry input schema
 export const RawTelemetryInputSchema = z.object({
   siteId: z.string().min(1),
+  deviceId: z.string().min(1).optional(), // registered device, see src/aggregate/devices.ts
   tsUtc: z.string().datetime(),
   poaIrrWm2: z.number().finite().nonnegative().optional(),
   tempC: z.number().finite().optional(),
   windMps: z.number().finite().nonnegative().optional(),
   acPowerKw: z.number().finite().nonnegative().optional(),
   acEnergyKWh: z.number().finite().nonnegative().optional(),
+  acEnergyRegisterKWh: z.number().finite().nonnegative().optional(), // cumulative meter register
+  meterSerial: z.string().min(1).optional(),
   status: z.enum(['OK', 'OUTAGE', 'CURTAILED']).optional(),
-  source: z.enum(['mqtt', 'http', 'pull']),
+  source: z.enum(['mqtt', 'http', 'pull', 'modbus']),
   uniqKey: z.string().optional(),
+  signature: z.string().min(1).optional(), // base64, by the device's registered key, see src/model/signature.ts
+}).refine(input => input.acEnergyKWh === undefined || input.acEnergyRegisterKWh === undefined, {
+  message: 'Provide either acEnergyKWh or acEnergyRegisterKWh, not both',
 });
 
 export type RawTelemetryInput = z.infer<typeof RawTelemetryInputSchema>;
@@ -20,16 +31,56 @@ export type RawTelemetryInput = z.infer<typeof RawTelemetryInputSchema>;
 // Normalized telemetry data
 export interface NormalizedTelemetry {
   siteId: string;
+  deviceId: string;
   tsUtc: Date;
-  poaIrrWm2?: number;
-  tempC?: number;
-  windMps?: number;
-  acPowerKw?: number;
-  acEnergyKWh?: number;
-  status?: string;
+  poaIrrWm2?: number | undefined;
+  tempC?: number | undefined;
+  windMps?: number | undefined;
+  acPowerKw?: number | undefined;
+  acEnergyKWh?: number | undefined;
+  acEnergyRegisterKWh?: number | undefined;
+  meterSerial?: string | undefined;
+  registerEvent?: string | undefined; // set by the ingest pipeline, see src/model/meter.ts
+  status?: string | undefined;
   source: string;
-  uniqKey?: string;
+  uniqKey?: string | undefined;
+  signature?: string | undefined; // not part of rowHash, committed by v4 Merkle leaves
   rowHash: string;
+  hashVersion: RowHashVersion;
+}
+
+// A RawTelemetry row as stored
+export interface StoredTelemetry {
+  id: string;
+  siteId: string;
+  deviceId: string;
+  tsUtc: Date;
+  poaIrrWm2: number | null;
+  tempC: number | null;
+  windMps: number | null;
+  acPowerKw: number | null;
+  acEnergyKWh: number | null;
+  acEnergyRegisterKWh: number | null;
+  meterSerial: string | null;
+  registerEvent: string | null;
+  status: string | null;
+  rowHash: string;
+  hashVersion: number;
+  source: string;
+  uniqKey: string | null;
+  signature: string | null;
+  credentialId: string | null;
+  revision: number;
+  createdAt: Date;
+  revisedAt: Date | null;
+}
+
+// A replaced version of a RawTelemetry row, as stored in TelemetryRevision
+export interface StoredTelemetryRevision extends Omit<StoredTelemetry, 'createdAt' | 'revisedAt'> {
+  recordedAt: Date;
+  supersededAt: Date;
+  changeSource: string;
+  reason: string;
 }
 
 // Normalization functions
@@ -47,57 +98,203 @@ export const normalizeTelemetry = (input: RawTelemetryInput): NormalizedTelemetr
   const windMps = normalizeNumber(input.windMps, precisionConfig.temp); // Using temp precision for wind
   const acPowerKw = normalizeNumber(input.acPowerKw, precisionConfig.power);
   const acEnergyKWh = normalizeNumber(input.acEnergyKWh, precisionConfig.energy);
+  const acEnergyRegisterKWh = normalizeNumber(input.acEnergyRegisterKWh, REGISTER_DECIMALS);
+  
+  const deviceId = input.deviceId ?? SITE_DEVICE_ID;
   
   // Generate row hash
+  const hashVersion = CURRENT_ROW_HASH_VERSION;
   const rowHash = generateRowHash({
     siteId: input.siteId,
+    deviceId,
     tsUtc: tsUtc.toISOString(),
     acEnergyKWh,
     acPowerKw,
     poaIrrWm2,
     tempC,
-    status: input.status || '',
-  });
+    windMps,
+    acEnergyRegisterKWh,
+    meterSerial: input.meterSerial,
+    status: input.status,
+    source: input.source,
+    uniqKey: input.uniqKey,
+  }, hashVersion);
   
   return {
     siteId: input.siteId,
+    deviceId,
     tsUtc,
     poaIrrWm2,
     tempC,
     windMps,
     acPowerKw,
     acEnergyKWh,
+    acEnergyRegisterKWh,
+    meterSerial: input.meterSerial,
     status: input.status,
     source: input.source,
     uniqKey: input.uniqKey,
+    signature: input.signature,
     rowHash,
+    hashVersion,
   };
 };
 
-// Row hash generation
-export const generateRowHash = (data: {
+// Row hash versions, stored per row in RawTelemetry.hashVersion
+//
+// 1: legacy. siteId|tsUtc|acEnergyKWh|acPowerKw|poaIrrWm2|tempC|status with
+//    numbers rendered by Number#toString. Skips wind, source and uniqKey.
+// 2: "rh2" tag followed by every field in ROW_HASH_FIELDS[2] as name=value,
+//    joined by "|". Numbers use fixed decimals, absent values are empty and
+//    "%", "|" and "=" in strings are percent-encoded.
+// 3: as 2 with tag "rh3", adding the cumulative register and meter serial
+//    the interval energy was derived from.
+// 4: as 3 with tag "rh4", adding the device the row was reported by.
+export type RowHashVersion = 1 | 2 | 3 | 4;
+
+export const CURRENT_ROW_HASH_VERSION: RowHashVersion = 4;
+
+// Register readings keep Wh resolution
+export const REGISTER_DECIMALS = 3;
+
+export interface RowHashInput {
   siteId: string;
-  tsUtc: string;
-  acEnergyKWh?: number;
-  acPowerKw?: number;
-  poaIrrWm2?: number;
-  tempC?: number;
-  status: string;
-}): string => {
-  const crypto = require('crypto');
-  
-  // Create deterministic string representation
-  const normalized = [
-    data.siteId,
-    data.tsUtc,
-    data.acEnergyKWh?.toString() || '',
-    data.acPowerKw?.toString() || '',
-    data.poaIrrWm2?.toString() || '',
-    data.tempC?.toString() || '',
-    data.status,
+  tsUtc: string; // ISO 8601, as produced by Date#toISOString
+  acEnergyKWh?: number | null | undefined;
+  acPowerKw?: number | null | undefined;
+  poaIrrWm2?: number | null | undefined;
+  tempC?: number | null | undefined;
+  windMps?: number | null | undefined;
+  status?: string | null | undefined;
+  source?: string | null | undefined;
+  uniqKey?: string | null | undefined;
+  acEnergyRegisterKWh?: number | null | undefined;
+  meterSerial?: string | null | undefined;
+  deviceId?: string | null | undefined;
+}
+
+interface RowHashField {
+  name: keyof RowHashInput;
+  decimals?: number; // numeric fields only
+}
+
+// Field order and decimals are part of the spec: changing them requires a
+// new hash version so rows hashed earlier stay verifiable.
+export const ROW_HASH_FIELDS: Record<Exclude<RowHashVersion, 1>, readonly RowHashField[]> = {
+  2: [
+    { name: 'siteId' },
+    { name: 'tsUtc' },
+    { name: 'acEnergyKWh', decimals: 2 },
+    { name: 'acPowerKw', decimals: 3 },
+    { name: 'poaIrrWm2', decimals: 1 },
+    { name: 'tempC', decimals: 1 },
+    { name: 'windMps', decimals: 1 },
+    { name: 'status' },
+    { name: 'source' },
+    { name: 'uniqKey' },
+  ],
+  3: [
+    { name: 'siteId' },
+    { name: 'tsUtc' },
+    { name: 'acEnergyKWh', decimals: 2 },
+    { name: 'acPowerKw', decimals: 3 },
+    { name: 'poaIrrWm2', decimals: 1 },
+    { name: 'tempC', decimals: 1 },
+    { name: 'windMps', decimals: 1 },
+    { name: 'status' },
+    { name: 'source' },
+    { name: 'uniqKey' },
+    { name: 'acEnergyRegisterKWh', decimals: REGISTER_DECIMALS },
+    { name: 'meterSerial' },
+  ],
+  4: [
+    { name: 'siteId' },
+    { name: 'deviceId' },
+    { name: 'tsUtc' },
+    { name: 'acEnergyKWh', decimals: 2 },
+    { name: 'acPowerKw', decimals: 3 },
+    { name: 'poaIrrWm2', decimals: 1 },
+    { name: 'tempC', decimals: 1 },
+    { name: 'windMps', decimals: 1 },
+    { name: 'status' },
+    { name: 'source' },
+    { name: 'uniqKey' },
+    { name: 'acEnergyRegisterKWh', decimals: REGISTER_DECIMALS },
+    { name: 'meterSerial' },
+  ],
+};
+
+const escapeHashValue = (value: string): string => {
+  return value.replace(/%/g, '%25').replace(/\|/g, '%7C').replace(/=/g, '%3D');
+};
+
+const encodeHashField = (field: RowHashField, value: RowHashInput[keyof RowHashInput]): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number') {
+    if (!isFinite(value)) return '';
+    return field.decimals === undefined ? String(value) : value.toFixed(field.decimals);
+  }
+  return escapeHashValue(value);
+};
+
+// Canonical byte string hashed into rowHash. Exposed so external verifiers
+// and device signatures can be checked against the same encoding.
+export const canonicalRowEncoding = (
+  data: RowHashInput,
+  version: RowHashVersion = CURRENT_ROW_HASH_VERSION
+): string => {
+  if (version === 1) {
+    return [
+      data.siteId,
+      data.tsUtc,
+      data.acEnergyKWh?.toString() || '',
+      data.acPowerKw?.toString() || '',
+      data.poaIrrWm2?.toString() || '',
+      data.tempC?.toString() || '',
+      data.status || '',
+    ].join('|');
+  }
+
+  const fields = ROW_HASH_FIELDS[version];
+  if (!fields) {
+    throw new Error(`Unsupported row hash version: ${version}`);
+  }
+
+  return [
+    `rh${version}`,
+    ...fields.map(field => `${field.name}=${encodeHashField(field, data[field.name])}`),
   ].join('|');
-  
-  return crypto.createHash('sha256').update(normalized).digest('hex');
+};
+
+// Row hash generation
+export const generateRowHash = (
+  data: RowHashInput,
+  version: RowHashVersion = CURRENT_ROW_HASH_VERSION
+): string => {
+  return createHash('sha256').update(canonicalRowEncoding(data, version)).digest('hex');
+};
+
+// Hash input of a stored row, to recompute its hash under any version
+export const storedRowHashInput = (row: Omit<RowHashInput, 'tsUtc'> & { tsUtc: Date }): RowHashInput => {
+  return {
+    siteId: row.siteId,
+    deviceId: row.deviceId,
+    tsUtc: row.tsUtc.toISOString(),
+    acEnergyKWh: row.acEnergyKWh,
+    acPowerKw: row.acPowerKw,
+    poaIrrWm2: row.poaIrrWm2,
+    tempC: row.tempC,
+    windMps: row.windMps,
+    status: row.status,
+    source: row.source,
+    uniqKey: row.uniqKey,
+    acEnergyRegisterKWh: row.acEnergyRegisterKWh,
+    meterSerial: row.meterSerial,
+  };
+};
+
+export const isRowHashVersion = (value: unknown): value is RowHashVersion => {
+  return value === 1 || value === 2 || value === 3 || value === 4;
 };
 
 // Validation functions
@@ -105,18 +302,78 @@ export const validateTelemetryInput = (input: unknown): RawTelemetryInput => {
   return RawTelemetryInputSchema.parse(input);
 };
 
-export const validateTelemetryArray = (inputs: unknown[]): RawTelemetryInput[] => {
-  return z.array(RawTelemetryInputSchema).parse(inputs);
+export interface TelemetryBatchValidation {
+  accepted: { index: number; input: RawTelemetryInput }[];
+  rejected: { index: number; reason: string }[];
+}
+
+// Validate a batch item by item, so one bad item does not reject the rest.
+// A later item for the same site, device and tsUtc, or with the same
+// uniqKey, is rejected as a duplicate.
+export const validateTelemetryBatch = (inputs: unknown[]): TelemetryBatchValidation => {
+  const result: TelemetryBatchValidation = { accepted: [], rejected: [] };
+  const firstIndex = new Map<string, number>();
+
+  inputs.forEach((item, index) => {
+    const parsed = RawTelemetryInputSchema.safeParse(item);
+    if (!parsed.success) {
+      result.rejected.push({
+        index,
+        reason: parsed.error.errors
+          .map(err => (err.path.length > 0 ? `${err.path.join('.')}: ${err.message}` : err.message))
+          .join('; '),
+      });
+      return;
+    }
+
+    const input = parsed.data;
+    const key = `${input.siteId}|${input.deviceId ?? SITE_DEVICE_ID}|${new Date(input.tsUtc).toISOString()}`;
+    const uniqKey = input.uniqKey !== undefined ? `${input.siteId}|uniqKey=${input.uniqKey}` : undefined;
+    const first = firstIndex.get(key) ?? (uniqKey !== undefined ? firstIndex.get(uniqKey) : undefined);
+    if (first !== undefined) {
+      result.rejected.push({ index, reason: `Duplicate of item ${first} in this batch` });
+      return;
+    }
+
+    firstIndex.set(key, index);
+    if (uniqKey !== undefined) firstIndex.set(uniqKey, index);
+    result.accepted.push({ index, input });
+  });
+
+  return result;
+};
+
+// Plausible value ranges, [min, max]
+export const VALUE_RANGES = {
+  poaIrrWm2: [0, 2000],
+  tempC: [-50, 80],
+  windMps: [0, 100],
+  acPowerKw: [0, 10000],
+  acEnergyKWh: [0, 1000],
+} as const;
+
+const clamp = (value: number | undefined, [min, max]: readonly [number, number]): number | undefined => {
+  return value === undefined ? undefined : Math.min(Math.max(value, min), max);
 };
 
 // Clamp absurd values
 export const clampValues = (input: RawTelemetryInput): RawTelemetryInput => {
   return {
     ...input,
-    poaIrrWm2: input.poaIrrWm2 ? Math.min(Math.max(input.poaIrrWm2, 0), 2000) : undefined,
-    tempC: input.tempC ? Math.min(Math.max(input.tempC, -50), 80) : undefined,
-    windMps: input.windMps ? Math.min(Math.max(input.windMps, 0), 100) : undefined,
-    acPowerKw: input.acPowerKw ? Math.min(Math.max(input.acPowerKw, 0), 10000) : undefined,
-    acEnergyKWh: input.acEnergyKWh ? Math.min(Math.max(input.acEnergyKWh, 0), 1000) : undefined,
+    poaIrrWm2: clamp(input.poaIrrWm2, VALUE_RANGES.poaIrrWm2),
+    tempC: clamp(input.tempC, VALUE_RANGES.tempC),
+    windMps: clamp(input.windMps, VALUE_RANGES.windMps),
+    acPowerKw: clamp(input.acPowerKw, VALUE_RANGES.acPowerKw),
+    acEnergyKWh: clamp(input.acEnergyKWh, VALUE_RANGES.acEnergyKWh),
   };
 };
+
+// First field outside VALUE_RANGES, if any. Signed rows are stored as signed,
+// so they are rejected rather than clamped.
+export const findOutOfRangeValue = (input: RawTelemetryInput): keyof typeof VALUE_RANGES | undefined => {
+  return (Object.keys(VALUE_RANGES) as (keyof typeof VALUE_RANGES)[]).find(field => {
+    const value = input[field];
+    const [min, max] = VALUE_RANGES[field];
+    return value !== undefined && (value < min || value > max);
+  });
+};
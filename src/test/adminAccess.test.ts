@@ -0,0 +1,43 @@
+import { AdminActor, checkAdminAccess, generateAdminKey, secretsEqual } from '../model/adminAccess.js';
+
+describe('Admin access', () => {
+  const actor = (role: AdminActor['role'], siteIds: string[] = []): AdminActor => ({
+    id: 'key-1',
+    name: 'test key',
+    role,
+    siteIds,
+  });
+
+  test('should allow each role only its actions', () => {
+    expect(checkAdminAccess(actor('admin'), 'admin-key.create')).toBeUndefined();
+    expect(checkAdminAccess(actor('site-manager'), 'device.register', ['PRJ001'])).toBeUndefined();
+    expect(checkAdminAccess(actor('site-manager'), 'anchor', ['PRJ001'])).toBe('Role site-manager may not perform anchor');
+    expect(checkAdminAccess(actor('operator'), 'raw.purge', ['PRJ001'])).toBeUndefined();
+    expect(checkAdminAccess(actor('operator'), 'site.upsert', ['PRJ001'])).toBe('Role operator may not perform site.upsert');
+    expect(checkAdminAccess(actor('auditor'), 'audit-log.read')).toBeUndefined();
+    expect(checkAdminAccess(actor('auditor'), 'recompute', ['PRJ001'])).toBe('Role auditor may not perform recompute');
+  });
+
+  test('should limit scoped keys to their sites', () => {
+    const scoped = actor('operator', ['PRJ001']);
+
+    expect(checkAdminAccess(scoped, 'recompute', ['PRJ001'])).toBeUndefined();
+    expect(checkAdminAccess(scoped, 'recompute', ['PRJ002'])).toBe("Site PRJ002 is outside the key's scope");
+    expect(checkAdminAccess(actor('site-manager', ['PRJ001']), 'ingest-credential.create', ['PRJ001', 'PRJ002']))
+      .toBe("Site PRJ002 is outside the key's scope");
+
+    // Actions not tied to sites need an unscoped key unless they only read
+    expect(checkAdminAccess(actor('admin', ['PRJ001']), 'admin-key.create')).toBe('admin-key.create requires a key for all sites');
+    expect(checkAdminAccess(actor('auditor', ['PRJ001']), 'audit-log.read')).toBeUndefined();
+  });
+
+  test('should compare keys in constant time and issue distinct keys', () => {
+    const key = generateAdminKey();
+
+    expect(key.startsWith('ak_')).toBe(true);
+    expect(generateAdminKey()).not.toBe(key);
+    expect(secretsEqual(key, key)).toBe(true);
+    expect(secretsEqual(key, `${key}x`)).toBe(false);
+    expect(secretsEqual('', key)).toBe(false);
+  });
+});
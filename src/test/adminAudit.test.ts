@@ -0,0 +1,78 @@
+import { prisma } from '../db.js';
+import { auditAdminAction } from '../api/adminAuth.js';
+import { redactSecrets, REDACTED } from '../model/adminAccess.js';
+
+// Audit entries are kept in memory
+jest.mock('../db.js', () => {
+  const entries: any[] = [];
+  return {
+    prisma: {
+      entries,
+      adminAuditLog: {
+        create: async ({ data }: any) => {
+          entries.push(data);
+        },
+      },
+    },
+  };
+});
+
+const entries = (prisma as any).entries as any[];
+
+describe('Admin audit log', () => {
+  test('should redact credential fields and keep env:NAME references', () => {
+    expect(redactSecrets({
+      id: 'PRJ001',
+      pullSource: {
+        type: 'rest',
+        auth: { type: 'header', name: 'x-api-key', value: 'k-123' },
+        secretAccessKey: 'env:S3_SECRET',
+      },
+      devices: [{ deviceId: 'INV-01', password: 'hunter2', apiKey: null }],
+    })).toEqual({
+      id: 'PRJ001',
+      pullSource: {
+        type: 'rest',
+        auth: { type: 'header', name: 'x-api-key', value: REDACTED },
+        secretAccessKey: 'env:S3_SECRET',
+      },
+      devices: [{ deviceId: 'INV-01', password: REDACTED, apiKey: null }],
+    });
+
+    expect(redactSecrets({ auth: { type: 'basic', username: 'oracle', password: { nested: 'hunter2' } } }))
+      .toEqual({ auth: { type: 'basic', username: 'oracle', password: { nested: REDACTED } } });
+  });
+
+  test('should never write secrets to AdminAuditLog', async () => {
+    const secrets = ['eyJhbGciOiJIUzI1NiJ9.token', 'hunter2', 'wJalrXUtnFEMI/K7MDENG', 'k-123'];
+    const request: any = {
+      id: 'req-1',
+      adminActor: { id: 'key-1', name: 'site manager', role: 'site-manager', siteIds: [] },
+      adminAction: { action: 'site.upsert', siteIds: ['PRJ001'] },
+      params: {},
+      query: { token: secrets[0] },
+      body: {
+        id: 'PRJ001',
+        pullSource: {
+          type: 'rest',
+          url: 'https://portal.example.com/api/readings',
+          auth: { type: 'basic', username: 'oracle', password: secrets[1] },
+          secretAccessKey: secrets[2],
+          fields: { tsUtc: 'time' },
+        },
+        headers: [{ auth: { type: 'query', name: 'apiKey', value: secrets[3] } }],
+      },
+    };
+
+    // Rejected requests are audited too
+    await auditAdminAction(request, { statusCode: 400 } as any);
+
+    expect(entries).toHaveLength(1);
+    const stored = JSON.stringify(entries[0]);
+    for (const secret of secrets) {
+      expect(stored).not.toContain(secret);
+    }
+    expect(entries[0].params.body.pullSource.auth).toEqual({ type: 'basic', username: 'oracle', password: REDACTED });
+    expect(entries[0].params.body.pullSource.url).toBe('https://portal.example.com/api/readings');
+  });
+});
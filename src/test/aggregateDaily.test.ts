@@ -0,0 +1,133 @@
+import { prisma } from '../db.js';
+import { AggregationService } from '../aggregate/index.js';
+
+// In-memory stand-in for the tables aggregateDaily reads and writes
+jest.mock('../db.js', () => {
+  const store = {
+    digests: [] as any[],
+    leaves: [] as any[],
+    telemetry: [] as any[],
+    onRead: undefined as (() => void) | undefined,
+  };
+
+  const db: any = {
+    store,
+    site: {
+      findUnique: async ({ where }: any) => ({
+        id: where.id,
+        timezone: 'UTC',
+        digestDayBoundary: 'utc',
+        intervalMinutes: 15,
+        baselineKgPerKWh: 0.4,
+        methodologyId: 'grid-baseline',
+        methodologyParams: {},
+      }),
+    },
+    device: { findMany: async () => [] },
+    emissionFactor: { findMany: async () => [] },
+    rawTelemetry: {
+      findMany: async () => {
+        store.onRead?.();
+        return store.telemetry;
+      },
+    },
+    dailyDigest: {
+      findUnique: async ({ where }: any) => store.digests.find(d =>
+        d.siteId === where.siteId_dayUtc.siteId && d.dayUtc.getTime() === where.siteId_dayUtc.dayUtc.getTime()) ?? null,
+      findUniqueOrThrow: async ({ where }: any) => db.dailyDigest.findUnique({ where }),
+      updateMany: async ({ where, data }: any) => {
+        const digests = store.digests.filter(d =>
+          d.siteId === where.siteId && d.dayUtc.getTime() === where.dayUtc.getTime() && d.anchored === where.anchored);
+        digests.forEach(d => Object.assign(d, data));
+        return { count: digests.length };
+      },
+      create: async ({ data }: any) => {
+        const digest = { id: `digest-${store.digests.length + 1}`, anchored: false, ...data };
+        store.digests.push(digest);
+        return digest;
+      },
+    },
+    digestLeaf: {
+      deleteMany: async ({ where }: any) => {
+        store.leaves = store.leaves.filter(l => l.digestId !== where.digestId);
+      },
+      createMany: async ({ data }: any) => {
+        store.leaves.push(...data);
+      },
+    },
+    estimatedTelemetry: {
+      deleteMany: async () => {},
+      createMany: async () => {},
+    },
+    $transaction: async (fn: (tx: any) => Promise<unknown>) => fn(db),
+  };
+
+  return { prisma: db };
+});
+
+const store = (prisma as any).store;
+const logger = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {} };
+
+describe('Daily aggregation of anchored digests', () => {
+  beforeEach(() => {
+    store.onRead = undefined;
+    store.digests = [{ id: 'digest-1', siteId: 'PRJ001', dayUtc: new Date('2024-01-15T00:00:00Z'), merkleRoot: 'a'.repeat(64), anchored: true }];
+    store.leaves = [{ digestId: 'digest-1', position: 0, rowHash: 'b'.repeat(64) }];
+    store.telemetry = [{
+      siteId: 'PRJ001',
+      deviceId: '',
+      tsUtc: new Date('2024-01-15T12:00:00Z'),
+      acPowerKw: 5.2,
+      acEnergyKWh: 1.3,
+      rowHash: 'c'.repeat(64),
+      hashVersion: 1,
+      signature: null,
+    }];
+  });
+
+  test('should refuse to recompute an anchored day and leave its root and leaves untouched', async () => {
+    const service = new AggregationService(logger);
+
+    await expect(service.aggregateDaily('PRJ001', new Date('2024-01-15T00:00:00Z'))).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'DIGEST_ANCHORED',
+    });
+
+    expect(store.digests[0].merkleRoot).toBe('a'.repeat(64));
+    expect(store.leaves).toEqual([{ digestId: 'digest-1', position: 0, rowHash: 'b'.repeat(64) }]);
+  });
+
+  test('should still aggregate days whose digest is not anchored', async () => {
+    store.digests[0].anchored = false;
+    store.telemetry = [];
+    const service = new AggregationService(logger);
+
+    await expect(service.aggregateDaily('PRJ001', new Date('2024-01-15T00:00:00Z'))).resolves.toBeNull();
+  });
+
+  test('should refuse to overwrite a digest anchored while the day was being aggregated', async () => {
+    store.digests[0].anchored = false;
+    store.onRead = () => {
+      store.digests[0].anchored = true;
+    };
+    const service = new AggregationService(logger);
+
+    await expect(service.aggregateDaily('PRJ001', new Date('2024-01-15T00:00:00Z'))).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'DIGEST_ANCHORED',
+    });
+
+    expect(store.digests[0].merkleRoot).toBe('a'.repeat(64));
+    expect(store.leaves).toEqual([{ digestId: 'digest-1', position: 0, rowHash: 'b'.repeat(64) }]);
+  });
+
+  test('should recompute the root of an unanchored digest', async () => {
+    store.digests[0].anchored = false;
+    const service = new AggregationService(logger);
+
+    await service.aggregateDaily('PRJ001', new Date('2024-01-15T00:00:00Z'));
+
+    expect(store.digests[0].merkleRoot).not.toBe('a'.repeat(64));
+    expect(store.leaves.map((l: any) => l.rowHash)).toEqual(['c'.repeat(64)]);
+  });
+});
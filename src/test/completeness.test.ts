@@ -0,0 +1,54 @@
+import { analyzeCompleteness } from '../aggregate/completeness.js';
+
+describe('Completeness', () => {
+  const start = new Date('2024-01-15T00:00:00.000Z');
+  const end = new Date('2024-01-16T00:00:00.000Z');
+  const at = (minutes: number, createdMinutes = minutes) => ({
+    tsUtc: new Date(start.getTime() + minutes * 60000),
+    createdAt: new Date(start.getTime() + createdMinutes * 60000),
+  });
+
+  test('should score a complete day', () => {
+    const records = Array.from({ length: 96 }, (_, i) => at(i * 15));
+    const report = analyzeCompleteness(records, start, end, 15);
+
+    expect(report.expected).toBe(96);
+    expect(report.covered).toBe(96);
+    expect(report.score).toBe(1);
+    expect(report.gaps).toEqual([]);
+  });
+
+  test('should list gaps including leading and trailing ones', () => {
+    // Intervals 2..93 present: missing 00:00, 00:15, 10:00-10:45 and 23:30, 23:45
+    const records = Array.from({ length: 92 }, (_, i) => at((i + 2) * 15))
+      .filter(r => r.tsUtc.getUTCHours() !== 10);
+    const report = analyzeCompleteness(records, start, end, 15);
+
+    expect(report.missing).toBe(8);
+    expect(report.score).toBeCloseTo(88 / 96, 10);
+    expect(report.gaps).toEqual([
+      { from: '2024-01-15T00:00:00.000Z', to: '2024-01-15T00:15:00.000Z', intervals: 2 },
+      { from: '2024-01-15T10:00:00.000Z', to: '2024-01-15T10:45:00.000Z', intervals: 4 },
+      { from: '2024-01-15T23:30:00.000Z', to: '2024-01-15T23:45:00.000Z', intervals: 2 },
+    ]);
+  });
+
+  test('should count duplicate, off-grid and out-of-order rows', () => {
+    const records = [
+      at(0, 100),
+      at(15, 50),   // ingested before the 00:00 row
+      at(15.5, 60), // same slot as 00:15, off the grid
+      at(30, 110),
+    ];
+    const report = analyzeCompleteness(records, start, new Date(start.getTime() + 60 * 60000), 15);
+
+    expect(report.expected).toBe(4);
+    expect(report.covered).toBe(3);
+    expect(report.duplicates).toBe(1);
+    expect(report.offGrid).toBe(1);
+    expect(report.outOfOrder).toBe(2);
+    expect(report.gaps).toEqual([
+      { from: '2024-01-15T00:45:00.000Z', to: '2024-01-15T00:45:00.000Z', intervals: 1 },
+    ]);
+  });
+});
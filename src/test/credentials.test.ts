@@ -0,0 +1,50 @@
+import { createHmac } from 'crypto';
+import { generateApiKey, hashApiKey, isJwt, isSiteInScope, verifyIngestToken } from '../model/credentials.js';
+
+describe('Ingest credentials', () => {
+  const secret = 'a-test-secret-of-at-least-32-characters';
+  const now = Date.parse('2024-01-15T12:00:00Z');
+
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signToken = (payload: unknown, key = secret, header: unknown = { alg: 'HS256', typ: 'JWT' }) => {
+    const unsigned = `${encode(header)}.${encode(payload)}`;
+    return `${unsigned}.${createHmac('sha256', key).update(unsigned).digest('base64url')}`;
+  };
+
+  test('should verify HS256 tokens and return their site scope', () => {
+    const token = signToken({ sub: 'gateway-1', sites: ['PRJ001', 'PRJ002'], exp: now / 1000 + 60 });
+
+    expect(isJwt(token)).toBe(true);
+    expect(verifyIngestToken(token, secret, now)).toEqual({
+      sub: 'gateway-1',
+      sites: ['PRJ001', 'PRJ002'],
+      exp: now / 1000 + 60,
+      nbf: undefined,
+    });
+  });
+
+  test('should reject forged, expired and unscoped tokens', () => {
+    const payload = { sub: 'gateway-1', sites: ['PRJ001'] };
+
+    expect(() => verifyIngestToken(signToken(payload, 'another-secret-of-at-least-32-chars'), secret, now)).toThrow('Invalid token signature');
+    expect(() => verifyIngestToken(signToken(payload, secret, { alg: 'none' }), secret, now)).toThrow('Unsupported token algorithm');
+    expect(() => verifyIngestToken(signToken({ ...payload, exp: now / 1000 }), secret, now)).toThrow('Token expired');
+    expect(() => verifyIngestToken(signToken({ ...payload, nbf: now / 1000 + 60 }), secret, now)).toThrow('Token not yet valid');
+    expect(() => verifyIngestToken(signToken({ sub: 'gateway-1', sites: [] }), secret, now)).toThrow('Token has no site scope');
+    expect(() => verifyIngestToken('a.b.c', secret, now)).toThrow('Malformed token');
+  });
+
+  test('should issue API keys that are stored by hash and checked against their scope', () => {
+    const key = generateApiKey();
+
+    expect(key.startsWith('ik_')).toBe(true);
+    expect(isJwt(key)).toBe(false);
+    expect(generateApiKey()).not.toBe(key);
+    expect(hashApiKey(key)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashApiKey(key)).toBe(hashApiKey(key));
+
+    const scope = { credentialId: 'cred-1', siteIds: ['PRJ001'] };
+    expect(isSiteInScope(scope, 'PRJ001')).toBe(true);
+    expect(isSiteInScope(scope, 'PRJ002')).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+import { combineDeviceRows, DeviceRow, DeviceRole } from '../aggregate/devices.js';
+
+describe('Device combination', () => {
+  const ts = new Date('2024-01-15T12:00:00.000Z');
+  const row = (deviceId: string, values: Partial<DeviceRow> = {}): DeviceRow => ({
+    tsUtc: ts,
+    deviceId,
+    acEnergyKWh: null,
+    acPowerKw: null,
+    poaIrrWm2: null,
+    tempC: null,
+    status: 'OK',
+    ...values,
+  });
+  const devices: DeviceRole[] = [
+    { deviceId: 'INV-01', kind: 'inverter', revenueMeter: false },
+    { deviceId: 'INV-02', kind: 'inverter', revenueMeter: false },
+    { deviceId: 'WS-01', kind: 'weather-station', revenueMeter: false },
+    { deviceId: 'WS-02', kind: 'weather-station', revenueMeter: false },
+  ];
+
+  test('should sum inverters and average weather stations', () => {
+    const [interval] = combineDeviceRows([
+      row('INV-01', { acEnergyKWh: 10, acPowerKw: 40, poaIrrWm2: 900 }),
+      row('INV-02', { acEnergyKWh: 12, acPowerKw: 48 }),
+      row('WS-01', { poaIrrWm2: 800, tempC: 20 }),
+      row('WS-02', { poaIrrWm2: 820, tempC: 22 }),
+    ], devices);
+
+    expect(interval).toMatchObject({ acEnergyKWh: 22, acPowerKw: 88, poaIrrWm2: 810, tempC: 21, energyRows: 2 });
+  });
+
+  test('should take energy from the revenue meter when the site has one', () => {
+    const withMeter = [...devices, { deviceId: 'REV-01', kind: 'meter', revenueMeter: true }];
+    const [interval] = combineDeviceRows([
+      row('INV-01', { acEnergyKWh: 10 }),
+      row('INV-02', { acEnergyKWh: 12 }),
+      row('REV-01', { acEnergyKWh: 21.5, status: 'CURTAILED' }),
+    ], withMeter);
+
+    expect(interval?.acEnergyKWh).toBe(21.5);
+    expect(interval?.status).toBe('CURTAILED');
+  });
+
+  test('should keep legacy site-level rows and order intervals by time', () => {
+    const later = new Date(ts.getTime() + 15 * 60000);
+    const intervals = combineDeviceRows([
+      { ...row('site', { acEnergyKWh: 5, status: 'OUTAGE' }), tsUtc: later },
+      row('site', { acEnergyKWh: 4 }),
+      row('WS-01', { poaIrrWm2: 800 }),
+    ], []);
+
+    expect(intervals.map(i => [i.tsUtc.toISOString(), i.acEnergyKWh, i.status])).toEqual([
+      ['2024-01-15T12:00:00.000Z', 4, 'OK'],
+      ['2024-01-15T12:15:00.000Z', 5, 'OUTAGE'],
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  calculateAvoidedEmissions,
+  replayAvoidedEmissions,
+  resolveEmissionFactor,
+  EmissionFactorRecord,
+} from '../aggregate/emissionFactors.js';
+
+describe('Emission factors', () => {
+  const factors: EmissionFactorRecord[] = [
+    {
+      id: 'ef-2023',
+      version: 1,
+      effectiveFrom: new Date('2023-01-01T00:00:00.000Z'),
+      effectiveTo: new Date('2024-01-01T00:00:00.000Z'),
+      kgPerKWh: 0.7,
+      hourlyKgPerKWh: [],
+      source: 'CEA CO2 Baseline Database v18',
+    },
+    {
+      id: 'ef-2024',
+      version: 2,
+      effectiveFrom: new Date('2024-01-01T00:00:00.000Z'),
+      effectiveTo: null,
+      kgPerKWh: 0.6,
+      hourlyKgPerKWh: Array.from({ length: 24 }, (_, hour) => (hour < 12 ? 0.5 : 0.8)),
+      source: 'CEA CO2 Baseline Database v19',
+    },
+  ];
+
+  test('should resolve the factor in effect at a timestamp', () => {
+    expect(resolveEmissionFactor(factors, new Date('2023-12-31T23:45:00.000Z'))?.id).toBe('ef-2023');
+    expect(resolveEmissionFactor(factors, new Date('2024-01-01T00:00:00.000Z'))?.id).toBe('ef-2024');
+    expect(resolveEmissionFactor(factors, new Date('2022-06-01T00:00:00.000Z'))).toBeNull();
+  });
+
+  test('should apply factors per interval, including hourly profiles', () => {
+    const records = [
+      { tsUtc: new Date('2023-12-31T23:45:00.000Z'), acEnergyKWh: 10 }, // 0.7
+      { tsUtc: new Date('2024-01-01T06:00:00.000Z'), acEnergyKWh: 10 }, // 0.5
+      { tsUtc: new Date('2024-01-01T15:00:00.000Z'), acEnergyKWh: 10 }, // 0.8
+      { tsUtc: new Date('2024-01-01T16:00:00.000Z'), acEnergyKWh: null },
+    ];
+
+    const result = calculateAvoidedEmissions(records, factors, 0.9);
+
+    expect(result.avoidedTco2e).toBeCloseTo(0.02, 10);
+    expect(result.factors.map(factor => [factor.id, factor.rows])).toEqual([['ef-2023', 1], ['ef-2024', 2]]);
+  });
+
+  test('should fall back to the site baseline and replay recorded factors', () => {
+    const records = [
+      { tsUtc: new Date('2022-06-01T12:00:00.000Z'), acEnergyKWh: 5 },
+      { tsUtc: new Date('2024-02-01T13:00:00.000Z'), acEnergyKWh: 5 },
+    ];
+
+    const result = calculateAvoidedEmissions(records, factors, 0.9);
+    expect(result.avoidedTco2e).toBeCloseTo((5 * 0.9 + 5 * 0.8) / 1000, 10);
+    expect(result.factors[0]?.id).toBeNull();
+
+    const replayed = replayAvoidedEmissions(records, JSON.parse(JSON.stringify(result.factors)));
+    expect(replayed.avoidedTco2e).toBe(result.avoidedTco2e);
+  });
+});
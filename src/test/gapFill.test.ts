@@ -0,0 +1,56 @@
+import { fillGaps, fitIrradianceRegression, MeasuredRow } from '../aggregate/gapFill.js';
+
+describe('Gap filling', () => {
+  const start = new Date('2024-01-15T10:00:00.000Z');
+  const end = new Date('2024-01-15T12:00:00.000Z'); // 8 intervals of 15 minutes
+  const row = (slot: number, acPowerKw: number, poaIrrWm2: number, status = 'OK'): MeasuredRow => ({
+    tsUtc: new Date(start.getTime() + slot * 15 * 60000),
+    acPowerKw,
+    acEnergyKWh: acPowerKw * 0.25,
+    poaIrrWm2,
+    status,
+  });
+  const options = { intervalMinutes: 15, maxGapIntervals: 4 };
+
+  test('should leave gaps alone without a strategy', () => {
+    const rows = [row(0, 100, 500), row(3, 400, 800)];
+    expect(fillGaps(rows, start, end, { ...options, strategy: 'none' })).toEqual([]);
+  });
+
+  test('should interpolate power and energy linearly inside a gap', () => {
+    const rows = [row(0, 100, 500), row(3, 400, 800), row(4, 400, 800), row(5, 400, 800), row(6, 400, 800), row(7, 400, 800)];
+    const estimates = fillGaps(rows, start, end, { ...options, strategy: 'linear' });
+
+    expect(estimates.map(e => e.tsUtc.toISOString())).toEqual(['2024-01-15T10:15:00.000Z', '2024-01-15T10:30:00.000Z']);
+    expect(estimates.map(e => e.acPowerKw)).toEqual([200, 300]);
+    expect(estimates.map(e => e.acEnergyKWh)).toEqual([50, 75]);
+    expect(estimates.every(e => e.method === 'linear')).toBe(true);
+  });
+
+  test('should not fill open-ended or overlong gaps', () => {
+    const rows = [row(2, 100, 500), row(7, 400, 800)];
+    const estimates = fillGaps(rows, start, end, { intervalMinutes: 15, maxGapIntervals: 3, strategy: 'linear' });
+
+    // Leading gap has no left neighbour; slots 3..6 exceed maxGapIntervals
+    expect(estimates).toEqual([]);
+  });
+
+  test('should zero-fill gaps next to an outage regardless of length', () => {
+    const rows = [row(0, 0, 500, 'OUTAGE'), row(7, 400, 800)];
+    const estimates = fillGaps(rows, start, end, { ...options, strategy: 'linear' });
+
+    expect(estimates).toHaveLength(6);
+    expect(estimates.every(e => e.method === 'zero-fill' && e.acEnergyKWh === 0)).toBe(true);
+  });
+
+  test('should estimate energy from interpolated irradiance', () => {
+    // 0.1 kWh per interval per W/m²
+    const rows = [0, 1, 2, 4, 5].map(slot => ({ ...row(slot, 0, 100 * (slot + 1)), acEnergyKWh: 10 * (slot + 1) }));
+    expect(fitIrradianceRegression(rows)).toBeCloseTo(0.1, 10);
+
+    const estimates = fillGaps(rows, start, new Date(start.getTime() + 6 * 15 * 60000), { ...options, strategy: 'irradiance-regression' });
+    expect(estimates).toHaveLength(1);
+    expect(estimates[0]?.poaIrrWm2).toBe(400);
+    expect(estimates[0]?.acEnergyKWh).toBeCloseTo(40, 10);
+  });
+});
@@ -0,0 +1,75 @@
+import { claimIdempotencyKey, completeIdempotencyKey, isStaleClaim } from '../ingest/idempotency.js';
+
+// In-memory idempotency_keys table, unique on (endpoint, key)
+jest.mock('../db.js', () => {
+  let keys: any[] = [];
+  let nextId = 1;
+  const matches = (row: any, where: any) => Object.entries(where).every(([field, value]) =>
+    value instanceof Date ? row[field]?.getTime() === value.getTime() : row[field] === value);
+
+  return {
+    prisma: {
+      idempotencyKey: {
+        deleteMany: async ({ where }: any) => {
+          keys = keys.filter(row => !(row.createdAt < where.createdAt.lt));
+        },
+        create: async ({ data }: any) => {
+          if (keys.some(row => row.endpoint === data.endpoint && row.key === data.key)) {
+            throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+          }
+          const row = { id: `key-${nextId++}`, statusCode: null, response: null, claimedAt: new Date(), createdAt: new Date(), ...data };
+          keys.push(row);
+          return row;
+        },
+        findUnique: async ({ where }: any) => keys.find(row => row.endpoint === where.endpoint_key.endpoint && row.key === where.endpoint_key.key) ?? null,
+        updateMany: async ({ where, data }: any) => {
+          const rows = keys.filter(row => matches(row, where));
+          rows.forEach(row => Object.assign(row, data));
+          return { count: rows.length };
+        },
+        update: async ({ where, data }: any) => Object.assign(keys.find(row => row.id === where.id), data),
+      },
+    },
+  };
+});
+
+describe('Idempotency keys', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should treat unfinished claims as stale once their lease runs out', () => {
+    const claimedAt = new Date('2024-01-15T12:00:00Z');
+
+    expect(isStaleClaim({ statusCode: null, claimedAt }, new Date('2024-01-15T12:04:59Z'), 300_000)).toBe(false);
+    expect(isStaleClaim({ statusCode: null, claimedAt }, new Date('2024-01-15T12:05:00Z'), 300_000)).toBe(true);
+    expect(isStaleClaim({ statusCode: 200, claimedAt }, new Date('2024-01-16T12:00:00Z'), 300_000)).toBe(false);
+  });
+
+  test('should let a retry take over a claim left by a crashed request', async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-15T12:00:00Z') });
+    const body = { telemetry: [{ siteId: 'PRJ001' }] };
+
+    // The first request claims the key and never completes or releases it
+    const first = await claimIdempotencyKey('POST /v1/ingest', 'cred-1:batch-1', body);
+    expect(first.state).toBe('claimed');
+
+    jest.setSystemTime(new Date('2024-01-15T12:01:00Z'));
+    expect(await claimIdempotencyKey('POST /v1/ingest', 'cred-1:batch-1', body)).toEqual({ state: 'in-progress' });
+
+    // After the lease (IDEMPOTENCY_CLAIM_LEASE_SECONDS, 300 by default) one
+    // retry takes it over
+    jest.setSystemTime(new Date('2024-01-15T12:05:00Z'));
+    const retry = await claimIdempotencyKey('POST /v1/ingest', 'cred-1:batch-1', body);
+    expect(retry).toEqual(first);
+    expect(await claimIdempotencyKey('POST /v1/ingest', 'cred-1:batch-1', body)).toEqual({ state: 'in-progress' });
+    expect(await claimIdempotencyKey('POST /v1/ingest', 'cred-1:batch-1', { telemetry: [] })).toEqual({ state: 'mismatch' });
+
+    await completeIdempotencyKey(retry.state === 'claimed' ? retry.id : '', 200, { success: true });
+    expect(await claimIdempotencyKey('POST /v1/ingest', 'cred-1:batch-1', body)).toEqual({
+      state: 'replay',
+      statusCode: 200,
+      response: { success: true },
+    });
+  });
+});
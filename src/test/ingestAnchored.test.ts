@@ -0,0 +1,64 @@
+import { prisma } from '../db.js';
+import { ingestBatch } from '../ingest/pipeline.js';
+import { normalizeTelemetry, RawTelemetryInput } from '../model/telemetry.js';
+
+// In-memory stand-in for the tables ingestBatch reads and writes
+jest.mock('../db.js', () => {
+  const store = {
+    rows: [] as any[],
+    digests: [] as any[],
+  };
+
+  const db: any = {
+    store,
+    site: { findMany: async () => [] },
+    device: { findMany: async () => [] },
+    dailyDigest: { findMany: async () => store.digests.filter(d => d.anchored) },
+    rawTelemetry: {
+      findMany: async () => store.rows,
+      createMany: async ({ data }: any) => {
+        store.rows.push(...data);
+      },
+    },
+    $transaction: async (fn: (tx: any) => Promise<unknown>) => fn(db),
+  };
+
+  return { prisma: db };
+});
+
+const store = (prisma as any).store;
+
+const reading = (tsUtc: string, acEnergyKWh: number): RawTelemetryInput => ({
+  siteId: 'PRJ001',
+  tsUtc,
+  acEnergyKWh,
+  source: 'http',
+});
+
+describe('Ingestion into anchored days', () => {
+  beforeEach(() => {
+    store.digests = [{ siteId: 'PRJ001', dayUtc: new Date('2024-01-15T00:00:00Z'), periodStart: null, periodEnd: null, timezone: null, anchored: true }];
+    store.rows = [normalizeTelemetry(reading('2024-01-15T12:00:00Z', 1.3))];
+  });
+
+  test('should reject new rows within an anchored digest period', async () => {
+    const results = await ingestBatch([
+      reading('2024-01-15T12:15:00Z', 1.2),
+      reading('2024-01-16T12:00:00Z', 1.4),
+    ]);
+
+    expect(results.map(r => r.status)).toEqual(['rejected', 'created']);
+    expect(results[0]!.reason).toBe('Falls within anchored digest 2024-01-15; anchored days take no new rows');
+    expect(store.rows.map((r: any) => r.tsUtc.toISOString())).toEqual(['2024-01-15T12:00:00.000Z', '2024-01-16T12:00:00.000Z']);
+  });
+
+  test('should report re-sent rows of an anchored day unchanged and reject revisions', async () => {
+    const [resent] = await ingestBatch([reading('2024-01-15T12:00:00Z', 1.3)]);
+    const [revised] = await ingestBatch([reading('2024-01-15T12:00:00Z', 1.5)]);
+
+    expect(resent!.status).toBe('unchanged');
+    expect(revised!.status).toBe('rejected');
+    expect(revised!.reason).toMatch(/^Conflicts with the stored row .* of anchored digest 2024-01-15/);
+    expect(store.rows).toHaveLength(1);
+  });
+});
@@ -1,5 +1,15 @@
-import { generateRowHash, normalizeTelemetry } from '../model/telemetry.js';
-import { generateMerkleRoot, verifyMerkleProof } from '../model/merkle.js';
+import { generateRowHash, normalizeTelemetry, canonicalRowEncoding, validateTelemetryBatch, clampValues } from '../model/telemetry.js';
+import {
+  generateMerkleRoot,
+  verifyMerkleProof,
+  verifyMerkleMultiProof,
+  verifyNonInclusionProof,
+  encodeMerkleLeaf,
+  MerkleTree,
+  hashLeaf,
+  hashNode,
+} from '../model/merkle.js';
+import { getDayBounds, getSiteDayBounds, formatZonedDateTime } from '../util/index.js';
 
 describe('Telemetry Hashing', () => {
   test('should generate deterministic row hash', () => {
@@ -58,6 +68,110 @@ describe('Telemetry Hashing', () => {
     expect(normalized.poaIrrWm2).toBe(800.1);
     expect(normalized.tempC).toBe(25.7);
   });
+
+  test('should keep zero readings when clamping', () => {
+    const clamped = clampValues({
+      siteId: 'PRJ001',
+      tsUtc: '2024-01-15T00:00:00.000Z',
+      acEnergyKWh: 0,
+      acPowerKw: 0,
+      poaIrrWm2: 0,
+      tempC: 0,
+      windMps: 0,
+      source: 'http',
+    });
+
+    expect(clamped).toMatchObject({ acEnergyKWh: 0, acPowerKw: 0, poaIrrWm2: 0, tempC: 0, windMps: 0 });
+    expect(clampValues({ siteId: 'PRJ001', tsUtc: '2024-01-15T00:00:00.000Z', tempC: -60, source: 'http' }))
+      .toMatchObject({ tempC: -50, acPowerKw: undefined });
+  });
+});
+
+describe('Batch validation', () => {
+  test('should reject bad and duplicate items individually', () => {
+    const item = { siteId: 'PRJ001', tsUtc: '2024-01-15T12:00:00.000Z', acEnergyKWh: 1, source: 'http' };
+    const { accepted, rejected } = validateTelemetryBatch([
+      item,
+      { ...item, acEnergyKWh: -1 },
+      { ...item, tsUtc: '2024-01-15T12:00:00Z' },
+      { ...item, deviceId: 'INV-01' },
+    ]);
+
+    expect(accepted.map(a => a.index)).toEqual([0, 3]);
+    expect(rejected.map(r => r.index)).toEqual([1, 2]);
+    expect(rejected[0]?.reason).toMatch(/^acEnergyKWh: /);
+    expect(rejected[1]?.reason).toBe('Duplicate of item 0 in this batch');
+  });
+
+  test('should reject a reused uniqKey within a batch', () => {
+    const item = { siteId: 'PRJ001', tsUtc: '2024-01-15T12:00:00.000Z', acEnergyKWh: 1, source: 'http', uniqKey: 'msg-1' };
+    const { accepted, rejected } = validateTelemetryBatch([
+      item,
+      { ...item, tsUtc: '2024-01-15T12:15:00.000Z' },
+      { ...item, siteId: 'PRJ002' },
+    ]);
+
+    expect(accepted.map(a => a.index)).toEqual([0, 2]);
+    expect(rejected.map(r => r.index)).toEqual([1]);
+  });
+});
+
+describe('Canonical row encoding', () => {
+  const row = {
+    siteId: 'PRJ002',
+    tsUtc: '2024-01-15T12:00:00.000Z',
+    acEnergyKWh: 1.5,
+    acPowerKw: 6,
+    windMps: 7.2,
+    status: 'OK',
+    source: 'mqtt',
+  };
+
+  test('should encode every field with fixed decimals in v2', () => {
+    expect(canonicalRowEncoding(row, 2)).toBe(
+      'rh2|siteId=PRJ002|tsUtc=2024-01-15T12:00:00.000Z|acEnergyKWh=1.50|acPowerKw=6.000' +
+      '|poaIrrWm2=|tempC=|windMps=7.2|status=OK|source=mqtt|uniqKey='
+    );
+  });
+
+  test('should commit wind, source and uniqKey in v2', () => {
+    const base = generateRowHash(row, 2);
+
+    expect(generateRowHash({ ...row, windMps: 7.3 }, 2)).not.toBe(base);
+    expect(generateRowHash({ ...row, source: 'http' }, 2)).not.toBe(base);
+    expect(generateRowHash({ ...row, uniqKey: 'abc' }, 2)).not.toBe(base);
+
+    // v1 ignored all three
+    expect(generateRowHash({ ...row, windMps: 7.3, uniqKey: 'abc' }, 1)).toBe(generateRowHash(row, 1));
+  });
+
+  test('should commit the meter register and serial in v3', () => {
+    expect(canonicalRowEncoding({ ...row, acEnergyRegisterKWh: 12345.6789, meterSerial: 'M-1' }, 3)).toBe(
+      'rh3|siteId=PRJ002|tsUtc=2024-01-15T12:00:00.000Z|acEnergyKWh=1.50|acPowerKw=6.000' +
+      '|poaIrrWm2=|tempC=|windMps=7.2|status=OK|source=mqtt|uniqKey=|acEnergyRegisterKWh=12345.679|meterSerial=M-1'
+    );
+
+    // v2 ignores both
+    expect(generateRowHash({ ...row, acEnergyRegisterKWh: 1, meterSerial: 'M-1' }, 2)).toBe(generateRowHash(row, 2));
+  });
+
+  test('should commit the device in v4', () => {
+    expect(canonicalRowEncoding({ ...row, deviceId: 'INV-01' }, 4)).toMatch(/^rh4\|siteId=PRJ002\|deviceId=INV-01\|tsUtc=/);
+    expect(generateRowHash({ ...row, deviceId: 'INV-01' }, 4)).not.toBe(generateRowHash({ ...row, deviceId: 'INV-02' }, 4));
+  });
+
+  test('should never use exponent notation', () => {
+    expect(canonicalRowEncoding({ ...row, acEnergyKWh: 1e-7 }, 2)).toContain('acEnergyKWh=0.00|');
+    expect(canonicalRowEncoding({ ...row, acEnergyKWh: 1e-7 }, 1)).toContain('|1e-7|');
+  });
+
+  test('should escape separators in string fields', () => {
+    expect(canonicalRowEncoding({ ...row, uniqKey: 'a|status=OUTAGE' }, 2)).toContain('uniqKey=a%7Cstatus%3DOUTAGE');
+  });
+
+  test('should keep legacy v1 hashes reproducible', () => {
+    expect(canonicalRowEncoding(row, 1)).toBe('PRJ002|2024-01-15T12:00:00.000Z|1.5|6|||OK');
+  });
 });
 
 describe('Merkle Tree', () => {
@@ -94,4 +208,185 @@ describe('Merkle Tree', () => {
     const isValid = verifyMerkleProof('hash1', [], root);
     expect(typeof isValid).toBe('boolean');
   });
+
+  test.each(['v1', 'v2', 'v3'] as const)('should verify proofs for every leaf position (%s)', (version) => {
+    for (let count = 1; count <= 9; count++) {
+      const hashes = Array.from({ length: count }, (_, i) => `row-${i}`);
+      const tree = new MerkleTree(hashes, version);
+      const root = tree.getRoot();
+
+      for (const leaf of hashes) {
+        expect(verifyMerkleProof(leaf, tree.getProof(leaf), root, version, count)).toBe(true);
+      }
+    }
+  });
+
+  test('should reject tampered leaves and flipped positions', () => {
+    const hashes = ['a', 'b', 'c', 'd', 'e'];
+    const tree = new MerkleTree(hashes, 'v2');
+    const root = tree.getRoot();
+    const proof = tree.getProof('d');
+
+    expect(verifyMerkleProof('x', proof, root, 'v2')).toBe(false);
+
+    const flipped = proof.map(step => ({
+      ...step,
+      position: step.position === 'left' ? 'right' as const : 'left' as const,
+    }));
+    expect(verifyMerkleProof('d', flipped, root, 'v2')).toBe(false);
+  });
+
+  test('should separate leaf and internal node domains in v2', () => {
+    const left = hashLeaf('a', 'v2');
+    const right = hashLeaf('b', 'v2');
+    const node = hashNode(left, right, 'v2');
+
+    // An internal node must not be accepted as a leaf of a shorter tree
+    expect(generateMerkleRoot([node], 'v2')).not.toBe(generateMerkleRoot(['a', 'b'], 'v2'));
+    expect(generateMerkleRoot(['a', 'b'], 'v2')).toBe(node);
+  });
+
+  test('should keep v1 roots stable for already anchored digests', () => {
+    const hashes = ['hash3', 'hash1', 'hash2'];
+    const level1 = hashNode('hash1', 'hash2', 'v1');
+    const level2 = hashNode('hash3', 'hash3', 'v1');
+
+    expect(generateMerkleRoot(hashes, 'v1')).toBe(hashNode(level1, level2, 'v1'));
+  });
+
+  test.each(['v1', 'v2', 'v3'] as const)('should verify multiproofs for contiguous windows (%s)', (version) => {
+    const hashes = Array.from({ length: 96 }, (_, i) => `row-${i}`);
+    const tree = new MerkleTree(hashes, version);
+    const root = tree.getRoot();
+
+    for (const [from, to] of [[0, 3], [36, 39], [92, 95], [5, 5], [0, 95]] as const) {
+      const indices = Array.from({ length: to - from + 1 }, (_, i) => from + i);
+      const proof = tree.getMultiProof(indices);
+      const leaves = indices.map(index => ({ index, leaf: tree.getLeaves()[index] as string }));
+
+      expect(verifyMerkleMultiProof(leaves, proof, hashes.length, root, version)).toBe(true);
+    }
+  });
+
+  test('should find leaf indices in tree order', () => {
+    expect(new MerkleTree(['c', 'a', 'b'], 'v1').indexOf('c')).toBe(2);
+    expect(new MerkleTree(['c', 'a', 'b', 'a'], 'v2').indexOf('a')).toBe(1);
+    expect(new MerkleTree(['c', 'a', 'b'], 'v2').indexOf('d')).toBe(-1);
+  });
+
+  test('should keep multiproofs smaller than separate proofs', () => {
+    const hashes = Array.from({ length: 96 }, (_, i) => `row-${i}`);
+    const tree = new MerkleTree(hashes, 'v2');
+    const indices = [40, 41, 42, 43];
+
+    const separate = indices.reduce((total, index) => total + tree.getProofByIndex(index).length, 0);
+    expect(tree.getMultiProof(indices).length).toBeLessThan(separate);
+  });
+
+  test('should reject multiproofs with missing, extra or tampered nodes', () => {
+    const hashes = Array.from({ length: 11 }, (_, i) => `row-${i}`);
+    const tree = new MerkleTree(hashes, 'v2');
+    const root = tree.getRoot();
+    const leaves = [{ index: 2, leaf: 'row-2' }, { index: 7, leaf: 'row-7' }];
+    const proof = tree.getMultiProof([2, 7]);
+
+    expect(verifyMerkleMultiProof(leaves, proof, 11, root, 'v2')).toBe(true);
+    expect(verifyMerkleMultiProof(leaves, proof.slice(1), 11, root, 'v2')).toBe(false);
+    expect(verifyMerkleMultiProof(leaves, [...proof, proof[0] as string], 11, root, 'v2')).toBe(false);
+    expect(verifyMerkleMultiProof([{ index: 2, leaf: 'row-3' }, { index: 7, leaf: 'row-7' }], proof, 11, root, 'v2')).toBe(false);
+    expect(verifyMerkleMultiProof([{ index: 2, leaf: 'row-2' }, { index: 6, leaf: 'row-7' }], proof, 11, root, 'v2')).toBe(false);
+  });
+
+  test('should commit the leaf count in v3 roots', () => {
+    const hashes = ['a', 'b', 'c'];
+    const tree = new MerkleTree(hashes, 'v3');
+
+    expect(verifyMerkleProof('c', tree.getProof('c'), tree.getRoot(), 'v3', 3)).toBe(true);
+    expect(verifyMerkleProof('c', tree.getProof('c'), tree.getRoot(), 'v3', 4)).toBe(false);
+    expect(verifyMerkleProof('c', tree.getProof('c'), tree.getRoot(), 'v3')).toBe(false);
+  });
+});
+
+describe('Non-inclusion proofs', () => {
+  // Day with 15-minute rows, missing 10:00 and 10:15
+  const rows = Array.from({ length: 96 }, (_, i) => ({
+    tsUtc: new Date(Date.UTC(2024, 0, 15) + (i + 1) * 15 * 60 * 1000).toISOString(),
+    rowHash: `hash-${i}`,
+  })).filter(row => !row.tsUtc.startsWith('2024-01-15T10:00') && !row.tsUtc.startsWith('2024-01-15T10:15'));
+
+  const tree = new MerkleTree(rows.map(row => encodeMerkleLeaf('v3', row.rowHash, row.tsUtc)), 'v3');
+  const root = tree.getRoot();
+
+  const neighboursOf = (indices: number[]) => indices.map(index => ({ index, ...rows[index] as typeof rows[number] }));
+
+  test('should prove a missing interval between two adjacent leaves', () => {
+    const before = rows.findIndex(row => row.tsUtc === '2024-01-15T09:45:00.000Z');
+    const indices = [before, before + 1];
+    const proof = tree.getMultiProof(indices);
+
+    expect(verifyNonInclusionProof('2024-01-15T10:00:00.000Z', neighboursOf(indices), proof, rows.length, root, 'v3')).toBe(true);
+    expect(verifyNonInclusionProof('2024-01-15T10:15:00.000Z', neighboursOf(indices), proof, rows.length, root, 'v3')).toBe(true);
+  });
+
+  test('should reject non-adjacent neighbours and present timestamps', () => {
+    const before = rows.findIndex(row => row.tsUtc === '2024-01-15T09:30:00.000Z');
+    const gapped = [before, before + 2];
+    expect(verifyNonInclusionProof('2024-01-15T10:00:00.000Z', neighboursOf(gapped), tree.getMultiProof(gapped), rows.length, root, 'v3')).toBe(false);
+
+    const adjacent = [before, before + 1];
+    expect(verifyNonInclusionProof('2024-01-15T09:30:00.000Z', neighboursOf(adjacent), tree.getMultiProof(adjacent), rows.length, root, 'v3')).toBe(false);
+  });
+
+  test('should prove timestamps outside the covered range using boundary leaves', () => {
+    const last = rows.length - 1;
+
+    expect(verifyNonInclusionProof('2024-01-15T00:05:00.000Z', neighboursOf([0]), tree.getMultiProof([0]), rows.length, root, 'v3')).toBe(true);
+    expect(verifyNonInclusionProof('2024-01-16T00:05:00.000Z', neighboursOf([last]), tree.getMultiProof([last]), rows.length, root, 'v3')).toBe(true);
+    // A leaf that is not the last cannot prove the tail
+    expect(verifyNonInclusionProof('2024-01-16T00:05:00.000Z', neighboursOf([last - 1]), tree.getMultiProof([last - 1]), rows.length - 1, root, 'v3')).toBe(false);
+  });
+
+  test('should commit device and signature in v4 leaves', () => {
+    const signed = rows.map((row, i) => ({ ...row, deviceId: 'INV-01', signature: i % 2 === 0 ? `sig-${i}` : '' }));
+    const v4 = new MerkleTree(signed.map(row => encodeMerkleLeaf('v4', row.rowHash, row.tsUtc, row)), 'v4');
+    const before = signed.findIndex(row => row.tsUtc === '2024-01-15T09:45:00.000Z');
+    const indices = [before, before + 1];
+    const neighbours = indices.map(index => ({ index, ...signed[index] as typeof signed[number] }));
+    const proof = v4.getMultiProof(indices);
+
+    expect(encodeMerkleLeaf('v4', 'abc', '2024-01-15T09:45:00.000Z', { deviceId: 'INV-01', signature: 'c2ln' }))
+      .toBe('2024-01-15T09:45:00.000Z|abc|c2ln|INV-01');
+    expect(verifyNonInclusionProof('2024-01-15T10:00:00.000Z', neighbours, proof, signed.length, v4.getRoot(), 'v4')).toBe(true);
+    expect(verifyNonInclusionProof('2024-01-15T10:00:00.000Z', neighbours.map(n => ({ ...n, signature: 'forged' })), proof, signed.length, v4.getRoot(), 'v4')).toBe(false);
+  });
+});
+
+describe('Digest day bounds', () => {
+  const hours = (bounds: { start: Date; end: Date }) => (bounds.end.getTime() - bounds.start.getTime()) / 3600000;
+
+  test('should cut local days at local midnight', () => {
+    const bounds = getDayBounds('2024-01-15', 'Asia/Kolkata');
+
+    expect(bounds.start.toISOString()).toBe('2024-01-14T18:30:00.000Z');
+    expect(bounds.end.toISOString()).toBe('2024-01-15T18:30:00.000Z');
+    expect(formatZonedDateTime(bounds.start, 'Asia/Kolkata')).toBe('2024-01-15T00:00:00+05:30');
+  });
+
+  test('should follow DST transitions', () => {
+    const spring = getDayBounds('2024-03-31', 'Europe/Berlin');
+    expect(spring.start.toISOString()).toBe('2024-03-30T23:00:00.000Z');
+    expect(hours(spring)).toBe(23);
+
+    const autumn = getDayBounds('2024-10-27', 'Europe/Berlin');
+    expect(autumn.end.toISOString()).toBe('2024-10-27T23:00:00.000Z');
+    expect(hours(autumn)).toBe(25);
+  });
+
+  test('should keep UTC days for sites without a local boundary', () => {
+    const bounds = getSiteDayBounds({ timezone: 'Asia/Kolkata', digestDayBoundary: 'utc' }, '2024-01-15');
+
+    expect(bounds.timezone).toBe('UTC');
+    expect(bounds.start.toISOString()).toBe('2024-01-15T00:00:00.000Z');
+    expect(bounds.end.toISOString()).toBe('2024-01-16T00:00:00.000Z');
+  });
 });
@@ -0,0 +1,37 @@
+import { convertRegisterReading, DEFAULT_METER_SETTINGS } from '../model/meter.js';
+
+describe('Cumulative register conversion', () => {
+  const reading = (minutes: number, registerKWh: number, meterSerial = 'M-1') => ({
+    tsUtc: new Date(Date.UTC(2024, 0, 15, 10, minutes)),
+    registerKWh,
+    meterSerial,
+  });
+  const settings = { registerMaxKWh: 99999.999, multiplier: 1, maxIntervalKWh: 500 };
+
+  test('should difference consecutive readings and apply the multiplier', () => {
+    expect(convertRegisterReading(reading(15, 1010.5), reading(0, 1000), settings))
+      .toEqual({ acEnergyKWh: 10.5, event: undefined });
+    expect(convertRegisterReading(reading(15, 1010.5), reading(0, 1000), { ...settings, multiplier: 40 }).acEnergyKWh)
+      .toBeCloseTo(420, 10);
+    expect(convertRegisterReading(reading(0, 1000), null, DEFAULT_METER_SETTINGS))
+      .toEqual({ acEnergyKWh: undefined, event: 'initial' });
+  });
+
+  test('should tell rollovers from resets and flag implausible jumps', () => {
+    const rollover = convertRegisterReading(reading(15, 5), reading(0, 99990), settings);
+    expect(rollover.event).toBe('rollover');
+    expect(rollover.acEnergyKWh).toBeCloseTo(14.999, 6);
+
+    expect(convertRegisterReading(reading(15, 3), reading(0, 40000), settings))
+      .toEqual({ acEnergyKWh: 3, event: 'reset' });
+    expect(convertRegisterReading(reading(15, 2000), reading(0, 1000), settings))
+      .toEqual({ acEnergyKWh: undefined, event: 'discontinuity' });
+  });
+
+  test('should not count energy across a meter replacement or for late readings', () => {
+    expect(convertRegisterReading(reading(15, 12, 'M-2'), reading(0, 1000), settings))
+      .toEqual({ acEnergyKWh: undefined, event: 'replacement' });
+    expect(convertRegisterReading(reading(15, 1010), reading(0, 1000), settings, true))
+      .toEqual({ acEnergyKWh: undefined, event: 'late' });
+  });
+});
@@ -0,0 +1,44 @@
+import { getMethodology, DEFAULT_METHODOLOGY_ID } from '../aggregate/methodology.js';
+
+describe('Methodologies', () => {
+  const records = [
+    { tsUtc: new Date('2024-01-15T10:00:00.000Z'), acEnergyKWh: 600 },
+    { tsUtc: new Date('2024-01-15T11:00:00.000Z'), acEnergyKWh: 400 },
+  ];
+  const input = { records, factors: [], baselineKgPerKWh: 0.8 };
+
+  test('should default to the grid baseline', () => {
+    const methodology = getMethodology(DEFAULT_METHODOLOGY_ID);
+    const result = methodology.calculate(input, methodology.parseParams(undefined));
+
+    expect(result.avoidedTco2e).toBeCloseTo(0.8, 10);
+    expect(result.projectTco2e).toBe(0);
+    expect(result.emissionFactors[0]?.rows).toBe(2);
+  });
+
+  test('should apply auxiliary netting, project emissions and leakage', () => {
+    const methodology = getMethodology('grid-baseline');
+    const params = methodology.parseParams({
+      auxiliaryConsumptionFraction: 0.1,
+      projectEmissionsKgPerKWh: 0.05,
+      leakageFraction: 0.02,
+    });
+    const result = methodology.calculate(input, params);
+
+    expect(result.netEnergyKWh).toBeCloseTo(900, 10);
+    expect(result.baselineTco2e).toBeCloseTo(0.72, 10);
+    expect(result.projectTco2e).toBeCloseTo(0.045, 10);
+    expect(result.leakageTco2e).toBeCloseTo(0.0144, 10);
+    expect(result.avoidedTco2e).toBeCloseTo(0.72 - 0.045 - 0.0144, 10);
+  });
+
+  test('should weight operating and build margins', () => {
+    const methodology = getMethodology('combined-margin');
+    const params = methodology.parseParams({ buildMarginKgPerKWh: 0.4 });
+
+    expect(params.operatingMarginWeight).toBe(0.75);
+    expect(methodology.calculate(input, params).avoidedTco2e).toBeCloseTo(0.7, 10);
+    expect(() => methodology.parseParams({ buildMarginKgPerKWh: 0.4, operatingMarginWeight: 0.5 })).toThrow();
+    expect(() => getMethodology('unknown')).toThrow('Unknown methodology: unknown');
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  ModbusDeviceSchema,
+  ModbusRegisterSchema,
+  ModbusSiteConfigSchema,
+  decodeRegisterValue,
+  encodeReadRequest,
+  mapModbusReadings,
+  parseReadResponse,
+  planReads,
+  pollTimestamp,
+  responseFrameLength,
+} from '../ingest/modbusRegisters.js';
+
+describe('Modbus register maps', () => {
+  const register = (value: unknown) => ModbusRegisterSchema.parse(value);
+
+  test('should coalesce contiguous registers of a table into reads', () => {
+    const reads = planReads([
+      register({ field: 'acPowerKw', address: 100, type: 'int32' }),
+      register({ field: 'acEnergyRegisterKWh', address: 102, type: 'uint32' }),
+      register({ field: 'tempC', address: 110, type: 'int16' }),
+      register({ field: 'poaIrrWm2', address: 100, table: 'input', type: 'float32' }),
+      register({ field: 'windMps', address: 101, type: 'uint16' }), // overlaps the int32
+    ]);
+
+    expect(reads).toEqual([
+      { table: 'holding', address: 100, count: 4 },
+      { table: 'holding', address: 110, count: 1 },
+      { table: 'input', address: 100, count: 2 },
+    ]);
+
+    // 32 contiguous float64 registers exceed the 125 registers of one read
+    const wide = planReads(Array.from({ length: 32 }, (_, i) => register({ field: 'tempC', address: i * 4, type: 'float64' })));
+    expect(wide).toEqual([
+      { table: 'holding', address: 0, count: 124 },
+      { table: 'holding', address: 124, count: 4 },
+    ]);
+  });
+
+  test('should frame read requests and parse responses and exceptions', () => {
+    const read = { table: 'holding' as const, address: 40083, count: 2 };
+    const request = encodeReadRequest(7, 1, read);
+
+    expect(request.toString('hex')).toBe('00070000000601039c930002');
+
+    const response = Buffer.from('00070000000701030400010002', 'hex');
+    expect(responseFrameLength(response.subarray(0, 5))).toBeUndefined();
+    expect(responseFrameLength(response)).toBe(response.length);
+    expect(parseReadResponse(response, 7, 1, read).toString('hex')).toBe('00010002');
+
+    expect(() => parseReadResponse(response, 8, 1, read)).toThrow('does not match its request');
+    expect(() => parseReadResponse(Buffer.from('000700000003018302', 'hex'), 7, 1, read))
+      .toThrow('Modbus exception 2 (illegal data address)');
+    expect(() => parseReadResponse(Buffer.from('00070000000501030200', 'hex').subarray(0, 9), 7, 1, read))
+      .toThrow('Malformed Modbus response');
+  });
+
+  test('should decode register types in every byte and word order', () => {
+    const float = Buffer.alloc(4);
+    float.writeFloatBE(1234.5);
+    const [a, b, c, d] = float;
+
+    expect(decodeRegisterValue(register({ field: 'acPowerKw', address: 0, type: 'float32' }), Buffer.from([a!, b!, c!, d!]))).toBe(1234.5);
+    expect(decodeRegisterValue(register({ field: 'acPowerKw', address: 0, type: 'float32', wordOrder: 'little' }), Buffer.from([c!, d!, a!, b!]))).toBe(1234.5);
+    expect(decodeRegisterValue(register({ field: 'acPowerKw', address: 0, type: 'float32', byteOrder: 'little' }), Buffer.from([b!, a!, d!, c!]))).toBe(1234.5);
+    expect(decodeRegisterValue(
+      register({ field: 'acPowerKw', address: 0, type: 'float32', byteOrder: 'little', wordOrder: 'little' }),
+      Buffer.from([d!, c!, b!, a!])
+    )).toBe(1234.5);
+
+    expect(decodeRegisterValue(register({ field: 'tempC', address: 0, type: 'int16', scale: 0.1 }), Buffer.from('ff38', 'hex'))).toBeCloseTo(-20);
+    expect(decodeRegisterValue(register({ field: 'acPowerKw', address: 0, type: 'uint32', scale: 0.001 }), Buffer.from('0001e240', 'hex'))).toBeCloseTo(123.456);
+    expect(decodeRegisterValue(register({ field: 'acPowerKw', address: 0, type: 'int32' }), Buffer.from('fffffffe', 'hex'))).toBe(-2);
+    expect(decodeRegisterValue(register({ field: 'acEnergyRegisterKWh', address: 0, type: 'uint64', wordOrder: 'little' }), Buffer.from('0001000000000000', 'hex'))).toBe(1);
+    expect(() => decodeRegisterValue(register({ field: 'acPowerKw', address: 0, type: 'int32' }), Buffer.from('ff', 'hex'))).toThrow('was not read');
+  });
+
+  test('should map a device poll to one telemetry row per interval', () => {
+    const device = ModbusDeviceSchema.parse({
+      deviceId: 'INV-01',
+      host: '127.0.0.1',
+      registers: [
+        { field: 'acPowerKw', address: 10, type: 'uint16', scale: 0.1 },
+        { field: 'acEnergyRegisterKWh', address: 11, type: 'uint32' },
+        { field: 'poaIrrWm2', address: 0, table: 'input', type: 'float32' },
+      ],
+    });
+
+    expect(device).toMatchObject({ port: 502, unitId: 1 });
+
+    const nan = Buffer.alloc(4);
+    nan.writeFloatBE(NaN);
+    const tsUtc = pollTimestamp(new Date('2024-01-15T12:14:59.250Z'), 300);
+
+    const row = mapModbusReadings('PRJ001', device, [
+      { read: { table: 'holding', address: 10, count: 3 }, data: Buffer.from('04d2000004b0', 'hex') },
+      { read: { table: 'input', address: 0, count: 2 }, data: nan },
+    ], tsUtc);
+
+    expect(row).toEqual({
+      siteId: 'PRJ001',
+      deviceId: 'INV-01',
+      source: 'modbus',
+      tsUtc: '2024-01-15T12:10:00.000Z',
+      acPowerKw: 123.4,
+      acEnergyRegisterKWh: 1200,
+    });
+
+    expect(ModbusSiteConfigSchema.safeParse({ devices: [device, device] }).success).toBe(false);
+    expect(ModbusRegisterSchema.safeParse({ field: 'acPowerKw', address: 65535, type: 'float32' }).success).toBe(false);
+  });
+});
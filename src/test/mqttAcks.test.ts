@@ -0,0 +1,117 @@
+import mqtt from 'mqtt';
+import { MQTTIngester } from '../ingest/mqtt.js';
+import { ingestRecord } from '../ingest/pipeline.js';
+import { createError } from '../util/index.js';
+
+// Stand-in broker client; the options passed to connect hold customHandleAcks
+jest.mock('mqtt', () => {
+  const connect = jest.fn((_url: string, options: any) => {
+    const handlers: Record<string, (...args: any[]) => void> = {};
+    return {
+      options,
+      handlers,
+      on: jest.fn((event: string, handler: (...args: any[]) => void) => {
+        handlers[event] = handler;
+      }),
+      end: jest.fn(),
+      endAsync: jest.fn(async () => {}),
+      reconnect: jest.fn(),
+      subscribeAsync: jest.fn(async () => {}),
+      unsubscribeAsync: jest.fn(async () => {}),
+    };
+  });
+  return { __esModule: true, default: { connect } };
+});
+
+jest.mock('../db.js', () => ({
+  prisma: {
+    site: {
+      findMany: async () => [{ id: 'PRJ001', mqttTopic: null, sparkplug: null }],
+    },
+  },
+}));
+
+jest.mock('../ingest/pipeline.js', () => ({
+  ingestRecord: jest.fn(),
+}));
+
+const logger = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {} };
+const ingest = ingestRecord as jest.Mock;
+
+// Hand a QoS 1 message to the ingester and report whether it was
+// acknowledged or the session was dropped for redelivery
+const brokerClient = () => (mqtt.connect as jest.Mock).mock.results.at(-1)!.value;
+
+const deliver = (payload: string): Promise<'acked' | 'redelivered'> => new Promise(resolve => {
+  const client = brokerClient();
+  client.end.mockImplementationOnce(() => resolve('redelivered'));
+  client.options.customHandleAcks('iot/PRJ001/telemetry', Buffer.from(payload), {}, () => resolve('acked'));
+});
+
+describe('MQTT acknowledgements', () => {
+  let ingester: MQTTIngester;
+
+  beforeEach(async () => {
+    ingest.mockReset();
+    ingest.mockResolvedValue({ deviceId: '', tsUtc: '2024-01-15T12:00:00Z', rowHash: 'a'.repeat(64), status: 'created' });
+    ingester = new MQTTIngester(logger);
+    await ingester.connect();
+    await ingester.syncSubscriptions();
+  });
+
+  afterEach(async () => {
+    await ingester.disconnect();
+    jest.useRealTimers();
+  });
+
+  test('should acknowledge processed messages', async () => {
+    expect(await deliver(JSON.stringify({ tsUtc: '2024-01-15T12:00:00Z', acEnergyKWh: 1.3 }))).toBe('acked');
+    expect(ingest).toHaveBeenCalledWith(expect.objectContaining({ siteId: 'PRJ001', source: 'mqtt', acEnergyKWh: 1.3 }));
+  });
+
+  test('should drop payloads that are not JSON objects', async () => {
+    for (const payload of ['null', '42', '"reading"', '[1, 2]', 'not json']) {
+      expect(await deliver(payload)).toBe('acked');
+    }
+    expect(ingest).not.toHaveBeenCalled();
+  });
+
+  test('should drop messages that would fail again', async () => {
+    ingest.mockRejectedValueOnce(createError('Invalid telemetry', 'VALIDATION_ERROR', 400));
+    expect(await deliver(JSON.stringify({ acEnergyKWh: -1 }))).toBe('acked');
+
+    ingest.mockRejectedValueOnce(new TypeError("Cannot read properties of null (reading 'tsUtc')"));
+    expect(await deliver(JSON.stringify({ acEnergyKWh: 1.3 }))).toBe('acked');
+  });
+
+  test('should leave messages unacknowledged for redelivery while the database is unavailable', async () => {
+    jest.useFakeTimers();
+    const unavailable = Object.assign(new Error("Can't reach database server"), { code: 'P1001' });
+    const client = brokerClient();
+    const message = JSON.stringify({ acEnergyKWh: 1.3 });
+
+    ingest.mockRejectedValueOnce(unavailable);
+    expect(await deliver(message)).toBe('redelivered');
+    expect(ingester.getStatus().reconnectAttempts).toBe(1);
+
+    // Back on the stored session, the redelivered message fails again and
+    // the next reconnect waits longer (MQTT_RECONNECT_MIN_MS, jittered)
+    jest.advanceTimersByTime(1000);
+    expect(client.reconnect).toHaveBeenCalledTimes(1);
+    client.handlers.connect!({ sessionPresent: true });
+
+    ingest.mockRejectedValueOnce(unavailable);
+    expect(await deliver(message)).toBe('redelivered');
+    expect(ingester.getStatus().reconnectAttempts).toBe(2);
+
+    jest.advanceTimersByTime(999);
+    expect(client.reconnect).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(1000);
+    expect(client.reconnect).toHaveBeenCalledTimes(2);
+    client.handlers.connect!({ sessionPresent: true });
+
+    // Once it goes through, backoff starts over
+    expect(await deliver(message)).toBe('acked');
+    expect(ingester.getStatus().reconnectAttempts).toBe(0);
+  });
+});
@@ -0,0 +1,31 @@
+import { matchSiteTopic, siteTopic, validateTopicTemplate, isValidTopicSiteId } from '../ingest/mqttTopics.js';
+
+describe('MQTT topic templates', () => {
+  test('should expand templates into topic filters', () => {
+    expect(siteTopic('PRJ001', 'iot/{siteId}/telemetry').filter).toBe('iot/PRJ001/telemetry');
+    expect(siteTopic('PRJ001', 'plants/{siteId}/{deviceId}/data').filter).toBe('plants/PRJ001/+/data');
+    expect(siteTopic('PRJ001', 'legacy/alpha').filter).toBe('legacy/alpha');
+  });
+
+  test('should match received topics to their site and device', () => {
+    const plain = siteTopic('PRJ001', 'iot/{siteId}/telemetry');
+    const perDevice = siteTopic('PRJ001', 'plants/{siteId}/{deviceId}/data');
+
+    expect(matchSiteTopic(plain, 'iot/PRJ001/telemetry')).toEqual({});
+    expect(matchSiteTopic(plain, 'iot/PRJ002/telemetry')).toBeNull();
+    expect(matchSiteTopic(plain, 'iot/PRJ001/telemetry/extra')).toBeNull();
+    expect(matchSiteTopic(perDevice, 'plants/PRJ001/INV-01/data')).toEqual({ deviceId: 'INV-01' });
+    expect(matchSiteTopic(perDevice, 'plants/PRJ001//data')).toBeNull();
+  });
+
+  test('should reject templates with wildcards or partial placeholders', () => {
+    expect(validateTopicTemplate('iot/{siteId}/telemetry')).toBeUndefined();
+    expect(validateTopicTemplate('iot/+/telemetry')).toMatch(/wildcards/);
+    expect(validateTopicTemplate('iot/#')).toMatch(/wildcards/);
+    expect(validateTopicTemplate('iot/site-{siteId}')).toMatch(/whole topic level/);
+    expect(validateTopicTemplate('{siteId}/{siteId}')).toMatch(/at most once/);
+    expect(validateTopicTemplate('')).toMatch(/empty/);
+    expect(isValidTopicSiteId('PRJ001')).toBe(true);
+    expect(isValidTopicSiteId('PRJ/001')).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import { generateKeyPairSync, sign } from 'crypto';
+import { parsePublicKey, signedRowEncoding, verifyRowSignature } from '../model/signature.js';
+
+describe('Device signatures', () => {
+  const row = {
+    siteId: 'PRJ001',
+    deviceId: 'INV-01',
+    tsUtc: '2024-01-15T12:00:00.000Z',
+    acEnergyKWh: 1.25,
+    acPowerKw: 5,
+    status: 'OK',
+    source: 'http',
+  };
+
+  const ed25519 = generateKeyPairSync('ed25519');
+  const ecdsa = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const pem = (key: typeof ed25519.publicKey) => key.export({ type: 'spki', format: 'pem' }).toString();
+
+  test('should verify Ed25519 and ECDSA P-256 signatures over the canonical encoding', () => {
+    const message = Buffer.from(signedRowEncoding(row), 'utf8');
+    const edSignature = sign(null, message, ed25519.privateKey).toString('base64');
+    const ecSignature = sign('sha256', message, ecdsa.privateKey).toString('base64');
+
+    expect(signedRowEncoding(row).startsWith('rh4|siteId=PRJ001|deviceId=INV-01|')).toBe(true);
+    expect(verifyRowSignature(row, edSignature, pem(ed25519.publicKey), 'ed25519')).toBe(true);
+    expect(verifyRowSignature(row, ecSignature, pem(ecdsa.publicKey), 'ecdsa-p256')).toBe(true);
+    expect(verifyRowSignature({ ...row, acEnergyKWh: 1.26 }, edSignature, pem(ed25519.publicKey), 'ed25519')).toBe(false);
+    expect(verifyRowSignature({ ...row, deviceId: 'INV-02' }, ecSignature, pem(ecdsa.publicKey), 'ecdsa-p256')).toBe(false);
+  });
+
+  test('should sign register readings without the derived interval energy', () => {
+    const reading = { ...row, acEnergyKWh: undefined, acEnergyRegisterKWh: 10500.125 };
+    const signature = sign(null, Buffer.from(signedRowEncoding(reading), 'utf8'), ed25519.privateKey).toString('base64');
+
+    // acEnergyKWh is filled in on ingestion; the signature still holds
+    expect(verifyRowSignature({ ...reading, acEnergyKWh: 1.5 }, signature, pem(ed25519.publicKey), 'ed25519')).toBe(true);
+  });
+
+  test('should reject keys of another algorithm and malformed signatures', () => {
+    expect(() => parsePublicKey(pem(ecdsa.publicKey), 'ed25519')).toThrow('not a ed25519 key');
+    expect(() => parsePublicKey('not a key', 'ecdsa-p256')).toThrow();
+    expect(verifyRowSignature(row, 'not-base64!', pem(ed25519.publicKey), 'ed25519')).toBe(false);
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  SparkplugNodeRegistry,
+  SparkplugSite,
+  decodeSparkplugPayload,
+  encodeRebirthRequest,
+  mapSparkplugMetrics,
+  matchSparkplugSite,
+  parseSparkplugTopic,
+  sparkplugFilter,
+} from '../ingest/sparkplug.js';
+
+// Protobuf encoding of the Sparkplug B fields the tests need
+const varint = (value: number | bigint): Buffer => {
+  const bytes: number[] = [];
+  let rest = BigInt.asUintN(64, BigInt(value));
+  do {
+    const byte = Number(rest & 0x7fn);
+    rest >>= 7n;
+    bytes.push(rest > 0n ? byte | 0x80 : byte);
+  } while (rest > 0n);
+  return Buffer.from(bytes);
+};
+
+const field = (number: number, wireType: number, body: Buffer): Buffer => {
+  const key = varint(number * 8 + wireType);
+  return wireType === 2 ? Buffer.concat([key, varint(body.length), body]) : Buffer.concat([key, body]);
+};
+
+interface TestMetric {
+  name?: string;
+  alias?: number;
+  timestamp?: number;
+  datatype?: number;
+  int?: number;
+  long?: number | bigint;
+  double?: number;
+  float?: number;
+  string?: string;
+  isNull?: boolean;
+}
+
+const metric = (m: TestMetric): Buffer => {
+  const parts: Buffer[] = [];
+  if (m.name !== undefined) parts.push(field(1, 2, Buffer.from(m.name)));
+  if (m.alias !== undefined) parts.push(field(2, 0, varint(m.alias)));
+  if (m.timestamp !== undefined) parts.push(field(3, 0, varint(m.timestamp)));
+  if (m.datatype !== undefined) parts.push(field(4, 0, varint(m.datatype)));
+  if (m.isNull) parts.push(field(7, 0, varint(1)));
+  parts.push(field(8, 2, Buffer.from([0x08, 0x01]))); // metadata, skipped
+  if (m.int !== undefined) parts.push(field(10, 0, varint(m.int >>> 0)));
+  if (m.long !== undefined) parts.push(field(11, 0, varint(m.long)));
+  if (m.float !== undefined) {
+    const value = Buffer.alloc(4);
+    value.writeFloatLE(m.float);
+    parts.push(field(12, 5, value));
+  }
+  if (m.double !== undefined) {
+    const value = Buffer.alloc(8);
+    value.writeDoubleLE(m.double);
+    parts.push(field(13, 1, value));
+  }
+  if (m.string !== undefined) parts.push(field(15, 2, Buffer.from(m.string)));
+  return Buffer.concat(parts);
+};
+
+const payload = (timestamp: number, metrics: TestMetric[], seq = 0): Buffer => {
+  return Buffer.concat([
+    field(1, 0, varint(timestamp)),
+    ...metrics.map(m => field(2, 2, metric(m))),
+    field(3, 0, varint(seq)),
+    field(4, 2, Buffer.from('a-uuid')),
+  ]);
+};
+
+describe('Sparkplug B', () => {
+  const t0 = Date.parse('2024-01-15T12:00:00Z');
+
+  const site: SparkplugSite = {
+    siteId: 'PRJ001',
+    config: {
+      groupId: 'solar',
+      edgeNodeId: 'gw-01',
+      metrics: {
+        'Inverter/AC Power': { field: 'acPowerKw', scale: 0.001 },
+        'Inverter/Energy': { field: 'acEnergyRegisterKWh' },
+        'Inverter/State': { field: 'status' },
+      },
+    },
+  };
+
+  test('should parse node and device topics and match them to sites', () => {
+    expect(parseSparkplugTopic('spBv1.0/solar/NBIRTH/gw-01')).toEqual({ groupId: 'solar', messageType: 'NBIRTH', edgeNodeId: 'gw-01' });
+    expect(parseSparkplugTopic('spBv1.0/solar/DDATA/gw-01/INV-01')).toEqual({
+      groupId: 'solar',
+      messageType: 'DDATA',
+      edgeNodeId: 'gw-01',
+      deviceId: 'INV-01',
+    });
+    expect(parseSparkplugTopic('spBv1.0/solar/DDATA/gw-01')).toBeNull();
+    expect(parseSparkplugTopic('spBv1.0/solar/NDATA/gw-01/INV-01')).toBeNull();
+    expect(parseSparkplugTopic('spBv1.0/STATE/scada-host')).toBeNull();
+    expect(parseSparkplugTopic('iot/PRJ001/telemetry')).toBeNull();
+
+    const groupSite: SparkplugSite = { siteId: 'PRJ002', config: { groupId: 'solar', metrics: site.config.metrics } };
+    const sites = [groupSite, site];
+
+    expect(sparkplugFilter(site.config)).toBe('spBv1.0/solar/+/gw-01/#');
+    expect(sparkplugFilter(groupSite.config)).toBe('spBv1.0/solar/#');
+    expect(matchSparkplugSite(sites, parseSparkplugTopic('spBv1.0/solar/NDATA/gw-01')!)?.siteId).toBe('PRJ001');
+    expect(matchSparkplugSite(sites, parseSparkplugTopic('spBv1.0/solar/NDATA/gw-02')!)?.siteId).toBe('PRJ002');
+    expect(matchSparkplugSite(sites, parseSparkplugTopic('spBv1.0/wind/NDATA/gw-01')!)).toBeUndefined();
+  });
+
+  test('should decode metrics of every supported value type', () => {
+    const decoded = decodeSparkplugPayload(payload(t0, [
+      { name: 'Int32', datatype: 3, int: -5 },
+      { name: 'Int64', datatype: 4, long: -7n },
+      { name: 'UInt64', datatype: 8, long: 2 ** 40 },
+      { name: 'Float', datatype: 9, float: 1.5 },
+      { name: 'Double', alias: 3, timestamp: t0 + 1000, datatype: 10, double: 1234.5 },
+      { name: 'String', datatype: 12, string: 'OK' },
+      { name: 'Null', datatype: 10, isNull: true },
+    ], 42));
+
+    expect(decoded.timestamp).toBe(t0);
+    expect(decoded.seq).toBe(42);
+    expect(decoded.metrics.map(m => [m.name, m.value])).toEqual([
+      ['Int32', -5],
+      ['Int64', -7],
+      ['UInt64', 2 ** 40],
+      ['Float', 1.5],
+      ['Double', 1234.5],
+      ['String', 'OK'],
+      ['Null', undefined],
+    ]);
+    expect(decoded.metrics[4]).toMatchObject({ alias: 3, timestamp: t0 + 1000, datatype: 10 });
+    expect(decoded.metrics[6]!.isNull).toBe(true);
+
+    const message = payload(t0, [{ name: 'Double', double: 1 }]);
+    expect(() => decodeSparkplugPayload(message.subarray(0, message.length - 12))).toThrow('Truncated Sparkplug payload');
+
+    const rebirth = decodeSparkplugPayload(encodeRebirthRequest(t0));
+    expect(rebirth.metrics).toEqual([{ name: 'Node Control/Rebirth', timestamp: t0, datatype: 11, value: true, isHistorical: false, isNull: false }]);
+  });
+
+  test('should resolve aliases from births and map metrics to telemetry rows', () => {
+    const registry = new SparkplugNodeRegistry();
+    registry.nodeBirth('solar', 'gw-01', decodeSparkplugPayload(payload(t0, [{ name: 'bdSeq', datatype: 8, long: 3 }])));
+    expect(registry.deviceBirth('solar', 'gw-01', 'INV-01', decodeSparkplugPayload(payload(t0, [
+      { name: 'Inverter/AC Power', alias: 1, datatype: 10, double: 0 },
+      { name: 'Inverter/Energy', alias: 2, datatype: 10, double: 0 },
+    ])))).toBe(true);
+    expect(registry.deviceBirth('solar', 'gw-02', 'INV-09', decodeSparkplugPayload(payload(t0, [])))).toBe(false);
+
+    const data = decodeSparkplugPayload(payload(t0 + 900_000, [
+      { alias: 1, datatype: 10, double: 250_000 },
+      { alias: 2, datatype: 10, double: 1200.5 },
+      { alias: 2, timestamp: t0, datatype: 10, double: 1138 }, // historical
+      { alias: 9, datatype: 10, double: 1 }, // never declared
+      { name: 'Inverter/State', datatype: 12, string: 'CURTAILED' },
+      { name: 'Inverter/Temperature', datatype: 10, double: 41 }, // not mapped
+    ]));
+
+    const rows = mapSparkplugMetrics(site, 'INV-01', data, m => registry.metricName('solar', 'gw-01', m));
+
+    expect(rows).toEqual([
+      { siteId: 'PRJ001', deviceId: 'INV-01', source: 'mqtt', tsUtc: '2024-01-15T12:00:00.000Z', acEnergyRegisterKWh: 1138 },
+      {
+        siteId: 'PRJ001',
+        deviceId: 'INV-01',
+        source: 'mqtt',
+        tsUtc: '2024-01-15T12:15:00.000Z',
+        acPowerKw: 250,
+        acEnergyRegisterKWh: 1200.5,
+        status: 'CURTAILED',
+      },
+    ]);
+  });
+
+  test('should take devices offline on death unless the NDEATH is of an earlier session', () => {
+    const registry = new SparkplugNodeRegistry();
+    const bdSeq = (value: number) => decodeSparkplugPayload(payload(t0, [{ name: 'bdSeq', datatype: 8, long: value }]));
+
+    registry.nodeBirth('solar', 'gw-01', bdSeq(4));
+    registry.deviceBirth('solar', 'gw-01', 'INV-01', bdSeq(4));
+    registry.deviceBirth('solar', 'gw-01', 'INV-02', bdSeq(4));
+    registry.deviceDeath('solar', 'gw-01', 'INV-02');
+
+    expect(registry.nodeDeath('solar', 'gw-01', bdSeq(3))).toBeNull();
+    expect(registry.isBorn('solar', 'gw-01')).toBe(true);
+    expect(registry.nodeDeath('solar', 'gw-01', bdSeq(4))).toEqual(['INV-01']);
+    expect(registry.isBorn('solar', 'gw-01')).toBe(false);
+  });
+});
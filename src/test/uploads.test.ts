@@ -0,0 +1,356 @@
+import { prisma } from '../db.js';
+import { MultipartParser, MultipartEvent, multipartBoundary } from '../ingest/multipart.js';
+import { openParquet, readParquetRows, snappyDecompress, decodeHybrid, ParquetSource } from '../ingest/parquet.js';
+import { FieldMappingSchema, mappedPaths } from '../ingest/pullMapping.js';
+import { formatCsvRow, parseCsv } from '../ingest/csv.js';
+import { uploadTelemetry } from '../ingest/upload.js';
+import { ingestBatch } from '../ingest/pipeline.js';
+
+// Uploads and their rejected rows are kept in memory
+jest.mock('../db.js', () => {
+  const store = { uploads: [] as any[], rejections: [] as any[] };
+  return {
+    prisma: {
+      store,
+      ingestUpload: {
+        create: async ({ data }: any) => {
+          const upload = { id: `upload-${store.uploads.length + 1}`, ...data };
+          store.uploads.push(upload);
+          return upload;
+        },
+        update: async ({ where, data }: any) => Object.assign(store.uploads.find(upload => upload.id === where.id), data),
+      },
+      ingestUploadRejection: {
+        createMany: async ({ data }: any) => {
+          store.rejections.push(...data);
+        },
+      },
+    },
+  };
+});
+
+// Rows with a negative energy are rejected by the pipeline
+jest.mock('../ingest/pipeline.js', () => ({
+  ingestBatch: jest.fn(async (items: any[]) => items.map((item, index) => item.acEnergyKWh < 0
+    ? { index, status: 'rejected', reason: 'acEnergyKWh must be non-negative' }
+    : { index, status: 'created' })),
+}));
+
+jest.mock('../config/index.js', () => {
+  const actual = jest.requireActual('../config/index.js');
+  return { ...actual, env: { ...actual.env, UPLOAD_MAX_MB: 1 } };
+});
+
+const store = (prisma as any).store;
+
+// Thrift compact encoding, enough to write Parquet metadata
+type Field = [id: number, type: 'i32' | 'i64' | 'binary' | 'list' | 'struct', value: unknown, elementType?: 'i32' | 'binary' | 'struct'];
+
+const TYPES = { i32: 5, i64: 6, binary: 8, list: 9, struct: 12 };
+
+const varint = (value: bigint): number[] => {
+  const bytes: number[] = [];
+  do {
+    bytes.push(Number(value & 0x7fn) | (value > 0x7fn ? 0x80 : 0));
+    value >>= 7n;
+  } while (value > 0n);
+  return bytes;
+};
+
+const zigzag = (value: number): number[] => varint(BigInt(value) >= 0n ? BigInt(value) << 1n : (-BigInt(value) << 1n) - 1n);
+
+const encodeValue = (type: Field[1] | 'i32', value: unknown, elementType?: Field[3]): number[] => {
+  switch (type) {
+    case 'i32':
+    case 'i64': return zigzag(value as number);
+    case 'binary': return [...varint(BigInt(Buffer.from(value as string).length)), ...Buffer.from(value as string)];
+    case 'struct': return encodeStruct(value as Field[]);
+    case 'list': {
+      const items = value as unknown[];
+      return [(items.length << 4) | TYPES[elementType!], ...items.flatMap(item => encodeValue(elementType!, item))];
+    }
+  }
+};
+
+const encodeStruct = (fields: Field[]): number[] => {
+  let last = 0;
+  const bytes = fields.flatMap(([id, type, value, elementType]) => {
+    const header = (id - last) << 4 | TYPES[type];
+    last = id;
+    return [header, ...encodeValue(type, value, elementType)];
+  });
+  return [...bytes, 0];
+};
+
+// Snappy stream of a single literal
+const snappyLiteral = (data: Buffer): Buffer => Buffer.from([...varint(BigInt(data.length)), (data.length - 1) << 2, ...data]);
+
+const pageHeader = (type: number, size: number, compressedSize: number, fields: Field[]): Buffer => {
+  return Buffer.from(encodeStruct([[1, 'i32', type], [2, 'i32', size], [3, 'i32', compressedSize], ...fields]));
+};
+
+// Three rows: a required timestamp, an optional double with a null (v1 page)
+// and an optional dictionary-encoded string, Snappy-compressed (v2 page).
+// The time page can declare another uncompressed size.
+const buildParquet = (timeSize = 24): Buffer => {
+  const time = Buffer.alloc(24);
+  [1705320000000n, 1705320900000n, 1705321800000n].forEach((value, i) => time.writeBigInt64LE(value, i * 8));
+  const timePage = Buffer.concat([pageHeader(0, timeSize, 24, [[5, 'struct', [[1, 'i32', 3], [2, 'i32', 0], [3, 'i32', 3], [4, 'i32', 3]]]]), time]);
+
+  const power = Buffer.alloc(16);
+  power.writeDoubleLE(5200, 0);
+  power.writeDoubleLE(4800, 8);
+  const powerBody = Buffer.concat([Buffer.from([2, 0, 0, 0, 3, 0b101]), power]);
+  const powerPage = Buffer.concat([pageHeader(0, powerBody.length, powerBody.length, [[5, 'struct', [[1, 'i32', 3], [2, 'i32', 0], [3, 'i32', 3], [4, 'i32', 3]]]]), powerBody]);
+
+  const dictionary = Buffer.from([6, 0, 0, 0, ...Buffer.from('INV-01')]);
+  const dictionaryPage = Buffer.concat([
+    pageHeader(2, dictionary.length, snappyLiteral(dictionary).length, [[7, 'struct', [[1, 'i32', 1], [2, 'i32', 0]]]]),
+    snappyLiteral(dictionary),
+  ]);
+  const indices = Buffer.from([1, 4, 0]);
+  const devicePage = Buffer.concat([
+    pageHeader(3, 2 + indices.length, 2 + snappyLiteral(indices).length, [[8, 'struct', [[1, 'i32', 3], [2, 'i32', 1], [3, 'i32', 3], [4, 'i32', 8], [5, 'i32', 2], [6, 'i32', 0]]]]),
+    Buffer.from([3, 0b011]),
+    snappyLiteral(indices),
+  ]);
+
+  const chunks: { path: string; type: number; codec: number; pages: Buffer[]; dictionary?: boolean }[] = [
+    { path: 'time', type: 2, codec: 0, pages: [timePage] },
+    { path: 'P_AC', type: 5, codec: 0, pages: [powerPage] },
+    { path: 'device', type: 6, codec: 1, pages: [dictionaryPage, devicePage], dictionary: true },
+  ];
+
+  const parts: Buffer[] = [Buffer.from('PAR1')];
+  let offset = 4;
+  const columns = chunks.map(({ path, type, codec, pages, dictionary: hasDictionary }) => {
+    const start = offset;
+    const length = pages.reduce((sum, page) => sum + page.length, 0);
+    parts.push(...pages);
+    offset += length;
+
+    const dataOffset = hasDictionary ? start + pages[0]!.length : start;
+    return [[2, 'i64', start], [3, 'struct', [
+      [1, 'i32', type], [2, 'list', [0], 'i32'], [3, 'list', [path], 'binary'], [4, 'i32', codec],
+      [5, 'i64', 3], [6, 'i64', length], [7, 'i64', length], [9, 'i64', dataOffset],
+      ...(hasDictionary ? [[11, 'i64', start]] : []),
+    ]]] as Field[];
+  });
+
+  const footer = Buffer.from(encodeStruct([
+    [1, 'i32', 1],
+    [2, 'list', [
+      [[4, 'binary', 'schema'], [5, 'i32', 3]],
+      [[1, 'i32', 2], [3, 'i32', 0], [4, 'binary', 'time'], [6, 'i32', 9]],
+      [[1, 'i32', 5], [3, 'i32', 1], [4, 'binary', 'P_AC']],
+      [[1, 'i32', 6], [3, 'i32', 1], [4, 'binary', 'device'], [6, 'i32', 0]],
+    ], 'struct'],
+    [3, 'i64', 3],
+    [4, 'list', [[[1, 'list', columns, 'struct'], [2, 'i64', offset], [3, 'i64', 3]]], 'struct'],
+  ]));
+
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(footer.length);
+  return Buffer.concat([...parts, footer, length, Buffer.from('PAR1')]);
+};
+
+const bufferSource = (data: Buffer): ParquetSource => ({
+  size: data.length,
+  read: async (offset, length) => data.subarray(offset, offset + length),
+});
+
+describe('Bulk uploads', () => {
+  test('should parse multipart bodies pushed in chunks of any size', () => {
+    expect(multipartBoundary('multipart/form-data; boundary="----x y"')).toBe('----x y');
+    expect(multipartBoundary('multipart/form-data; boundary=abc123')).toBe('abc123');
+    expect(multipartBoundary('application/json')).toBeUndefined();
+
+    const body = Buffer.from([
+      'preamble',
+      '--abc123',
+      'Content-Disposition: form-data; name="mapping"',
+      '',
+      '{"siteId":"PRJ001"}',
+      '--abc123',
+      'Content-Disposition: form-data; name="file"; filename="day \\"1\\".csv"',
+      'Content-Type: text/csv',
+      '',
+      'time,kWh\r\n2024-01-15T12:00:00Z,1.3\r\n--abc12 is not a delimiter',
+      '--abc123--',
+      '',
+    ].join('\r\n'));
+
+    for (const size of [1, 7, body.length]) {
+      const parser = new MultipartParser('abc123');
+      const events: MultipartEvent[] = [];
+      for (let i = 0; i < body.length; i += size) {
+        events.push(...parser.push(body.subarray(i, i + size)));
+      }
+      parser.end();
+
+      const parts: { name: string; filename?: string; contentType?: string; content: string }[] = [];
+      for (const event of events) {
+        if (event.type === 'part') parts.push({ ...event, content: '' });
+        if (event.type === 'data') parts[parts.length - 1]!.content += event.data.toString();
+      }
+
+      expect(parts.map(({ type, ...part }: any) => part)).toEqual([
+        { name: 'mapping', content: '{"siteId":"PRJ001"}' },
+        { name: 'file', filename: 'day "1".csv', contentType: 'text/csv', content: 'time,kWh\r\n2024-01-15T12:00:00Z,1.3\r\n--abc12 is not a delimiter' },
+      ]);
+      expect(events.filter(event => event.type === 'end')).toHaveLength(2);
+    }
+
+    const truncated = new MultipartParser('abc123');
+    truncated.push(body.subarray(0, 120));
+    expect(() => truncated.end()).toThrow('Multipart body ended before its closing boundary');
+    expect(() => new MultipartParser('abc123').push(Buffer.from('--abc123\r\nContent-Type: text/plain\r\n\r\nx'))).toThrow('Multipart part without a form-data name');
+  });
+
+  test('should decode Snappy and the RLE/bit-packing hybrid', () => {
+    // "abc" literal, then a 9-byte copy at offset 3 overlapping its output
+    expect(snappyDecompress(Buffer.from([12, 0x08, 0x61, 0x62, 0x63, 0x15, 3]), 12).toString()).toBe('abcabcabcabc');
+    expect(() => snappyDecompress(Buffer.from([12, 0x08, 0x61, 0x62, 0x63, 0x15, 4]), 12)).toThrow('Corrupt Snappy data');
+    expect(() => snappyDecompress(Buffer.from([12, 0x08, 0x61, 0x62, 0x63, 0x15, 3]), 8)).toThrow('Corrupt Snappy data');
+
+    // A run of four 5s, then 0..7 bit-packed at width 3 (Parquet spec example)
+    expect(decodeHybrid(Buffer.from([8, 5, 3, 0x88, 0xc6, 0xfa]), 3, 12)).toEqual([5, 5, 5, 5, 0, 1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  test('should read the mapped columns of a Parquet file', async () => {
+    const source = bufferSource(buildParquet());
+    const file = await openParquet(source);
+
+    expect(file.numRows).toBe(3);
+    expect(file.columns.map(column => column.path)).toEqual(['time', 'P_AC', 'device']);
+
+    const batches: unknown[] = [];
+    for await (const records of readParquetRows(source, file, ['time', 'P_AC', 'device'], 500)) {
+      batches.push(records);
+    }
+
+    expect(batches).toEqual([[
+      { time: '2024-01-15T12:00:00.000Z', P_AC: 5200, device: 'INV-01' },
+      { time: '2024-01-15T12:15:00.000Z', P_AC: null, device: 'INV-01' },
+      { time: '2024-01-15T12:30:00.000Z', P_AC: 4800, device: null },
+    ]]);
+
+    // Batches are cut within pages
+    const sizes: number[] = [];
+    for await (const records of readParquetRows(source, file, ['time', 'P_AC', 'device'], 2)) {
+      sizes.push(records.length);
+    }
+    expect(sizes).toEqual([2, 1]);
+
+    const { value: timeOnly } = await readParquetRows(source, file, ['time'], 500).next();
+    expect(timeOnly).toHaveLength(3);
+    expect(timeOnly![0]).toEqual({ time: '2024-01-15T12:00:00.000Z' });
+
+    await expect(openParquet(bufferSource(Buffer.from('time,kWh\n2024-01-15T12:00:00Z,1.3\n')))).rejects.toThrow('Not a Parquet file');
+  });
+
+  test('should reject Parquet pages declaring more than the page size limit', async () => {
+    const source = bufferSource(buildParquet(2 ** 31 - 1));
+    const file = await openParquet(source);
+
+    await expect(readParquetRows(source, file, ['time'], 500).next()).rejects.toMatchObject({
+      statusCode: 400,
+      message: 'Parquet page in column time is larger than 16 MB',
+    });
+  });
+
+  test('should list mapped columns and write report rows that parse back', () => {
+    const mapping = FieldMappingSchema.parse({
+      tsUtc: { path: 'time', format: 'epoch-ms' },
+      acPowerKw: { path: 'P_AC', unit: 'W' },
+      acEnergyKWh: 'kWh',
+      deviceId: 'device',
+    });
+    expect(mappedPaths(mapping)).toEqual(['time', 'P_AC', 'kWh', 'device']);
+
+    const report = formatCsvRow(['time', 'note', '_row', '_error'])
+      + formatCsvRow(['2024-01-15T12:00:00Z', 'a,b "c"\nd', '2', 'Field kWh is not a number']);
+    expect(report).toBe('time,note,_row,_error\r\n2024-01-15T12:00:00Z,"a,b ""c""\nd",2,Field kWh is not a number\r\n');
+    expect(parseCsv(report)).toEqual([
+      { time: '2024-01-15T12:00:00Z', note: 'a,b "c"\nd', _row: '2', _error: 'Field kWh is not a number' },
+    ]);
+  });
+});
+
+describe('Upload endpoint', () => {
+  const multipart = (parts: { name: string; filename?: string; content: string }[]): Buffer => Buffer.from(
+    parts.map(({ name, filename, content }) => '--abc123\r\n'
+      + `Content-Disposition: form-data; name="${name}"${filename ? `; filename="${filename}"` : ''}\r\n\r\n`
+      + `${content}\r\n`).join('') + '--abc123--\r\n'
+  );
+
+  // The body arrives in 64 KB chunks, as from a socket
+  const upload = async (body: Buffer) => {
+    const reply: any = {
+      statusCode: 200,
+      code: (statusCode: number) => Object.assign(reply, { statusCode }),
+      send: (payload: unknown) => Object.assign(reply, { payload }),
+    };
+    const chunks: Buffer[] = [];
+    for (let offset = 0; offset < body.length; offset += 65536) chunks.push(body.subarray(offset, offset + 65536));
+
+    await uploadTelemetry({
+      headers: { 'content-type': 'multipart/form-data; boundary=abc123' },
+      raw: chunks,
+      ingestScope: { credentialId: 'cred-1', siteIds: ['PRJ001'] },
+      log: { info: () => {}, warn: () => {}, error: () => {} },
+    } as any, reply);
+
+    return reply;
+  };
+
+  const mapping = JSON.stringify({ siteId: 'PRJ001', fields: { tsUtc: 'time', acEnergyKWh: 'kWh' } });
+
+  const csvRows = (count: number, value: (row: number) => string) => ['time,kWh', ...Array.from({ length: count }, (_, i) => {
+    return `${new Date(Date.UTC(2024, 0, 1) + i * 900_000).toISOString()},${value(i + 1)}`;
+  })].join('\n');
+
+  beforeEach(() => {
+    store.uploads = [];
+    store.rejections = [];
+    (ingestBatch as jest.Mock).mockClear();
+  });
+
+  test('should number rows across chunks and store rejected rows', async () => {
+    const csv = csvRows(1200, row => (row === 2 ? 'n/a' : row === 700 || row === 1101 ? '-1' : '1.3'));
+    const reply = await upload(multipart([{ name: 'mapping', content: mapping }, { name: 'file', filename: 'export.csv', content: csv }]));
+
+    expect(reply.statusCode).toBe(200);
+    expect(reply.payload).toMatchObject({ uploadId: 'upload-1', format: 'csv', rows: 1200, created: 1197, rejected: 3 });
+    expect((ingestBatch as jest.Mock).mock.calls.map(([items]) => items.length)).toEqual([499, 500, 200]);
+
+    expect(store.rejections.map((rejection: any) => [rejection.row, rejection.reason])).toEqual([
+      [2, 'Field kWh is not a number'],
+      [700, 'acEnergyKWh must be non-negative'],
+      [1101, 'acEnergyKWh must be non-negative'],
+    ]);
+    expect(store.rejections[1].record).toEqual({ time: '2024-01-08T06:45:00.000Z', kWh: '-1' });
+    expect(store.uploads[0]).toMatchObject({ status: 'completed', columns: ['time', 'kWh'], rowCount: 1200, rejectedCount: 3 });
+  });
+
+  test('should stop uploads over UPLOAD_MAX_MB with 413', async () => {
+    const csv = csvRows(40_000, () => '1.3');
+    const reply = await upload(multipart([{ name: 'mapping', content: mapping }, { name: 'file', filename: 'export.csv', content: csv }]));
+
+    expect(reply.statusCode).toBe(413);
+    expect(reply.payload).toMatchObject({ code: 'UPLOAD_TOO_LARGE', error: 'Uploads are limited to 1 MB' });
+    expect(store.uploads[0]).toMatchObject({ status: 'failed', error: 'Uploads are limited to 1 MB' });
+  });
+
+  test('should require the mapping before the file', async () => {
+    const reply = await upload(multipart([
+      { name: 'file', filename: 'export.csv', content: csvRows(2, () => '1.3') },
+      { name: 'mapping', content: mapping },
+    ]));
+
+    expect(reply.statusCode).toBe(400);
+    expect(reply.payload).toMatchObject({ code: 'INVALID_UPLOAD', error: 'The mapping field must be sent before the file' });
+    expect(store.uploads).toEqual([]);
+    expect(ingestBatch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,43 @@
+import { planCatchUp, advanceWatermark } from '../ingest/watermark.js';
+
+describe('Pull watermarks', () => {
+  const options = { overlapMinutes: 60, initialLookbackHours: 24, maxWindowHours: 24, maxCatchUpHours: 168 };
+  const now = new Date('2024-01-15T12:00:00Z');
+
+  test('should pull from the watermark less the overlap up to now', () => {
+    expect(planCatchUp(new Date('2024-01-15T11:45:00Z'), now, options)).toEqual({
+      windows: [{ from: new Date('2024-01-15T10:45:00Z'), to: now }],
+      capped: false,
+    });
+
+    // First pull of a site
+    expect(planCatchUp(null, now, options).windows).toEqual([{ from: new Date('2024-01-14T12:00:00Z'), to: now }]);
+
+    // Watermark ahead of the clock
+    expect(planCatchUp(new Date('2024-01-15T14:00:00Z'), now, options).windows).toEqual([]);
+  });
+
+  test('should catch up outages in windows, capped at maxCatchUpHours', () => {
+    const plan = planCatchUp(new Date('2024-01-13T01:00:00Z'), now, options);
+    expect(plan.capped).toBe(false);
+    expect(plan.windows.map(({ from, to }) => [from.toISOString(), to.toISOString()])).toEqual([
+      ['2024-01-13T00:00:00.000Z', '2024-01-14T00:00:00.000Z'],
+      ['2024-01-14T00:00:00.000Z', '2024-01-15T00:00:00.000Z'],
+      ['2024-01-15T00:00:00.000Z', '2024-01-15T12:00:00.000Z'],
+    ]);
+
+    const capped = planCatchUp(new Date('2023-12-01T00:00:00Z'), now, options);
+    expect(capped.capped).toBe(true);
+    expect(capped.windows).toHaveLength(7);
+    expect(capped.windows[0]!.from).toEqual(new Date('2024-01-08T12:00:00Z'));
+    expect(capped.windows[6]!.to).toEqual(now);
+  });
+
+  test('should only move the watermark forward', () => {
+    const watermark = new Date('2024-01-15T11:45:00Z');
+    expect(advanceWatermark(null, watermark)).toEqual(watermark);
+    expect(advanceWatermark(watermark, undefined)).toEqual(watermark);
+    expect(advanceWatermark(watermark, new Date('2024-01-15T11:00:00Z'))).toEqual(watermark);
+    expect(advanceWatermark(watermark, new Date('2024-01-15T12:00:00Z'))).toEqual(new Date('2024-01-15T12:00:00Z'));
+  });
+});
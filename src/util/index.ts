@@ -35,6 +35,108 @@ export const getHourStart = (date: Date): Date => {
   return hourStart;
 };
 
+// Time zone utilities (IANA names, DST-aware via Intl)
+export type DigestDayBoundary = 'utc' | 'local';
+
+export interface DayBounds {
+  day: string;      // calendar day label, YYYY-MM-DD
+  timezone: string; // zone the day is cut in
+  start: Date;      // inclusive, UTC instant of local midnight
+  end: Date;        // exclusive, UTC instant of the next local midnight
+}
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Offset of the zone from UTC at the given instant, in minutes
+export const getTimeZoneOffsetMinutes = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes): number => {
+    return Number(parts.find(part => part.type === type)?.value);
+  };
+
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+// Calendar day (YYYY-MM-DD) of an instant in the given zone
+export const formatZonedDate = (date: Date, timeZone: string): string => {
+  const offset = getTimeZoneOffsetMinutes(date, timeZone);
+  return formatDate(new Date(date.getTime() + offset * 60000));
+};
+
+// Local wall-clock time with offset, e.g. 2024-01-15T00:00:00+05:30
+export const formatZonedDateTime = (date: Date, timeZone: string): string => {
+  const offset = getTimeZoneOffsetMinutes(date, timeZone);
+  const local = new Date(date.getTime() + offset * 60000).toISOString().slice(0, 19);
+  const sign = offset < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+  return `${local}${sign}${hours}:${minutes}`;
+};
+
+// UTC instant of local midnight at the start of a calendar day
+export const getZonedDayStart = (day: string, timeZone: string): Date => {
+  const utcMidnight = parseDate(day).getTime();
+  const guess = utcMidnight - getTimeZoneOffsetMinutes(new Date(utcMidnight), timeZone) * 60000;
+  // Re-evaluate the offset at the guess in case a DST change lies in between
+  return new Date(utcMidnight - getTimeZoneOffsetMinutes(new Date(guess), timeZone) * 60000);
+};
+
+export const getDayBounds = (day: string, timeZone: string = 'UTC'): DayBounds => {
+  const nextDay = formatDate(new Date(parseDate(day).getTime() + 24 * 60 * 60 * 1000));
+  return {
+    day,
+    timezone: timeZone,
+    start: getZonedDayStart(day, timeZone),
+    end: getZonedDayStart(nextDay, timeZone),
+  };
+};
+
+// Day bounds for a site, honouring its digest day boundary mode
+export const getSiteDayBounds = (
+  site: { timezone: string; digestDayBoundary: DigestDayBoundary | string },
+  day: string
+): DayBounds => {
+  return getDayBounds(day, site.digestDayBoundary === 'local' ? site.timezone : 'UTC');
+};
+
+// Period a stored digest covers. Digests built before day boundaries were
+// recorded cover the UTC day of their label.
+export const getDigestPeriod = (digest: {
+  dayUtc: Date;
+  periodStart?: Date | null;
+  periodEnd?: Date | null;
+  timezone?: string | null;
+}): DayBounds => {
+  if (!digest.periodStart || !digest.periodEnd) {
+    return getDayBounds(formatDate(digest.dayUtc));
+  }
+
+  return {
+    day: formatDate(digest.dayUtc),
+    timezone: digest.timezone || 'UTC',
+    start: digest.periodStart,
+    end: digest.periodEnd,
+  };
+};
+
 // Hashing utilities
 export const sha256 = (data: string): string => {
   return createHash('sha256').update(data).digest('hex');
@@ -88,7 +190,28 @@ export class OracleError extends Error {
 }
 
 export const createError = (message: string, code: string, statusCode: number = 500): OracleError => {
-  return new OracleError(message, statusCode, code);
+  return new OracleError(message, code, statusCode);
+};
+
+// Errors that can go away on retry: the database or a connection being
+// unavailable (Prisma P1xxx connection codes, pool timeouts, write conflicts
+// and socket errors). Anything else, invalid input or a bug, fails the same
+// way again.
+const TRANSIENT_ERROR_CODES = new Set([
+  'P1001', 'P1002', 'P1008', 'P1017', 'P2024', 'P2034',
+  'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH',
+]);
+
+export const isTransientError = (error: unknown): boolean => {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  if (error.name === 'PrismaClientInitializationError' || error.name === 'PrismaClientRustPanicError') {
+    return true;
+  }
+
+  return 'code' in error && typeof error.code === 'string' && TRANSIENT_ERROR_CODES.has(error.code);
 };
 
 // Request ID generation
@@ -96,6 +219,18 @@ export const generateRequestId = (): string => {
   return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 };
 
+// Delay before retry number `attempt` (from 0): doubling from baseMs up to
+// maxMs, with the upper half jittered so clients do not retry in step
+export const backoffDelay = (
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+  random: () => number = Math.random
+): number => {
+  const capped = Math.min(maxMs, baseMs * Math.pow(2, Math.min(attempt, 30)));
+  return Math.round(capped / 2 + random() * (capped / 2));
+};
+
 // Retry utility with exponential backoff
 export const retryWithBackoff = async <T>(
   fn: () => Promise<T>,
@@ -1,9 +1,11 @@
 import { Queue, Worker } from 'bullmq';
-import { env } from './config/index.js';
-import { AggregationService } from './aggregate/index.js';
-import { AnchorService } from './anchor/index.js';
-import { prisma } from './db.js';
-import { logger, updateJobDurationMetrics, updateAnchorMetrics } from './util/index.js';
+import { env } from '../config/index.js';
+import { AggregationService } from '../aggregate/index.js';
+import { AnchorService } from '../anchor/index.js';
+import { PullIngester } from '../ingest/pull.js';
+import { prisma } from '../db.js';
+import { logger } from './logger.js';
+import { updateJobDurationMetrics, updateAnchorMetrics } from './metrics.js';
 
 // Job types
 export interface HourlyAggregationJob {
@@ -23,7 +25,12 @@ export interface AnchorJob {
   digestId: string;
 }
 
-export type JobData = HourlyAggregationJob | DailyAggregationJob | AnchorJob;
+// Incremental pull of every site with a pull source, from its watermark
+export interface PullJob {
+  type: 'pull';
+}
+
+export type JobData = HourlyAggregationJob | DailyAggregationJob | AnchorJob | PullJob;
 
 // Create queues
 export const hourlyQueue = new Queue<HourlyAggregationJob>('hourly-aggregation', {
@@ -38,6 +45,10 @@ export const anchorQueue = new Queue<AnchorJob>('anchor', {
   connection: { host: 'localhost', port: 6379 },
 });
 
+export const pullQueue = new Queue<PullJob>('pull', {
+  connection: { host: 'localhost', port: 6379 },
+});
+
 // Create workers
 export const createWorkers = () => {
   // Hourly aggregation worker
@@ -250,7 +261,51 @@ export const createWorkers = () => {
     }
   );
 
-  return { hourlyWorker, dailyWorker, anchorWorker };
+  // Pull worker; one run at a time so a slow catch-up is not overlapped by
+  // the next scheduled run
+  const pullWorker = new Worker<PullJob>(
+    'pull',
+    async (job) => {
+      const startTime = Date.now();
+
+      logger.info({
+        jobId: job.id,
+      }, 'Starting pull job');
+
+      try {
+        const pullIngester = new PullIngester(logger);
+        const results = await pullIngester.catchUpAllSites(new Date());
+
+        const duration = (Date.now() - startTime) / 1000;
+        updateJobDurationMetrics('pull', 'all', duration);
+
+        logger.info({
+          jobId: job.id,
+          results,
+          duration,
+        }, 'Pull job completed');
+
+        return results;
+      } catch (error) {
+        const duration = (Date.now() - startTime) / 1000;
+        updateJobDurationMetrics('pull', 'all', duration);
+
+        logger.error({
+          jobId: job.id,
+          duration,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }, 'Pull job failed');
+
+        throw error;
+      }
+    },
+    {
+      connection: { host: 'localhost', port: 6379 },
+      concurrency: 1,
+    }
+  );
+
+  return { hourlyWorker, dailyWorker, anchorWorker, pullWorker };
 };
 
 // Schedule recurring jobs
@@ -261,7 +316,7 @@ export const scheduleRecurringJobs = () => {
     siteId: 'all',
     hourUtc: new Date().toISOString(),
   }, {
-    repeat: { cron: '0 * * * *' }, // Every hour at minute 0
+    repeat: { pattern: '0 * * * *' }, // Every hour at minute 0
     removeOnComplete: 10,
     removeOnFail: 5,
   });
@@ -272,7 +327,16 @@ export const scheduleRecurringJobs = () => {
     siteId: 'all',
     dayUtc: new Date().toISOString(),
   }, {
-    repeat: { cron: '0 1 * * *' }, // Every day at 1 AM UTC
+    repeat: { pattern: '0 1 * * *' }, // Every day at 1 AM UTC
+    removeOnComplete: 10,
+    removeOnFail: 5,
+  });
+
+  // Incremental pull every PULL_INTERVAL_MINUTES
+  pullQueue.add('pull', {
+    type: 'pull',
+  }, {
+    repeat: { every: env.PULL_INTERVAL_MINUTES * 60 * 1000 },
     removeOnComplete: 10,
     removeOnFail: 5,
   });
@@ -286,6 +350,7 @@ export const shutdownQueues = async () => {
     hourlyQueue.close(),
     dailyQueue.close(),
     anchorQueue.close(),
+    pullQueue.close(),
   ]);
   
   logger.info('Job queues closed');